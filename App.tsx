@@ -1,73 +1,57 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useLayoutEffect } from 'react';
 import { Downloader } from './components/Downloader';
-import { PaletteIcon, CrownIcon } from './components/Icons';
-
-export interface ThemeConfig {
-  id: string;
-  name: string;
-  primary: string; // Tailwind color name (e.g. 'cyan', 'violet')
-  secondary: string; // Tailwind color name
-  bgGradient: string; // CSS classes
-  accentGlow: string; // Hex for box-shadows mainly
-}
-
-const themes: ThemeConfig[] = [
-  {
-    id: 'neon',
-    name: 'Neon Cyber',
-    primary: 'cyan',
-    secondary: 'blue',
-    bgGradient: 'from-cyan-400 to-blue-600',
-    accentGlow: '#06b6d4'
-  },
-  {
-    id: 'sunset',
-    name: 'Sunset Drive',
-    primary: 'fuchsia',
-    secondary: 'orange',
-    bgGradient: 'from-fuchsia-500 to-orange-500',
-    accentGlow: '#d946ef'
-  },
-  {
-    id: 'forest',
-    name: 'Forest Rain',
-    primary: 'emerald',
-    secondary: 'lime',
-    bgGradient: 'from-emerald-400 to-lime-600',
-    accentGlow: '#10b981'
-  },
-  {
-    id: 'royal',
-    name: 'Royal Velvet',
-    primary: 'violet',
-    secondary: 'rose',
-    bgGradient: 'from-violet-500 to-rose-500',
-    accentGlow: '#8b5cf6'
-  },
-  {
-    id: 'ocean',
-    name: 'Ocean Deep',
-    primary: 'blue',
-    secondary: 'teal',
-    bgGradient: 'from-blue-500 to-teal-400',
-    accentGlow: '#3b82f6'
-  },
-  {
-    id: 'cosmic',
-    name: 'Cosmic Dust',
-    primary: 'purple',
-    secondary: 'pink',
-    bgGradient: 'from-purple-500 to-pink-500',
-    accentGlow: '#a855f7'
-  }
+import { Generator } from './components/Generator';
+import { History } from './components/History';
+import { ThemeEditor } from './components/ThemeEditor';
+import { SettingsPanel } from './components/SettingsPanel';
+import { NotificationCenter } from './components/NotificationCenter';
+import { Toasts } from './components/Toasts';
+import { PaletteIcon, CrownIcon, DownloadIcon, SparklesIcon, HistoryIcon, WandIcon, SettingsIcon } from './components/Icons';
+import { useHashRoute } from './services/router';
+import { generationManager } from './services/generations';
+import { takeIncomingLinks, IncomingLinks } from './services/ingest';
+import { useI18n, LOCALES, MessageKey } from './services/i18n';
+import {
+  loadThemes, saveThemes, loadThemeId, saveThemeId, loadAppearance, saveAppearance, resolveScheme, subscribeSystemScheme,
+  applyTheme, createCustomTheme, exportThemes, importThemes, Appearance
+} from './services/themes';
+import { saveBlob } from './services/files';
+import { AppMode, HistoryItem, ThemeConfig } from './types';
+
+const APPEARANCES: { id: Appearance; label: MessageKey }[] = [
+  { id: 'system', label: 'theme.appearance.system' },
+  { id: 'dark', label: 'theme.appearance.dark' },
+  { id: 'light', label: 'theme.appearance.light' }
+];
+
+const modes: { mode: AppMode; label: MessageKey; icon: typeof DownloadIcon }[] = [
+  { mode: AppMode.DOWNLOADER, label: 'app.mode.download', icon: DownloadIcon },
+  { mode: AppMode.GENERATOR, label: 'app.mode.generate', icon: SparklesIcon },
+  { mode: AppMode.HISTORY, label: 'app.mode.history', icon: HistoryIcon }
 ];
 
 export default function App() {
-  const [currentTheme, setCurrentTheme] = useState<ThemeConfig>(themes[0]);
+  const [themes, setThemes] = useState<ThemeConfig[]>(loadThemes);
+  const [themeId, setThemeId] = useState(loadThemeId);
+  const [appearance, setAppearance] = useState<Appearance>(loadAppearance);
+  const [scheme, setScheme] = useState(() => resolveScheme(appearance));
+  // Draft being edited; applied to the page instead of the saved theme while open
+  const [editingTheme, setEditingTheme] = useState<ThemeConfig | null>(null);
+  const [previewTheme, setPreviewTheme] = useState<ThemeConfig | null>(null);
+  const [themeNotice, setThemeNotice] = useState<string | null>(null);
   const [showMenu, setShowMenu] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const currentTheme = themes.find(theme => theme.id === themeId) ?? themes[0];
+  const { route, navigate } = useHashRoute();
+  const { locale, setLocale, t } = useI18n();
+  // History entries on their way back to the download queue
+  const [requeued, setRequeued] = useState<HistoryItem[]>([]);
+  // Links from outside the app (share sheet, ?add=, web+vortex:), on their way to the download queue
+  const [incoming, setIncoming] = useState<IncomingLinks | undefined>();
   
   const contentRef = useRef<HTMLDivElement>(null);
   const menuRef = useRef<HTMLDivElement>(null);
+  const themeFileRef = useRef<HTMLInputElement>(null);
 
   const handleMouseMove = (e: React.MouseEvent) => {
     if (!contentRef.current) return;
@@ -79,6 +63,87 @@ export default function App() {
     contentRef.current.style.setProperty('--mouse-y', `${y}px`);
   };
 
+  // Before paint, so a saved light or custom theme doesn't flash the default one
+  useLayoutEffect(() => {
+    applyTheme(previewTheme ?? currentTheme, scheme);
+  }, [previewTheme, currentTheme, scheme]);
+
+  useEffect(() => {
+    setScheme(resolveScheme(appearance));
+    if (appearance !== 'system') return;
+    return subscribeSystemScheme(() => setScheme(resolveScheme('system')));
+  }, [appearance]);
+
+  const selectTheme = (id: string) => {
+    setThemeId(id);
+    saveThemeId(id);
+  };
+
+  const updateThemes = (next: ThemeConfig[]) => {
+    setThemes(next);
+    saveThemes(next);
+  };
+
+  // Built-in themes are never modified: editing one starts a custom copy
+  const openThemeEditor = (base: ThemeConfig) => {
+    setShowMenu(false);
+    setEditingTheme(base.builtIn ? createCustomTheme(base, t('theme.copyName', { name: base.name })) : base);
+  };
+
+  const closeThemeEditor = () => {
+    setEditingTheme(null);
+    setPreviewTheme(null);
+  };
+
+  const handleThemeSave = (theme: ThemeConfig) => {
+    const exists = themes.some(existing => existing.id === theme.id);
+    updateThemes(exists ? themes.map(existing => existing.id === theme.id ? theme : existing) : [...themes, theme]);
+    selectTheme(theme.id);
+    closeThemeEditor();
+  };
+
+  const handleThemeDelete = (id: string) => {
+    updateThemes(themes.filter(theme => theme.id !== id));
+    if (id === currentTheme.id) selectTheme(themes[0].id);
+  };
+
+  const handleAppearanceChange = (next: Appearance) => {
+    setAppearance(next);
+    saveAppearance(next);
+  };
+
+  const handleThemeExport = () => {
+    const custom = themes.filter(theme => !theme.builtIn);
+    saveBlob(exportThemes(custom.length > 0 ? custom : [currentTheme]), 'vortexmedia-temas.json');
+  };
+
+  const handleThemeImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = await importThemes(file);
+      updateThemes([...themes, ...imported]);
+      selectTheme(imported[0].id);
+      setThemeNotice(t('theme.imported', { count: imported.length }));
+    } catch (err) {
+      console.error('Failed to import themes', err);
+      setThemeNotice(t('theme.importFailed'));
+    }
+  };
+
+  // Resume Veo generations left running before a reload, whatever the mode
+  useEffect(() => {
+    generationManager.restore();
+  }, []);
+
+  useEffect(() => {
+    const links = takeIncomingLinks();
+    if (!links) return;
+    setIncoming(links);
+    navigate(AppMode.DOWNLOADER, undefined, { replace: true });
+  }, []);
+
   // Close menu when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -93,96 +158,198 @@ export default function App() {
   }, []);
 
   return (
-    <div className="min-h-screen bg-[#020617] relative overflow-hidden text-slate-100 selection:bg-white/20 flex flex-col">
+    <div className="min-h-screen bg-slate-950 relative overflow-hidden text-slate-100 selection:bg-white/20 flex flex-col">
       
       {/* Dynamic Animated Background */}
       <div className="fixed inset-0 pointer-events-none overflow-hidden">
         {/* Blob 1 */}
         <div 
-            className={`absolute top-0 -left-4 w-96 h-96 bg-${currentTheme.primary}-500/30 rounded-full mix-blend-screen filter blur-[80px] opacity-70 animate-blob`}
+            className="absolute top-0 -left-4 w-96 h-96 bg-primary-500/30 rounded-full mix-blend-screen filter blur-[80px] opacity-70 animate-blob"
             style={{ transitionDuration: '1000ms' }}
         ></div>
         {/* Blob 2 */}
         <div 
-            className={`absolute top-0 -right-4 w-96 h-96 bg-${currentTheme.secondary}-500/30 rounded-full mix-blend-screen filter blur-[80px] opacity-70 animate-blob`}
+            className="absolute top-0 -right-4 w-96 h-96 bg-secondary-500/30 rounded-full mix-blend-screen filter blur-[80px] opacity-70 animate-blob"
             style={{ animationDelay: '2000ms', transitionDuration: '1000ms' }}
         ></div>
         {/* Blob 3 */}
         <div 
-            className={`absolute -bottom-32 left-20 w-96 h-96 bg-${currentTheme.primary}-600/30 rounded-full mix-blend-screen filter blur-[80px] opacity-70 animate-blob`}
+            className="absolute -bottom-32 left-20 w-96 h-96 bg-primary-600/30 rounded-full mix-blend-screen filter blur-[80px] opacity-70 animate-blob"
             style={{ animationDelay: '4000ms', transitionDuration: '1000ms' }}
         ></div>
         {/* Blob 4 (Extra for larger screens) */}
         <div 
-            className={`hidden md:block absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-[500px] h-[500px] bg-${currentTheme.secondary}-600/10 rounded-full mix-blend-screen filter blur-[100px] animate-pulse`}
+            className="hidden md:block absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-[500px] h-[500px] bg-secondary-600/10 rounded-full mix-blend-screen filter blur-[100px] animate-pulse"
             style={{ transitionDuration: '1000ms' }}
         ></div>
       </div>
 
+      {showSettings && <SettingsPanel onClose={() => setShowSettings(false)} />}
+      <Toasts />
+
+      {editingTheme && (
+          <ThemeEditor
+              theme={editingTheme}
+              onPreview={setPreviewTheme}
+              onSave={handleThemeSave}
+              onClose={closeThemeEditor}
+          />
+      )}
+
       <div className="container mx-auto px-4 py-6 relative z-10 flex flex-col flex-1">
         
         {/* Header - Simplified: Logo acts as Theme Menu Trigger */}
-        <header className="flex justify-center md:justify-start items-center mb-12 relative pt-4" ref={menuRef}>
+        <header className="flex flex-col md:flex-row justify-center md:justify-start items-center mb-12 relative pt-4" ref={menuRef}>
             <div className="relative z-50">
                 <button 
                     onClick={() => setShowMenu(!showMenu)} 
                     className="flex items-center gap-3 group focus:outline-none"
-                    title="Cambiar Tema"
+                    title={t('app.changeTheme')}
                 >
-                    <div className={`w-12 h-12 bg-gradient-to-br ${currentTheme.bgGradient} rounded-xl flex items-center justify-center font-bold text-white text-2xl shadow-lg brand-font transition-all duration-500 group-hover:scale-105 group-hover:shadow-${currentTheme.primary}-500/50`} style={{ boxShadow: `0 10px 25px -5px ${currentTheme.accentGlow}40` }}>
+                    <div className="w-12 h-12 bg-gradient-to-br from-gradient-start to-gradient-end rounded-xl flex items-center justify-center font-bold text-white text-2xl shadow-lg brand-font transition-all duration-500 group-hover:scale-105 group-hover:shadow-primary-500/50" style={{ boxShadow: '0 10px 25px -5px rgb(var(--theme-glow) / 0.25)' }}>
                         V
                     </div>
                     <div className="flex flex-col items-start">
                         <h1 className="text-3xl font-bold tracking-tight brand-font flex items-center gap-2 group-hover:text-white transition-colors">
                           VortexMedia
-                          <span className={`text-[10px] px-1.5 py-0.5 rounded border border-${currentTheme.primary}-500/30 bg-${currentTheme.primary}-500/10 text-${currentTheme.primary}-400 font-mono`}>
+                          <span className="text-[10px] px-1.5 py-0.5 rounded border border-primary-500/30 bg-primary-500/10 text-primary-400 font-mono">
                             PRO
                           </span>
                         </h1>
                     </div>
                     {/* Small indicator that this is clickable */}
-                    <div className={`ml-2 opacity-0 group-hover:opacity-100 transition-opacity text-${currentTheme.primary}-400`}>
+                    <div className="ml-2 opacity-0 group-hover:opacity-100 transition-opacity text-primary-400">
                         <PaletteIcon className="w-4 h-4" />
                     </div>
                 </button>
 
-                {/* Dropdown Menu (Themes Only) */}
+                {/* Dropdown Menu (Themes) */}
                 {showMenu && (
-                    <div className="absolute top-full left-0 mt-4 w-64 glass-panel rounded-2xl overflow-hidden shadow-2xl animate-fade-in border border-white/10 p-2 backdrop-blur-xl bg-[#0f172a]/95">
+                    <div className="absolute top-full left-0 mt-4 w-72 glass-panel rounded-2xl overflow-hidden shadow-2xl animate-fade-in border border-white/10 p-2 backdrop-blur-xl bg-slate-900/95">
                         <p className="px-3 py-2 text-[10px] font-bold text-slate-500 uppercase tracking-widest flex items-center gap-1 border-b border-white/5 mb-1">
                             <CrownIcon className="w-3 h-3 text-yellow-500" />
-                            Seleccionar Tema
+                            {t('app.selectTheme')}
                         </p>
-                        <div className="grid grid-cols-1 gap-1">
+                        <div className="grid grid-cols-1 gap-1 max-h-72 overflow-y-auto">
                             {themes.map(theme => (
-                                <button
-                                    key={theme.id}
-                                    onClick={() => {
-                                        setCurrentTheme(theme);
-                                        setShowMenu(false);
-                                    }}
-                                    className={`text-left px-3 py-2 rounded-lg text-xs font-medium transition-colors flex items-center gap-3 ${currentTheme.id === theme.id ? 'bg-white/10 text-white border border-white/10' : 'text-slate-400 hover:bg-white/5 hover:text-slate-200'}`}
-                                >
-                                    <div className={`w-3 h-3 rounded-full bg-gradient-to-r ${theme.bgGradient} shadow-sm`}></div>
-                                    {theme.name}
-                                </button>
+                                <div key={theme.id} className="flex items-center gap-1 group/theme">
+                                    <button
+                                        onClick={() => {
+                                            selectTheme(theme.id);
+                                            setShowMenu(false);
+                                        }}
+                                        className={`flex-1 text-left px-3 py-2 rounded-lg text-xs font-medium transition-colors flex items-center gap-3 ${currentTheme.id === theme.id ? 'bg-white/10 text-white border border-white/10' : 'text-slate-400 hover:bg-white/5 hover:text-slate-200'}`}
+                                    >
+                                        <div className="w-3 h-3 rounded-full shadow-sm" style={{ background: `linear-gradient(to right, ${theme.gradientFrom}, ${theme.gradientTo})` }}></div>
+                                        {theme.name}
+                                    </button>
+                                    <button
+                                        onClick={() => openThemeEditor(theme)}
+                                        className="p-1.5 rounded-lg text-slate-600 hover:text-primary-400 opacity-0 group-hover/theme:opacity-100 transition-opacity"
+                                        title={theme.builtIn ? t('theme.duplicate') : t('theme.edit')}
+                                    >
+                                        <WandIcon className="w-3.5 h-3.5" />
+                                    </button>
+                                    {!theme.builtIn && (
+                                        <button
+                                            onClick={() => handleThemeDelete(theme.id)}
+                                            className="p-1.5 text-xs text-slate-600 hover:text-red-400 opacity-0 group-hover/theme:opacity-100 transition-opacity"
+                                            title={t('theme.delete')}
+                                        >
+                                            ✕
+                                        </button>
+                                    )}
+                                </div>
                             ))}
                         </div>
+
+                        <div className="border-t border-white/5 mt-1 pt-2 px-1 space-y-2">
+                            <div className="flex bg-slate-950/60 p-1 rounded-lg border border-white/5" title={t('theme.appearance')}>
+                                {APPEARANCES.map(option => (
+                                    <button
+                                        key={option.id}
+                                        onClick={() => handleAppearanceChange(option.id)}
+                                        className={`flex-1 px-2 py-1 rounded-md text-[10px] font-bold transition-all ${appearance === option.id ? 'bg-white/10 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                                    >
+                                        {t(option.label)}
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="flex items-center justify-between gap-2 px-2 pb-1">
+                                <button onClick={() => openThemeEditor(currentTheme)} className="text-[10px] font-bold text-primary-400 hover:text-white uppercase tracking-wider flex items-center gap-1">
+                                    <PaletteIcon className="w-3 h-3" />
+                                    {t('theme.new')}
+                                </button>
+                                <div className="flex gap-3">
+                                    <button onClick={() => themeFileRef.current?.click()} className="text-[10px] font-bold text-slate-500 hover:text-white uppercase tracking-wider">{t('theme.import')}</button>
+                                    <button onClick={handleThemeExport} className="text-[10px] font-bold text-slate-500 hover:text-white uppercase tracking-wider">{t('theme.export')}</button>
+                                </div>
+                            </div>
+                            {themeNotice && (
+                                <p className="text-[10px] text-slate-400 px-2 pb-1 flex justify-between gap-2">
+                                    {themeNotice}
+                                    <button onClick={() => setThemeNotice(null)} className="text-slate-600 hover:text-white">✕</button>
+                                </p>
+                            )}
+                        </div>
                     </div>
                 )}
+                <input ref={themeFileRef} type="file" accept=".json,application/json" onChange={handleThemeImport} className="hidden" />
+            </div>
+            {/* Under the logo on phones, top right from md up */}
+            <div className="mt-4 md:mt-0 md:absolute md:right-0 md:top-4 flex items-center gap-2">
+            {/* Locale Switcher */}
+            <div className="flex bg-slate-900/80 p-1 rounded-lg border border-slate-700/50" title={t('app.language')}>
+                {LOCALES.map(option => (
+                    <button
+                        key={option.id}
+                        onClick={() => setLocale(option.id)}
+                        className={`px-2 py-1 rounded-md text-[10px] font-bold uppercase transition-all ${locale === option.id ? 'bg-white/10 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                        title={option.name}
+                    >
+                        {option.id}
+                    </button>
+                ))}
+            </div>
+            <NotificationCenter />
+            <button
+                onClick={() => setShowSettings(true)}
+                className="p-2 rounded-lg border border-slate-700/50 bg-slate-900/80 text-slate-500 hover:text-white transition-colors"
+                title={t('settings.title')}
+            >
+                <SettingsIcon className="w-4 h-4" />
+            </button>
             </div>
         </header>
 
         {/* Hero Text */}
         <div className="text-center mb-8 space-y-2 animate-fade-in">
           <h2 className="text-3xl md:text-5xl font-bold text-white tracking-tight brand-font">
-            El Vórtice de Descargas.
+            {t('app.hero.title')}
           </h2>
           <p className="text-slate-400 max-w-lg mx-auto leading-relaxed text-sm md:text-base">
-            Gestión inteligente de medios para creadores. <span className={`text-${currentTheme.primary}-400 font-semibold mx-1`}>Rápido. Universal.</span>
+            {t('app.hero.subtitle')} <span className="text-primary-400 font-semibold mx-1">{t('app.hero.highlight')}</span>
           </p>
         </div>
 
+        {/* Mode Switcher */}
+        <nav className="flex justify-center mb-8">
+          <div className="bg-slate-900/80 p-1 rounded-xl border border-slate-700/50 flex shadow-inner">
+            {modes.map(({ mode, label, icon: Icon }) => (
+              <button
+                key={mode}
+                onClick={() => navigate(mode)}
+                className={`px-5 py-2 rounded-lg text-xs font-bold flex items-center gap-2 transition-all ${
+                  route.mode === mode ? 'bg-primary-500 text-slate-900 shadow-lg' : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'
+                }`}
+              >
+                <Icon className="w-3.5 h-3.5" />
+                {t(label)}
+              </button>
+            ))}
+          </div>
+        </nav>
+
         {/* Content Area with Spotlight Effect */}
         <main 
             ref={contentRef}
@@ -190,8 +357,40 @@ export default function App() {
             className="flex-1 w-full max-w-4xl mx-auto relative spotlight-card p-[1px] rounded-3xl"
         >
           {/* Transition wrapper */}
-          <div className="relative w-full animate-slide-up">
-             <Downloader theme={currentTheme} />
+          <div key={route.mode} className="relative w-full animate-slide-up">
+             {route.mode === AppMode.DOWNLOADER && (
+               <Downloader
+                 initialInput={route.params.get('urls') || undefined}
+                 initialType={route.params.get('type') === 'audio' ? 'audio' : undefined}
+                 onStateChange={({ input, type }) =>
+                   navigate(AppMode.DOWNLOADER, { urls: input, type: type === 'audio' ? type : undefined }, { replace: true })
+                 }
+                 requeued={requeued}
+                 onRequeueHandled={() => setRequeued([])}
+                 incoming={incoming}
+                 onIncomingHandled={() => setIncoming(undefined)}
+               />
+             )}
+             {route.mode === AppMode.GENERATOR && (
+               <Generator
+                 initialState={{
+                   prompt: route.params.get('prompt') || undefined,
+                   resolution: route.params.get('resolution') || undefined,
+                   aspectRatio: route.params.get('aspect') || undefined
+                 }}
+                 onStateChange={({ prompt, resolution, aspectRatio }) =>
+                   navigate(AppMode.GENERATOR, { prompt, resolution, aspect: aspectRatio }, { replace: true })
+                 }
+               />
+             )}
+             {route.mode === AppMode.HISTORY && (
+               <History
+                 onRequeue={(entry) => {
+                   setRequeued(prev => [...prev, entry]);
+                   navigate(AppMode.DOWNLOADER);
+                 }}
+               />
+             )}
           </div>
         </main>
 
@@ -199,10 +398,10 @@ export default function App() {
         <footer className="mt-12 py-8 border-t border-white/5 text-center relative z-10">
           <div className="flex flex-col items-center gap-2">
             <p className="text-slate-500 text-sm">
-              &copy; {new Date().getFullYear()} <span className={`text-${currentTheme.primary}-500 font-medium`}>VortexMedia</span>. Suite Profesional.
+              &copy; {new Date().getFullYear()} <span className="text-primary-500 font-medium">VortexMedia</span>. {t('app.footer.suite')}
             </p>
             <p className="text-[10px] text-slate-600 font-mono tracking-widest uppercase opacity-50 hover:opacity-100 transition-opacity">
-                Créditos: Samuel Moreno
+                {t('app.footer.credits')}: Samuel Moreno
             </p>
           </div>
         </footer>
@@ -0,0 +1,30 @@
+import React, { useEffect, useRef } from 'react';
+
+interface BookmarkletLinkProps {
+  code: string; // javascript: URL
+  label: string;
+  title?: string;
+}
+
+/**
+ * Link meant to be dragged to the bookmarks bar. React refuses to render
+ * `javascript:` hrefs, so the attribute is set on the element directly.
+ */
+export const BookmarkletLink: React.FC<BookmarkletLinkProps> = ({ code, label, title }) => {
+  const linkRef = useRef<HTMLAnchorElement>(null);
+
+  useEffect(() => {
+    linkRef.current?.setAttribute('href', code);
+  }, [code]);
+
+  return (
+    <a
+      ref={linkRef}
+      onClick={(e) => e.preventDefault()}
+      title={title}
+      className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-gradient-to-r from-gradient-start to-gradient-end text-white text-[10px] font-bold shadow-lg cursor-grab"
+    >
+      {label}
+    </a>
+  );
+};
@@ -0,0 +1,180 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { fetchPreview, formatTimecode, normalizeClip, ClipRange } from '../services/clips';
+import { classifyError } from '../services/errors';
+import { useI18n } from '../services/i18n';
+import { BatchItem, ErrorInfo } from '../types';
+import { LoaderIcon, PlayIcon, ScissorsIcon } from './Icons';
+import { ErrorNotice } from './ErrorNotice';
+
+interface ClipPlayerProps {
+  item: BatchItem;
+  // undefined clears the clip (the whole media is downloaded)
+  onApply: (clip: ClipRange | undefined) => void;
+  onClose: () => void;
+}
+
+/**
+ * Inline player on a queue card: scrub the preview stream and mark where the
+ * download should start and end (buttons or the I / O keys).
+ */
+export const ClipPlayer: React.FC<ClipPlayerProps> = ({ item, onApply, onClose }) => {
+  const { t } = useI18n();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [streamUrl, setStreamUrl] = useState<string | null>(null);
+  const [error, setError] = useState<ErrorInfo | null>(null);
+  const [duration, setDuration] = useState<number | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [start, setStart] = useState(item.clip?.startSeconds ?? 0);
+  const [end, setEnd] = useState<number | undefined>(item.clip?.endSeconds);
+  // Set while "play clip" runs, so playback stops at the out marker
+  const stopAtRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchPreview(item.url, controller.signal)
+      .then(preview => {
+        setStreamUrl(preview.streamUrl);
+        if (preview.durationSeconds) setDuration(preview.durationSeconds);
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error('Failed to load preview', err);
+        setError(classifyError(err, 'unsupported_platform').toInfo());
+      });
+    return () => controller.abort();
+  }, [item.url]);
+
+  const outPoint = end ?? duration ?? undefined;
+  const invalid = outPoint !== undefined && outPoint <= start;
+
+  const seek = (seconds: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = Math.max(0, duration ? Math.min(seconds, duration) : seconds);
+    setCurrentTime(video.currentTime);
+  };
+
+  const markIn = () => {
+    setStart(currentTime);
+    if (end !== undefined && end <= currentTime) setEnd(undefined);
+  };
+
+  const markOut = () => {
+    setEnd(currentTime);
+    if (currentTime <= start) setStart(0);
+  };
+
+  const playClip = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    stopAtRef.current = outPoint ?? null;
+    seek(start);
+    video.play().catch(() => undefined);
+  };
+
+  const handleTimeUpdate = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    setCurrentTime(video.currentTime);
+    if (stopAtRef.current !== null && video.currentTime >= stopAtRef.current) {
+      stopAtRef.current = null;
+      video.pause();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.target instanceof HTMLInputElement) return;
+    const key = e.key.toLowerCase();
+    if (key === 'i') markIn();
+    else if (key === 'o') markOut();
+    else return;
+    e.preventDefault();
+  };
+
+  // Clicking the range bar scrubs to that point
+  const handleBarClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!duration) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    seek(((e.clientX - rect.left) / rect.width) * duration);
+  };
+
+  const percent = (seconds: number) => duration ? `${Math.min(100, (seconds / duration) * 100)}%` : '0%';
+  const button = "px-2.5 py-1 rounded-lg text-[10px] font-bold border border-white/10 text-slate-300 hover:bg-white/5 disabled:opacity-40";
+
+  return (
+    <div className="basis-full w-full mt-1 p-3 rounded-xl bg-slate-950/60 border border-white/5 space-y-3 outline-none" tabIndex={0} onKeyDown={handleKeyDown}>
+      <div className={`rounded-lg overflow-hidden bg-black flex items-center justify-center ${item.type === 'audio' ? 'h-28' : 'aspect-video'}`}>
+        {error ? (
+          <div className="p-4 w-full"><ErrorNotice error={error} compact /></div>
+        ) : streamUrl ? (
+          <video
+            ref={videoRef}
+            src={streamUrl}
+            poster={item.result?.thumbnailUrl}
+            controls
+            preload="metadata"
+            className="w-full h-full object-contain"
+            onLoadedMetadata={(e) => Number.isFinite(e.currentTarget.duration) && setDuration(e.currentTarget.duration)}
+            onTimeUpdate={handleTimeUpdate}
+            onError={() => setError(classifyError(new Error('El navegador no puede reproducir esta vista previa'), 'unsupported_platform').toInfo())}
+          />
+        ) : (
+          <LoaderIcon className="w-6 h-6 text-slate-600 animate-spin" />
+        )}
+      </div>
+
+      {streamUrl && !error && (
+        <>
+          <div className="relative h-2 rounded-full bg-slate-800 cursor-pointer" onClick={handleBarClick}>
+            {duration && (
+              <>
+                <div
+                  className={`absolute inset-y-0 rounded-full ${invalid ? 'bg-red-500/50' : 'bg-gradient-to-r from-gradient-start to-gradient-end'}`}
+                  style={{ left: percent(start), width: `calc(${percent(outPoint ?? duration)} - ${percent(start)})` }}
+                />
+                <div className="absolute -top-1 w-0.5 h-4 bg-white rounded" style={{ left: percent(currentTime) }} />
+              </>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-1.5">
+              <button onClick={markIn} className={button} title={t('clip.markIn.hint')}>{t('clip.markIn')}</button>
+              <button onClick={markOut} className={button} title={t('clip.markOut.hint')}>{t('clip.markOut')}</button>
+              <button onClick={playClip} disabled={invalid} className={`${button} flex items-center gap-1`}>
+                <PlayIcon className="w-3 h-3" />
+                {t('clip.play')}
+              </button>
+            </div>
+            <span className={`text-[10px] font-mono ${invalid ? 'text-red-400' : 'text-slate-400'}`}>
+              {formatTimecode(start)} – {outPoint !== undefined ? formatTimecode(outPoint) : t('clip.toEnd')}
+              <span className="text-slate-600"> • {formatTimecode(currentTime)}</span>
+            </span>
+          </div>
+        </>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-[10px] text-slate-500">{invalid ? t('clip.invalid') : t('clip.hint')}</p>
+        <div className="flex items-center gap-1.5 flex-shrink-0">
+          {item.clip && (
+            <button onClick={() => onApply(undefined)} className="px-2.5 py-1 rounded-lg text-[10px] font-bold text-slate-400 hover:text-red-400">
+              {t('clip.clear')}
+            </button>
+          )}
+          <button onClick={onClose} className="px-2.5 py-1 rounded-lg text-[10px] font-bold text-slate-400 hover:text-white">
+            {t('clip.close')}
+          </button>
+          <button
+            onClick={() => onApply(normalizeClip({ startSeconds: start, endSeconds: end }, duration))}
+            disabled={!streamUrl || !!error || invalid}
+            className="px-3 py-1 rounded-lg bg-primary-500 text-slate-900 text-[10px] font-bold flex items-center gap-1 disabled:opacity-40"
+          >
+            <ScissorsIcon className="w-3 h-3" />
+            {t('clip.apply')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,56 +1,246 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { analyzeLink } from '../services/gemini';
-import { requestNotificationPermission, sendNotification } from '../services/notifications';
-import { AnalysisResult, HistoryItem } from '../types';
-import { LoaderIcon, CheckIcon, DownloadIcon, YoutubeIcon, InstagramIcon, TwitterIcon, FacebookIcon, MusicIcon, MessageCircleIcon, HistoryIcon, ClipboardIcon, FilmIcon, SparklesIcon, TikTokIcon, PlayIcon, PlaylistIcon } from './Icons';
-import { ThemeConfig } from '../App';
-
-interface BatchItem {
-  id: string;
-  url: string;
-  status: 'idle' | 'analyzing' | 'ready' | 'downloading' | 'completed' | 'error';
-  progress: number;
-  speed: string;
-  phase: string;
-  timeLeft: string;
-  result: AnalysisResult | null;
-  errorMsg?: string;
-  suggestion?: string;
-  helpLink?: string;
-  type: 'video' | 'audio';
-}
+import { analyzeCached } from '../services/analysisCache';
+import { startServerDownload, attachServerDownload, cancelServerDownload, createBundle, getServerDownload, getFileUrl, getProgressPercent, formatSpeed, formatTimeLeft, isTerminalPhase, DownloadHandle, DownloadSnapshot } from '../services/downloads';
+import { PlaylistEntry } from '../services/playlists';
+import { getDefaultFormat, rememberFormat, describeFormat, FormatSelection, MediaFormatOptions } from '../services/formats';
+import { loadQueue, saveQueue } from '../services/queueStore';
+import { addToHistory, historyToResult } from '../services/history';
+import { supportsTags, defaultTags, retagDownload, MediaTags } from '../services/tags';
+import { pickNextItems, getNextRetryAt, getRetryDelay, nextPriority, loadMaxParallel, saveMaxParallel, MAX_RETRIES, MAX_PARALLEL_OPTIONS } from '../services/scheduler';
+import { requestNotificationPermission, notify } from '../services/notifications';
+import { AppError, classifyError, getErrorInfo, isRetryable } from '../services/errors';
+import { isAbortError } from '../services/geminiClient';
+import { processingManager, fetchMedia } from '../services/processing';
+import { describeClip, ClipRange } from '../services/clips';
+import { useOnlineStatus } from '../services/pwa';
+import { loadIngestPrefs, IncomingLinks } from '../services/ingest';
+import { extractLinks, getContentKey } from '../services/urls';
+import { readLinkFiles, LINK_FILE_ACCEPT, ImportedLink } from '../services/linkImport';
+import { saveUrl } from '../services/files';
+import { useCompanionToken, withCompanionToken } from '../services/companion';
+import { getItemFileName } from '../services/fileNames';
+import { canEmbedSubtitles, describeSubtitles, getSubtitleUrl, SubtitleSelection, SubtitleTrack } from '../services/subtitles';
+import { useI18n, t, translateStored } from '../services/i18n';
+import { AppMode, BatchItem, HistoryItem, ProcessingRequest, QueuePriority } from '../types';
+import { LoaderIcon, CheckIcon, DownloadIcon, MusicIcon, ClipboardIcon, FilmIcon, SparklesIcon, PlayIcon, PlaylistIcon, PauseIcon, StopIcon, RetryIcon, ArrowUpIcon, TagIcon, ScissorsIcon, WifiOffIcon, UploadIcon, ArchiveIcon, CaptionsIcon } from './Icons';
+import { PlaylistDialog } from './PlaylistDialog';
+import { FormatPicker } from './FormatPicker';
+import { TagEditor } from './TagEditor';
+import { SubtitlePicker } from './SubtitlePicker';
+import { ProcessingDialog } from './ProcessingDialog';
+import { ProcessingStatus } from './ProcessingStatus';
+import { ClipPlayer } from './ClipPlayer';
+import { LinkImportDialog } from './LinkImportDialog';
+import { ErrorNotice } from './ErrorNotice';
 
 interface DownloaderProps {
-  theme: ThemeConfig;
+  // Deep-link state (#/download?urls=...&type=audio)
+  initialInput?: string;
+  initialType?: 'video' | 'audio';
+  onStateChange?: (state: { input: string; type: 'video' | 'audio' }) => void;
+  // History entries sent back to the queue from the History view
+  requeued?: HistoryItem[];
+  onRequeueHandled?: () => void;
+  // Links from outside the app (share sheet, ?add=, web+vortex: links, bookmarklet)
+  incoming?: IncomingLinks;
+  onIncomingHandled?: () => void;
 }
 
-export const Downloader: React.FC<DownloaderProps> = ({ theme }) => {
-  const [inputText, setInputText] = useState('');
+// Maps an AppError onto the queue item's error fields
+const errorFields = (error: AppError): Partial<BatchItem> => {
+  const info = error.toInfo();
+  return { errorKind: info.kind, errorMsg: info.message, suggestion: info.suggestion, helpLink: info.helpLink };
+};
+
+const clearedError: Partial<BatchItem> = { errorKind: undefined, errorMsg: undefined, suggestion: undefined, helpLink: undefined };
+
+// Phases are stored as catalog keys; the retry countdown is filled in at render time
+const describePhase = (item: BatchItem) => item.phase === 'phase.retrying'
+  ? t('phase.retrying', {
+      attempt: item.retries || 0,
+      max: MAX_RETRIES,
+      seconds: Math.max(0, Math.ceil(((item.retryAt || 0) - Date.now()) / 1000))
+    })
+  : translateStored(item.phase);
+
+export const Downloader: React.FC<DownloaderProps> = ({ initialInput, initialType, onStateChange, requeued, onRequeueHandled, incoming, onIncomingHandled }) => {
+  const { t } = useI18n();
+  const online = useOnlineStatus();
+  // File links carry the companion token; re-rendered once it arrives
+  useCompanionToken();
+  const [inputText, setInputText] = useState(initialInput || '');
   const [queue, setQueue] = useState<BatchItem[]>([]);
-  const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [playlistItemId, setPlaylistItemId] = useState<string | null>(null);
+  const [formatItemId, setFormatItemId] = useState<string | null>(null);
+  const [tagItemId, setTagItemId] = useState<string | null>(null);
+  const [subtitleItemId, setSubtitleItemId] = useState<string | null>(null);
+  const [processItemId, setProcessItemId] = useState<string | null>(null);
+  const [previewItemId, setPreviewItemId] = useState<string | null>(null);
+  // Links found in dropped or picked files, waiting for the user to pick which ones to queue
+  const [importedLinks, setImportedLinks] = useState<ImportedLink[] | null>(null);
+  const [dragActive, setDragActive] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [bundling, setBundling] = useState(false);
+  // The queue is only written back once the stored one has been restored
+  const [queueRestored, setQueueRestored] = useState(false);
   
-  // Global Settings
-  const [downloadType, setDownloadType] = useState<'video' | 'audio'>('video');
+  // Global Settings (default type for newly added links; each item keeps its own)
+  const [downloadType, setDownloadType] = useState<'video' | 'audio'>(initialType || 'video');
+  const [maxParallel, setMaxParallel] = useState(loadMaxParallel);
+  const [queuePaused, setQueuePaused] = useState(false);
+  // Bumped to re-run the scheduler when a retry backoff expires
+  const [schedulerTick, setSchedulerTick] = useState(0);
 
-  // Refs to manage intervals for multiple items
-  const intervalsRef = useRef<{ [key: string]: ReturnType<typeof setInterval> }>({});
+  // Refs to the running companion downloads, keyed by queue item
+  const downloadsRef = useRef<{ [key: string]: DownloadHandle }>({});
+  // Items handed to startDownload that have not reported back yet
+  const startingRef = useRef<Set<string>>(new Set());
+  // Items the user paused; one paused while still starting is paused once its job exists
+  const pausedRef = useRef<Set<string>>(new Set());
+  // Pending Gemini analyses, so removing an item can cancel its request
+  const analysesRef = useRef<{ [key: string]: AbortController }>({});
 
   useEffect(() => {
-    const stored = localStorage.getItem('vortex_media_history');
-    if (stored) {
-      try {
-        setHistory(JSON.parse(stored));
-      } catch (e) {
-        console.error("Failed to load history", e);
-      }
-    }
+    let active = true;
+    loadQueue()
+      .then(restored => {
+        if (!active) return;
+        setQueue(prev => {
+          const ids = new Set(prev.map(i => i.id));
+          return [...prev, ...restored.filter(i => !ids.has(i.id))];
+        });
+        analyzeItems(restored.filter(i => i.status === 'analyzing'));
+      })
+      .catch(e => console.error("Failed to restore queue", e))
+      .finally(() => {
+        if (active) setQueueRestored(true);
+      });
     
     return () => {
-      // Cleanup intervals on unmount
-      Object.values(intervalsRef.current).forEach(clearInterval);
+      active = false;
+      // Transfers keep running on the companion; the restored queue reattaches to them
+      Object.values<DownloadHandle>(downloadsRef.current).forEach(handle => handle.detach());
     };
   }, []);
 
+  useEffect(() => {
+    onStateChange?.({ input: inputText, type: downloadType });
+  }, [inputText, downloadType]);
+
+  // Re-queued history entries were already analyzed, so they go straight to the scheduler
+  useEffect(() => {
+    if (!queueRestored || !requeued?.length) return;
+    const newItems: BatchItem[] = requeued.map(entry => ({
+        id: crypto.randomUUID(),
+        url: entry.url,
+        status: 'queued',
+        progress: 0,
+        speed: '0 MB/s',
+        phase: 'phase.queued',
+        timeLeft: '--',
+        type: entry.type,
+        format: entry.format ?? getDefaultFormat(entry.type),
+        clip: entry.clip,
+        retries: 0,
+        result: historyToResult(entry)
+    }));
+    setQueue(prev => {
+        // Links already waiting or transferring are not added twice
+        const pendingKeys = new Set(prev.filter(i => !['completed', 'cancelled', 'error'].includes(i.status)).map(i => getContentKey(i.url)));
+        return [...newItems.filter(i => !pendingKeys.has(getContentKey(i.url))), ...prev];
+    });
+    onRequeueHandled?.();
+  }, [queueRestored, requeued]);
+
+  // Incoming links are queued and analyzed as if they had been pasted
+  useEffect(() => {
+    if (!queueRestored || !incoming) return;
+    addLinks(incoming.text, {
+      type: incoming.type,
+      autoStart: incoming.autoStart ?? loadIngestPrefs().autoStart
+    });
+    onIncomingHandled?.();
+  }, [queueRestored, incoming]);
+
+  // Analyses that failed for lack of a connection are waiting in "analyzing"; retry them once it's back
+  useEffect(() => {
+    if (!online || !queueRestored) return;
+    analyzeItems(queue.filter(i => i.status === 'analyzing' && !analysesRef.current[i.id]));
+  }, [online, queueRestored]);
+
+  // Persist the queue, debounced because progress updates arrive several times per second
+  useEffect(() => {
+    if (!queueRestored) return;
+    const timer = setTimeout(() => {
+      saveQueue(queue).catch(e => console.error("Failed to save queue", e));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [queue, queueRestored]);
+
+  // Switching to another mode unmounts the downloader; flush the pending save
+  const latestQueueRef = useRef<BatchItem[] | null>(null);
+  latestQueueRef.current = queueRestored ? queue : null;
+  useEffect(() => () => {
+    if (latestQueueRef.current) saveQueue(latestQueueRef.current).catch(e => console.error("Failed to save queue", e));
+  }, []);
+
+  // Scheduler: fill free slots with the highest-priority queued items
+  useEffect(() => {
+    if (!queueRestored || queuePaused) return;
+    const candidates = queue.filter(i => !startingRef.current.has(i.id));
+    pickNextItems(candidates, maxParallel).forEach(startDownload);
+  }, [queue, queueRestored, queuePaused, maxParallel, schedulerTick]);
+
+  // Notifications come from status transitions, so every path that finishes or fails an item
+  // (progress events, start errors, reattaching after a reload) is covered once
+  const statusesRef = useRef<Map<string, BatchItem['status']> | null>(null);
+  const batchRef = useRef({ completed: 0, failed: 0 });
+  useEffect(() => {
+    if (!queueRestored) return;
+    const previous = statusesRef.current;
+    statusesRef.current = new Map(queue.map(i => [i.id, i.status]));
+    if (!previous) return;
+
+    const isActive = (status?: BatchItem['status']) => status === 'queued' || status === 'downloading';
+    for (const item of queue) {
+      const before = previous.get(item.id);
+      if (before === item.status || !isActive(before)) continue;
+      const name = item.fileName || item.result?.summary || item.url;
+      if (item.status === 'completed') {
+        batchRef.current.completed++;
+        notify({ event: 'itemCompleted', title: 'notification.itemCompleted.title', body: 'notification.itemCompleted.body', params: { name }, mode: AppMode.DOWNLOADER });
+      } else if (item.status === 'error') {
+        batchRef.current.failed++;
+        const message = item.errorKind ? getErrorInfo(item.errorKind).message : item.errorMsg || '';
+        notify({ event: 'error', title: 'notification.itemFailed.title', body: 'notification.itemFailed.body', params: { name, message }, mode: AppMode.DOWNLOADER });
+      }
+    }
+
+    const wasActive = [...previous.values()].some(isActive);
+    if (wasActive && !queue.some(i => isActive(i.status))) {
+      const { completed, failed } = batchRef.current;
+      // A single item already got its own notification
+      if (completed + failed > 1) {
+        notify({
+          event: 'batchCompleted',
+          title: 'notification.batchCompleted.title',
+          body: failed > 0 ? 'notification.batchCompleted.bodyWithErrors' : 'notification.batchCompleted.body',
+          params: { count: completed, failed },
+          mode: AppMode.DOWNLOADER
+        });
+      }
+      batchRef.current = { completed: 0, failed: 0 };
+    }
+  }, [queue, queueRestored]);
+
+  // Wake the scheduler up when the next retry backoff expires
+  useEffect(() => {
+    const nextRetryAt = getNextRetryAt(queue);
+    if (nextRetryAt === null) return;
+    const timer = setTimeout(() => setSchedulerTick(t => t + 1), nextRetryAt - Date.now());
+    return () => clearTimeout(timer);
+  }, [queue]);
+
   const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setInputText(e.target.value);
   };
@@ -66,128 +256,171 @@ export const Downloader: React.FC<DownloaderProps> = ({ theme }) => {
     }
   };
 
-  const addToHistory = (resultData: AnalysisResult, link: string) => {
-    if (!resultData.isValid) return;
+  const importFiles = (files: File[]) => {
+    if (files.length === 0) return;
+    readLinkFiles(files)
+      .then(setImportedLinks)
+      .catch(err => console.error('Failed to read link files', err));
+  };
 
-    const newItem: HistoryItem = {
-      id: Date.now().toString() + Math.random(),
-      url: link,
-      platform: resultData.platform,
-      timestamp: Date.now(),
-      summary: resultData.summary
-    };
+  const handleFilePick = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) importFiles(Array.from(e.target.files));
+    e.target.value = '';
+  };
 
-    setHistory(prev => {
-      const filtered = prev.filter(item => item.url !== link);
-      const updated = [newItem, ...filtered].slice(0, 5);
-      localStorage.setItem('vortex_media_history', JSON.stringify(updated));
-      return updated;
-    });
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragActive(true);
   };
 
-  const clearHistory = () => {
-    localStorage.removeItem('vortex_media_history');
-    setHistory([]);
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragActive(false);
   };
 
-  const extractUrls = (text: string) => {
-      const urlRegex = /(https?:\/\/[^\s]+)/g;
-      return text.match(urlRegex) || [];
+  // Files open the import preview; links dragged from another tab go into the textarea
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragActive(false);
+    const files: File[] = Array.from(e.dataTransfer.files);
+    if (files.length > 0) {
+      importFiles(files);
+      return;
+    }
+    const text = e.dataTransfer.getData('text/uri-list') || e.dataTransfer.getData('text/plain');
+    if (text) setInputText(prev => prev ? `${prev}\n${text}` : text);
   };
 
-  const handleAnalyzeBatch = async () => {
-    if (!inputText.trim()) return;
+  const handleImportConfirm = (links: ImportedLink[]) => {
+    setImportedLinks(null);
+    addLinks(links.map(link => link.url).join('\n'));
+  };
 
-    const rawUrls = extractUrls(inputText);
-    const uniqueUrls = Array.from(new Set(rawUrls));
+  // Queues every link found in `text` and starts analyzing them. Links are canonicalized, and
+  // content already in the queue (however its link was written) is skipped.
+  const addLinks = (text: string, { type = downloadType, autoStart = false }: { type?: 'video' | 'audio'; autoStart?: boolean } = {}) => {
+    const queuedKeys = new Set(queue.map(i => getContentKey(i.url)));
+    const urls = extractLinks(text).filter(url => !queuedKeys.has(getContentKey(url)));
 
-    if (uniqueUrls.length === 0) return;
+    if (urls.length === 0) return;
 
     // Create new batch items
-    const newItems: BatchItem[] = uniqueUrls.map((url: string) => ({
+    const newItems: BatchItem[] = urls.map((url: string) => ({
         id: crypto.randomUUID(),
         url,
         status: 'analyzing',
         progress: 0,
         speed: '0 MB/s',
-        phase: 'Iniciando...',
+        phase: 'phase.starting',
         timeLeft: '--',
         result: null,
-        type: downloadType
+        type,
+        format: getDefaultFormat(type),
+        autoStart: autoStart || undefined
     }));
 
-    // Add to queue
-    setQueue(prev => {
-        const existingUrls = new Set(prev.map(i => i.url));
-        const filteredNew = newItems.filter(i => !existingUrls.has(i.url));
-        return [...filteredNew, ...prev]; 
-    });
-    
+    setQueue(prev => [...newItems, ...prev]);
+
+    analyzeItems(newItems);
+  };
+
+  const handleAnalyzeBatch = () => {
+    if (!inputText.trim()) return;
+    addLinks(inputText);
     setInputText('');
+  };
 
-    // Trigger Analysis for each new item
-    newItems.forEach(async (item) => {
+  // `force` bypasses the analysis cache (re-analyze)
+  const analyzeItems = (items: BatchItem[], force = false) => {
+    items.forEach(async (item) => {
+        analysesRef.current[item.id]?.abort();
+        const controller = new AbortController();
+        analysesRef.current[item.id] = controller;
         try {
-            const data = await analyzeLink(item.url);
+            const data = await analyzeCached(item.url, { force, signal: controller.signal });
             
-            if (data.isValid) {
+            if (data.isValid && item.autoStart && !data.isPlaylist) {
+                // Playlists still wait for the user to pick their entries
+                updateItem(item.id, {
+                    status: 'queued',
+                    phase: 'phase.queued',
+                    retries: 0,
+                    result: data,
+                    ...clearedError
+                });
+            } else if (data.isValid) {
                 updateItem(item.id, { 
                     status: 'ready', 
                     result: data,
+                    ...clearedError
                 });
             } else {
+                // Analyzed fine, but nothing we can download from
                 updateItem(item.id, { 
                     status: 'error', 
-                    errorMsg: 'Plataforma no soportada', 
                     result: data,
+                    ...errorFields(new AppError('unsupported_platform'))
                 });
             }
         } catch (error) {
+            if (isAbortError(error)) return;
+            // Offline: the item stays in "analyzing" and is picked up again when the connection returns
+            if (!navigator.onLine) return;
             updateItem(item.id, { 
                 status: 'error', 
-                errorMsg: 'Error de conexión',
+                ...errorFields(classifyError(error, 'analysis_failed'))
             });
+        } finally {
+            if (analysesRef.current[item.id] === controller) delete analysesRef.current[item.id];
         }
     });
   };
 
-  // Simulates fetching items from a playlist
-  const expandPlaylist = (itemId: string, platform: string) => {
-      const item = queue.find(i => i.id === itemId);
-      if (!item) return;
+  // Failed analyses, and results that may be stale, can be refreshed from Gemini
+  const reanalyzeItem = (item: BatchItem) => {
+    updateItem(item.id, { status: 'analyzing', ...clearedError });
+    analyzeItems([item], true);
+  };
 
-      // Mock expansion data
-      const mockCount = Math.floor(Math.random() * 5) + 3;
-      const newItems: BatchItem[] = [];
-
-      for(let i = 1; i <= mockCount; i++) {
-          newItems.push({
-              id: crypto.randomUUID(),
-              url: `${item.url}&index=${i}`, // Simulated URL
-              status: 'ready',
-              progress: 0,
-              speed: '0 MB/s',
-              phase: 'Listo',
-              timeLeft: '--',
-              type: downloadType,
-              result: {
-                  platform: platform,
-                  isValid: true,
-                  contentType: downloadType,
-                  summary: `${downloadType === 'audio' ? 'Track' : 'Episodio'} #${i} de la lista`,
-                  // Fake thumbnail rotation
-                  thumbnailUrl: item.result?.thumbnailUrl, 
-                  isPlaylist: false
-              }
-          });
-      }
+  // Opens the selection dialog; the container is replaced once entries are picked
+  const expandPlaylist = (itemId: string) => {
+      setPlaylistItemId(itemId);
+  };
 
-      // Replace the playlist container with its items
+  const handlePlaylistConfirm = (entries: PlaylistEntry[], playlistTitle: string | null) => {
+      const item = queue.find(i => i.id === playlistItemId);
+      setPlaylistItemId(null);
+      if (!item || !item.result) return;
+
+      const platform = item.result.platform;
+      const newItems: BatchItem[] = entries.map(entry => ({
+          id: crypto.randomUUID(),
+          url: entry.url,
+          status: 'ready',
+          progress: 0,
+          speed: '0 MB/s',
+          phase: 'phase.ready',
+          timeLeft: '--',
+          type: item.type,
+          format: item.format,
+          playlist: { title: playlistTitle, index: entry.index },
+          result: {
+              platform,
+              isValid: true,
+              contentType: item.type,
+              summary: entry.title,
+              thumbnailUrl: entry.thumbnailUrl,
+              isPlaylist: false,
+              durationSeconds: entry.durationSeconds ?? undefined
+          }
+      }));
+
+      // Replace the playlist container with its items, skipping links already queued
       setQueue(prev => {
-          const index = prev.findIndex(q => q.id === itemId);
+          const index = prev.findIndex(q => q.id === item.id);
           if (index === -1) return prev;
+          const existingKeys = new Set(prev.map(i => getContentKey(i.url)));
           const newQueue = [...prev];
-          newQueue.splice(index, 1, ...newItems);
+          newQueue.splice(index, 1, ...newItems.filter(i => !existingKeys.has(getContentKey(i.url))));
           return newQueue;
       });
   };
@@ -196,173 +429,648 @@ export const Downloader: React.FC<DownloaderProps> = ({ theme }) => {
       setQueue(prev => prev.map(item => item.id === id ? { ...item, ...updates } : item));
   };
 
-  const startDownload = async (itemId: string) => {
-    const item = queue.find(q => q.id === itemId);
-    if (!item || item.status !== 'ready') return;
+  // Progress events still in flight must not revive an item that was just paused
+  const updateActiveItem = (id: string, updates: Partial<BatchItem>) => {
+      setQueue(prev => prev.map(item => item.id === id && item.status === 'downloading' ? { ...item, ...updates } : item));
+  };
 
-    await requestNotificationPermission();
+  // Maps companion job snapshots onto the queue item's status, progress and labels
+  const createProgressHandler = (item: BatchItem) => {
+    const itemId = item.id;
+    const isAudio = item.type === 'audio';
 
-    if (item.result && !item.url.includes('&index=')) {
-        addToHistory(item.result, item.url);
-    }
+    return (snapshot: DownloadSnapshot) => {
+        switch (snapshot.phase) {
+            case 'connecting':
+                // Also kept for an item paused while it was starting, so resuming finds the job
+                setQueue(prev => prev.map(i =>
+                    i.id === itemId && i.status !== 'cancelled' ? { ...i, downloadId: snapshot.id } : i
+                ));
+                updateActiveItem(itemId, { phase: 'phase.connecting' });
+                break;
+            case 'downloading':
+                updateActiveItem(itemId, {
+                    downloadId: snapshot.id,
+                    progress: getProgressPercent(snapshot),
+                    phase: isAudio ? 'phase.extractingAudio' : 'phase.downloadingVideo',
+                    speed: formatSpeed(snapshot.bytesPerSecond),
+                    timeLeft: formatTimeLeft(snapshot.etaSeconds),
+                });
+                break;
+            case 'tagging':
+                updateActiveItem(itemId, { phase: 'phase.tagging', progress: 99, speed: '0 MB/s', timeLeft: '--' });
+                break;
+            case 'completed':
+                delete downloadsRef.current[itemId];
+                updateItem(itemId, {
+                    status: 'completed',
+                    progress: 100,
+                    phase: 'phase.saved',
+                    timeLeft: '0s',
+                    fileUrl: getFileUrl(snapshot.id),
+                    fileName: snapshot.fileName,
+                    subtitleFiles: snapshot.subtitles,
+                    ...(snapshot.tags ? { tags: snapshot.tags } : {}),
+                });
+                addToHistory(item, { fileName: snapshot.fileName, fileSize: snapshot.totalBytes })
+                    .catch(e => console.error("Failed to save history", e));
+                break;
+            case 'paused':
+                // The status was already set by whoever paused it (the item or the whole queue).
+                // Paused jobs keep their event stream open; resuming attaches a new one.
+                if (pausedRef.current.has(itemId)) {
+                    downloadsRef.current[itemId]?.detach();
+                    delete downloadsRef.current[itemId];
+                }
+                updateItem(itemId, { speed: '0 MB/s', timeLeft: '--', progress: getProgressPercent(snapshot) });
+                break;
+            case 'error':
+                delete downloadsRef.current[itemId];
+                failItem(itemId, new AppError(snapshot.errorKind || 'download_failed', { detail: snapshot.error }));
+                break;
+            case 'cancelled':
+                delete downloadsRef.current[itemId];
+                break;
+        }
+    };
+  };
 
-    updateItem(itemId, { status: 'downloading', progress: 0 });
+  // Failed transfers go back to the queue with exponential backoff until retries run out.
+  // Errors that a retry can't fix (private, geo-blocked...) fail straight away.
+  const failItem = (itemId: string, error: AppError) => {
+    setQueue(prev => prev.map(item => {
+        if (item.id !== itemId) return item;
+        const retries = item.retries || 0;
+        const reset = { downloadId: undefined, speed: '0 MB/s', timeLeft: '--', ...errorFields(error) };
+        if (retries >= MAX_RETRIES || !isRetryable(error.kind)) {
+            return { ...item, ...reset, status: 'error' };
+        }
+        return {
+            ...item,
+            ...reset,
+            status: 'queued',
+            retries: retries + 1,
+            retryAt: Date.now() + getRetryDelay(retries),
+            phase: 'phase.retrying',
+        };
+    }));
+  };
 
-    const isAudio = item.type === 'audio';
-    let progress = 0;
-
-    if (intervalsRef.current[itemId]) clearInterval(intervalsRef.current[itemId]);
-
-    const interval = setInterval(() => {
-        const increment = Math.random() * 5 + 1;
-        progress += increment;
-
-        let phase = '';
-        if (progress < 20) phase = 'Conectando...';
-        else if (progress < 50) phase = isAudio ? 'Extrayendo audio HQ...' : 'Descargando video...';
-        else if (progress < 80) phase = isAudio ? 'Convirtiendo a MP3...' : 'Procesando MP4...';
-        else if (progress < 99) phase = 'Etiquetando...';
-        else phase = '¡Listo!';
-
-        const speedVal = (Math.random() * 8 + 5).toFixed(1);
-
-        if (progress >= 100) {
-            progress = 100;
-            clearInterval(intervalsRef.current[itemId]);
-            delete intervalsRef.current[itemId];
-            updateItem(itemId, { 
-                status: 'completed', 
-                progress: 100, 
-                phase: 'Guardado', 
-                timeLeft: '0s' 
-            });
+  // Starts a queued item, or picks its companion job back up if it still exists (paused or
+  // running since before a reload)
+  const startDownload = async (item: BatchItem) => {
+    const itemId = item.id;
+    startingRef.current.add(itemId);
+    pausedRef.current.delete(itemId);
+    updateItem(itemId, { status: 'downloading', phase: 'phase.connecting', retryAt: undefined });
+
+    try {
+        const existing = item.downloadId ? await getServerDownload(item.downloadId) : null;
+
+        if (existing && (!isTerminalPhase(existing.phase) || existing.phase === 'completed')) {
+            // Only one event stream per item: the browser allows a handful per host
+            downloadsRef.current[itemId]?.detach();
+            const handle = attachServerDownload(existing, createProgressHandler(item));
+            downloadsRef.current[itemId] = handle;
+            if (existing.phase === 'paused' && !pausedRef.current.has(itemId)) await handle.resume();
         } else {
-            updateItem(itemId, {
-                progress: Math.min(100, Math.round(progress)),
-                phase,
-                speed: `${speedVal} MB/s`,
-            });
+            downloadsRef.current[itemId]?.detach();
+            downloadsRef.current[itemId] = await startServerDownload({
+                url: item.url,
+                type: item.type,
+                format: item.format,
+                tags: supportsTags(item) ? item.tags ?? defaultTags(item) : undefined,
+                clip: item.clip,
+                fileName: getItemFileName(item),
+                subtitles: item.type === 'video' ? item.subtitles : undefined
+            }, createProgressHandler(item));
         }
-    }, 200 + Math.random() * 300);
+    } catch (error) {
+        console.error('Failed to start download', error);
+        failItem(itemId, classifyError(error, 'network'));
+    } finally {
+        startingRef.current.delete(itemId);
+        if (pausedRef.current.has(itemId)) await pauseDownload(itemId);
+    }
+  };
 
-    intervalsRef.current[itemId] = interval;
+  // Pauses the companion job and stops following it until the item is resumed
+  const pauseDownload = async (itemId: string) => {
+      pausedRef.current.add(itemId);
+      // startDownload comes back here once the job exists
+      if (startingRef.current.has(itemId)) return;
+      const handle = downloadsRef.current[itemId];
+      if (!handle) return;
+      delete downloadsRef.current[itemId];
+      await handle.pause().catch(e => console.error('Failed to pause', e));
+      handle.detach();
   };
 
-  const handleDownloadAll = () => {
-      queue.forEach((item, index) => {
-          if (item.status === 'ready') {
-              // Stagger start times slightly for effect
-              setTimeout(() => startDownload(item.id), index * 300);
-          }
+  // Hands an item to the scheduler
+  const enqueueItem = async (itemId: string) => {
+    await requestNotificationPermission();
+    updateItem(itemId, {
+        status: 'queued',
+        phase: 'phase.queued',
+        progress: 0,
+        retries: 0,
+        retryAt: undefined,
+        ...clearedError
+    });
+  };
+
+  const handleDownloadAll = async () => {
+      await requestNotificationPermission();
+      setQueue(prev => prev.map(item =>
+          item.status === 'ready' && !item.result?.isPlaylist
+              ? { ...item, status: 'queued', phase: 'phase.queued', retries: 0 }
+              : item
+      ));
+  };
+
+  // Finished files go into one ZIP, in queue order, with a manifest (and a playlist for audio)
+  const handleDownloadZip = async () => {
+      const items = queue.filter(item => item.status === 'completed' && item.downloadId);
+      if (items.length === 0) return;
+      const name = `vortex-media-${new Date().toISOString().slice(0, 10)}`;
+      setBundling(true);
+      try {
+          const url = await createBundle({
+              name,
+              entries: items.map(item => ({
+                  downloadId: item.downloadId!,
+                  url: item.url,
+                  platform: item.result?.platform,
+                  summary: item.tags?.title ? [item.tags.artist, item.tags.title].filter(Boolean).join(' — ') : item.result?.summary,
+                  format: describeFormat(item.type, item.format),
+                  durationSeconds: item.result?.durationSeconds
+              })),
+              playlist: items.every(item => item.type === 'audio')
+          });
+          saveUrl(url, `${name}.zip`);
+      } catch (error) {
+          const { message } = classifyError(error, 'download_failed').toInfo();
+          notify({ event: 'error', title: 'notification.bundleFailed.title', body: 'notification.bundleFailed.body', params: { message }, mode: AppMode.DOWNLOADER });
+      } finally {
+          setBundling(false);
+      }
+  };
+
+  const pauseItem = async (itemId: string) => {
+      const item = queue.find(i => i.id === itemId);
+      if (!item) return;
+      updateItem(itemId, { status: 'paused', phase: 'phase.paused', speed: '0 MB/s', timeLeft: '--' });
+      await pauseDownload(itemId);
+  };
+
+  // Paused items keep their companion job; the scheduler resumes it when a slot is free
+  const resumeItem = (itemId: string) => {
+      updateItem(itemId, { status: 'queued', phase: 'phase.queued' });
+  };
+
+  // Cancels the companion job, also when nothing follows it any more (paused items)
+  const stopDownload = (itemId: string) => {
+      pausedRef.current.delete(itemId);
+      const handle = downloadsRef.current[itemId];
+      const item = queue.find(i => i.id === itemId);
+      if (handle) handle.cancel();
+      else if (item?.downloadId && item.status !== 'completed') cancelServerDownload(item.downloadId);
+      delete downloadsRef.current[itemId];
+  };
+
+  const cancelItem = (itemId: string) => {
+      stopDownload(itemId);
+      updateItem(itemId, {
+          status: 'cancelled',
+          phase: 'phase.cancelled',
+          progress: 0,
+          speed: '0 MB/s',
+          timeLeft: '--',
+          downloadId: undefined,
+          retryAt: undefined,
       });
   };
 
+  // Pausing the whole queue sends running items back to "queued" so they continue on resume
+  const toggleQueuePaused = () => {
+      if (queuePaused) {
+          setQueuePaused(false);
+          return;
+      }
+      setQueuePaused(true);
+      queue.filter(i => i.status === 'downloading').forEach(item => {
+          updateItem(item.id, { status: 'queued', phase: 'phase.paused', speed: '0 MB/s', timeLeft: '--' });
+          pauseDownload(item.id);
+      });
+  };
+
+  const cyclePriority = (itemId: string) => {
+      setQueue(prev => prev.map(item =>
+          item.id === itemId ? { ...item, priority: nextPriority(item.priority) } : item
+      ));
+  };
+
+  const handleMaxParallelChange = (value: number) => {
+      setMaxParallel(value);
+      saveMaxParallel(value);
+  };
+
+  // Output format can only change until the companion has started on the item
+  const isFormatEditable = (item: BatchItem) =>
+      !item.result?.isPlaylist &&
+      (item.status === 'ready' || item.status === 'cancelled' || item.status === 'error' ||
+       (item.status === 'queued' && !item.downloadId));
+
+  const handleFormatApply = (type: 'video' | 'audio', format: FormatSelection, applyToAll: boolean) => {
+      rememberFormat(type, format);
+      setQueue(prev => prev.map(item =>
+          (applyToAll ? isFormatEditable(item) : item.id === formatItemId) ? { ...item, type, format } : item
+      ));
+      setFormatItemId(null);
+  };
+
+  const handleFormatOptionsLoaded = (itemId: string, formatOptions: MediaFormatOptions) => {
+      updateItem(itemId, { formatOptions });
+  };
+
   const removeItem = (id: string) => {
-      if (intervalsRef.current[id]) clearInterval(intervalsRef.current[id]);
+      analysesRef.current[id]?.abort();
+      stopDownload(id);
+      processingManager.getJobs().filter(job => job.sourceId === id).forEach(job => processingManager.remove(job.id));
       setQueue(prev => prev.filter(i => i.id !== id));
   };
 
-  const getPlatformIcon = (platform: string, size: string = "w-6 h-6") => {
-    const p = platform.toLowerCase();
-    if (p.includes('youtube')) return <YoutubeIcon className={`${size} text-red-500`} />;
-    if (p.includes('instagram')) return <InstagramIcon className={`${size} text-pink-500`} />;
-    if (p.includes('twitter') || p.includes('x')) return <TwitterIcon className={`${size} text-blue-400`} />;
-    if (p.includes('facebook')) return <FacebookIcon className={`${size} text-blue-600`} />;
-    if (p.includes('spotify')) return <MusicIcon className={`${size} text-green-500`} />;
-    if (p.includes('whatsapp')) return <MessageCircleIcon className={`${size} text-green-400`} />;
-    if (p.includes('tiktok')) return <TikTokIcon className={`${size} text-[#ff0050]`} />;
-    return <DownloadIcon className={`${size} text-${theme.primary}-500`} />;
+  const priorityStyles: Record<QueuePriority, string> = {
+    high: 'text-amber-400 bg-amber-500/10 border-amber-500/30',
+    normal: 'text-slate-500 border-white/10',
+    low: 'text-slate-600 border-white/5 rotate-180',
   };
-  
+
+  // Tags travel with the download request, so they can be edited until the companion has
+  // the item, and again once the file is finished
+  const isTagEditable = (item: BatchItem) =>
+      supportsTags(item) && (isFormatEditable(item) || (item.status === 'completed' && !!item.downloadId));
+
+  const handleTagsSave = async (item: BatchItem, tags: MediaTags) => {
+      if (item.status === 'completed' && item.downloadId) {
+          const snapshot = await retagDownload(item.downloadId, tags);
+          updateItem(item.id, { tags: snapshot.tags });
+      } else {
+          updateItem(item.id, { tags });
+      }
+      setTagItemId(null);
+  };
+
+  // Like the format, the clip can change until the companion has the item
+  const isClipEditable = (item: BatchItem) => isFormatEditable(item) && !!item.result?.isValid;
+
+  const handleClipApply = (itemId: string, clip: ClipRange | undefined) => {
+      updateItem(itemId, { clip });
+      setPreviewItemId(null);
+  };
+
+  // Caption tracks go with the download request too; only videos carry them
+  const isSubtitleEditable = (item: BatchItem) => item.type === 'video' && isClipEditable(item);
+
+  const handleSubtitleApply = (itemId: string, subtitles: SubtitleSelection | undefined) => {
+      updateItem(itemId, { subtitles });
+      setSubtitleItemId(null);
+  };
+
+  const handleSubtitleTracksLoaded = (itemId: string, subtitles: SubtitleTrack[]) => {
+      setQueue(prev => prev.map(item =>
+          item.id === itemId && item.result ? { ...item, result: { ...item.result, subtitles } } : item
+      ));
+  };
+
+  // Finished files are fetched back from the companion and converted in the browser
+  const getSourceName = (item: BatchItem) => item.fileName || `${item.id}.${item.format?.container || (item.type === 'audio' ? 'mp3' : 'mp4')}`;
+
+  const handleProcessStart = (item: BatchItem, request: ProcessingRequest) => {
+      processingManager.start({ id: item.id, name: getSourceName(item), load: () => fetchMedia(withCompanionToken(item.fileUrl!)) }, request);
+      setProcessItemId(null);
+  };
+
+  // Pause / resume / cancel / retry buttons shared by both card layouts
+  const renderTransferControls = (item: BatchItem) => {
+    const iconButton = "p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-white/10 transition-colors";
+    const showPriority = item.status === 'ready' || item.status === 'queued' || item.status === 'paused';
+
+    return (
+        <div className="flex items-center gap-1">
+            {item.status === 'completed' && item.fileUrl && (
+                <button onClick={() => setProcessItemId(item.id)} className={iconButton} title={t('processing.open')}>
+                    <ScissorsIcon className="w-3.5 h-3.5" />
+                </button>
+            )}
+            {isTagEditable(item) && (
+                <button onClick={() => setTagItemId(item.id)} className={iconButton} title={t('tags.edit')}>
+                    <TagIcon className="w-3.5 h-3.5" />
+                </button>
+            )}
+            {showPriority && !item.result?.isPlaylist && (
+                <button
+                    onClick={() => cyclePriority(item.id)}
+                    className={`p-1 rounded-md border transition-all ${priorityStyles[item.priority || 'normal']}`}
+                    title={t(`downloader.priority.${item.priority || 'normal'}`)}
+                >
+                    <ArrowUpIcon className="w-3 h-3" />
+                </button>
+            )}
+            {(item.status === 'downloading' || item.status === 'queued') && (
+                <button onClick={() => pauseItem(item.id)} className={iconButton} title={t('downloader.pause')}>
+                    <PauseIcon className="w-3.5 h-3.5" />
+                </button>
+            )}
+            {item.status === 'paused' && (
+                <button onClick={() => resumeItem(item.id)} className={iconButton} title={t('downloader.resume')}>
+                    <PlayIcon className="w-3.5 h-3.5" />
+                </button>
+            )}
+            {(item.status === 'downloading' || item.status === 'queued' || item.status === 'paused') && (
+                <button onClick={() => cancelItem(item.id)} className={`${iconButton} hover:text-red-400`} title={t('downloader.cancel')}>
+                    <StopIcon className="w-3.5 h-3.5" />
+                </button>
+            )}
+            {(item.status === 'cancelled' || (item.status === 'error' && item.result?.isValid)) && (
+                <button onClick={() => enqueueItem(item.id)} className={iconButton} title={t('downloader.retry')}>
+                    <RetryIcon className="w-3.5 h-3.5" />
+                </button>
+            )}
+            {((item.status === 'error' && !item.result) || item.status === 'ready') && (
+                <button onClick={() => reanalyzeItem(item)} className={iconButton} title={t('downloader.reanalyze')}>
+                    <RetryIcon className="w-3.5 h-3.5" />
+                </button>
+            )}
+        </div>
+    );
+  };
+
+  const renderFormatChip = (item: BatchItem) => {
+    if (item.result?.isPlaylist) return null;
+    const editable = isFormatEditable(item);
+    return (
+        <button
+            onClick={() => editable && setFormatItemId(item.id)}
+            disabled={!editable}
+            className={`text-[10px] px-1.5 py-0.5 rounded border font-mono font-normal transition-colors ${
+                editable
+                    ? 'border-primary-500/30 bg-primary-500/10 text-primary-400 hover:bg-primary-500/20'
+                    : 'border-white/10 text-slate-500 cursor-default'
+            }`}
+            title={editable ? t('downloader.changeFormat') : undefined}
+        >
+            {describeFormat(item.type, item.format)}
+        </button>
+    );
+  };
+
+  const renderClipChip = (item: BatchItem) => {
+    if (!item.clip) return null;
+    const editable = isClipEditable(item);
+    return (
+        <button
+            onClick={() => editable && setPreviewItemId(item.id)}
+            disabled={!editable}
+            className={`text-[10px] px-1.5 py-0.5 rounded border font-mono font-normal flex items-center gap-1 transition-colors ${
+                editable
+                    ? 'border-secondary-500/30 bg-secondary-500/10 text-secondary-400 hover:bg-secondary-500/20'
+                    : 'border-white/10 text-slate-500 cursor-default'
+            }`}
+            title={t('clip.chip')}
+        >
+            <ScissorsIcon className="w-2.5 h-2.5" />
+            {describeClip(item.clip)}
+        </button>
+    );
+  };
+
+  // Shows the picked tracks, or offers them when the source has some (or couldn't be asked yet)
+  const renderSubtitleChip = (item: BatchItem) => {
+    if (item.type !== 'video' || item.result?.isPlaylist) return null;
+    const editable = isSubtitleEditable(item);
+    if (!item.subtitles && (!editable || item.result?.subtitles?.length === 0)) return null;
+    return (
+        <button
+            onClick={() => editable && setSubtitleItemId(item.id)}
+            disabled={!editable}
+            className={`text-[10px] px-1.5 py-0.5 rounded border font-mono font-normal flex items-center gap-1 transition-colors ${
+                !editable
+                    ? 'border-white/10 text-slate-500 cursor-default'
+                    : item.subtitles
+                        ? 'border-primary-500/30 bg-primary-500/10 text-primary-400 hover:bg-primary-500/20'
+                        : 'border-white/10 text-slate-500 hover:text-slate-300 hover:bg-white/5'
+            }`}
+            title={item.result?.subtitles
+                ? t('subtitles.chip.available', { count: item.result.subtitles.length })
+                : t('subtitles.chip')}
+        >
+            <CaptionsIcon className="w-2.5 h-2.5" />
+            {item.subtitles ? describeSubtitles(item.subtitles, item.subtitles.mode === 'embed' && canEmbedSubtitles(item)) : 'CC'}
+        </button>
+    );
+  };
+
+  // Links to the caption files saved next to a finished video
+  const renderSubtitleLinks = (item: BatchItem) => item.downloadId && item.subtitleFiles?.length ? (
+    <span className="flex items-center gap-1">
+        {item.subtitleFiles.map((file, index) => (
+            <a
+                key={file.fileName}
+                href={getSubtitleUrl(item.downloadId!, index)}
+                download={file.fileName}
+                className="text-[10px] font-mono px-1 rounded border border-white/10 text-slate-400 hover:text-white"
+                title={file.fileName}
+            >
+                {file.language.replace(/-orig$/, '').toUpperCase()}
+            </a>
+        ))}
+    </span>
+  ) : null;
+
+  // Play button over the thumbnail; opens the clip player below the card
+  const renderPreviewToggle = (item: BatchItem) => isClipEditable(item) && (
+    <button
+        onClick={() => setPreviewItemId(previewItemId === item.id ? null : item.id)}
+        className={`absolute inset-0 flex items-center justify-center bg-black/40 text-white transition-opacity ${
+            previewItemId === item.id ? 'opacity-100' : 'opacity-0 group-hover/thumb:opacity-100 focus:opacity-100'
+        }`}
+        title={t('clip.preview')}
+    >
+        <PlayIcon className="w-5 h-5" />
+    </button>
+  );
+
   // Stats Calculation
   const totalItems = queue.length;
+  const playlistItem = queue.find(i => i.id === playlistItemId);
+  const formatItem = queue.find(i => i.id === formatItemId);
+  const tagItem = queue.find(i => i.id === tagItemId);
+  const subtitleItem = queue.find(i => i.id === subtitleItemId);
+  const processItem = queue.find(i => i.id === processItemId);
+  const queueTypes = new Set(queue.map(i => i.type));
+  const queueKind = queueTypes.size > 1 ? 'mixed' : queueTypes.has('audio') ? 'audio' : 'video';
   const readyCount = queue.filter(i => i.status === 'ready').length;
   const completedItems = queue.filter(i => i.status === 'completed').length;
+  const bundleCount = queue.filter(i => i.status === 'completed' && i.downloadId).length;
+  const pendingCount = queue.filter(i => i.status === 'queued' || i.status === 'downloading').length;
   const overallProgress = totalItems > 0 
     ? Math.round(queue.reduce((acc, item) => acc + item.progress, 0) / totalItems)
     : 0;
 
   return (
     <div className="w-full space-y-8">
+      {playlistItem && (
+          <PlaylistDialog
+              url={playlistItem.url}
+              platform={playlistItem.result?.platform || ''}
+              onCancel={() => setPlaylistItemId(null)}
+              onConfirm={handlePlaylistConfirm}
+          />
+      )}
+
+      {formatItem && (
+          <FormatPicker
+              item={formatItem}
+              onOptionsLoaded={(options) => handleFormatOptionsLoaded(formatItem.id, options)}
+              onApply={handleFormatApply}
+              onClose={() => setFormatItemId(null)}
+          />
+      )}
+
+      {tagItem && (
+          <TagEditor
+              item={tagItem}
+              onSave={(tags) => handleTagsSave(tagItem, tags)}
+              onClose={() => setTagItemId(null)}
+          />
+      )}
+
+      {subtitleItem && (
+          <SubtitlePicker
+              item={subtitleItem}
+              onTracksLoaded={(tracks) => handleSubtitleTracksLoaded(subtitleItem.id, tracks)}
+              onApply={(selection) => handleSubtitleApply(subtitleItem.id, selection)}
+              onClose={() => setSubtitleItemId(null)}
+          />
+      )}
+
+      {processItem && (
+          <ProcessingDialog
+              sourceName={getSourceName(processItem)}
+              sourceType={processItem.type}
+              onStart={(request) => handleProcessStart(processItem, request)}
+              onClose={() => setProcessItemId(null)}
+          />
+      )}
+
+      {importedLinks && (
+          <LinkImportDialog
+              links={importedLinks}
+              onCancel={() => setImportedLinks(null)}
+              onConfirm={handleImportConfirm}
+          />
+      )}
+
       {/* Input Area */}
-      <div className="glass-panel p-1 rounded-3xl shadow-2xl relative overflow-hidden group">
-        <div className={`absolute inset-0 bg-gradient-to-b from-${theme.primary}-500/5 to-transparent opacity-50 group-hover:opacity-100 transition-opacity`}></div>
+      <div
+        className="glass-panel p-1 rounded-3xl shadow-2xl relative overflow-hidden group"
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
+        {dragActive && (
+            <div className="absolute inset-1 z-20 rounded-[22px] border-2 border-dashed border-primary-500/60 bg-slate-950/85 flex flex-col items-center justify-center gap-2 pointer-events-none">
+                <UploadIcon className="w-8 h-8 text-primary-400" />
+                <p className="text-sm font-bold text-white">{t('import.drop')}</p>
+                <p className="text-[10px] text-slate-500">{t('import.formats')}</p>
+            </div>
+        )}
+        <div className="absolute inset-0 bg-gradient-to-b from-primary-500/5 to-transparent opacity-50 group-hover:opacity-100 transition-opacity"></div>
         
-        <div className="bg-[#0f172a]/90 p-6 sm:p-8 rounded-[22px] backdrop-blur-sm relative z-10">
+        <div className="bg-slate-900/90 p-6 sm:p-8 rounded-[22px] backdrop-blur-sm relative z-10">
             <div className="flex flex-col gap-5">
                 
                 {/* Header Controls */}
                 <div className="flex flex-col sm:flex-row justify-between items-start sm:items-end gap-3">
                     <div className="flex-1">
-                        <label className={`text-xs font-bold text-${theme.primary}-400 tracking-wider uppercase mb-1.5 block ml-1 flex items-center gap-2`}>
+                        <label className="text-xs font-bold text-primary-400 tracking-wider uppercase mb-1.5 block ml-1 flex items-center gap-2">
                             <PlaylistIcon className="w-4 h-4" />
-                            Gestor de Lotes y Playlists
+                            {t('downloader.title')}
                         </label>
-                        <p className="text-slate-500 text-xs ml-1">Pega enlaces individuales o listas enteras.</p>
+                        <p className="text-slate-500 text-xs ml-1">{t('downloader.subtitle')}</p>
                     </div>
                     
                     <div className="bg-slate-900/80 p-1 rounded-xl border border-slate-700/50 flex shadow-inner">
                         <button
-                            onClick={() => {
-                                setDownloadType('video');
-                                // Update pending items type
-                                setQueue(prev => prev.map(i => i.status === 'ready' ? {...i, type: 'video'} : i));
-                            }}
+                            onClick={() => setDownloadType('video')}
+                            title={t('downloader.defaultType')}
                             className={`px-4 py-2 rounded-lg text-xs font-bold flex items-center gap-2 transition-all ${
                                 downloadType === 'video' 
-                                ? `bg-${theme.primary}-500 text-slate-900 shadow-lg` 
+                                ? 'bg-primary-500 text-slate-900 shadow-lg' 
                                 : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'
                             }`}
                         >
                             <FilmIcon className="w-3.5 h-3.5" />
-                            VIDEO MP4
+                            VIDEO {getDefaultFormat('video').container.toUpperCase()}
                         </button>
                         <button
-                            onClick={() => {
-                                setDownloadType('audio');
-                                setQueue(prev => prev.map(i => i.status === 'ready' ? {...i, type: 'audio'} : i));
-                            }}
+                            onClick={() => setDownloadType('audio')}
+                            title={t('downloader.defaultType')}
                             className={`px-4 py-2 rounded-lg text-xs font-bold flex items-center gap-2 transition-all ${
                                 downloadType === 'audio' 
-                                ? `bg-${theme.primary}-500 text-slate-900 shadow-lg` 
+                                ? 'bg-primary-500 text-slate-900 shadow-lg' 
                                 : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'
                             }`}
                         >
                             <MusicIcon className="w-3.5 h-3.5" />
-                            AUDIO MP3
+                            AUDIO {getDefaultFormat('audio').container.toUpperCase()}
                         </button>
                     </div>
                 </div>
 
+                {!online && (
+                    <div className="flex items-center gap-2 px-4 py-2.5 rounded-xl bg-amber-500/10 border border-amber-500/20 text-amber-300 text-xs">
+                        <WifiOffIcon className="w-4 h-4 flex-shrink-0" />
+                        {t('downloader.offline')}
+                    </div>
+                )}
+
                 {/* Batch Textarea */}
                 <div className="relative group/input">
-                    <div className={`absolute inset-0 bg-${theme.primary}-500/10 rounded-xl blur opacity-0 group-focus-within/input:opacity-100 transition-opacity duration-500`}></div>
+                    <div className="absolute inset-0 bg-primary-500/10 rounded-xl blur opacity-0 group-focus-within/input:opacity-100 transition-opacity duration-500"></div>
                     <textarea
                         value={inputText}
                         onChange={handleInputChange}
-                        placeholder={downloadType === 'audio' 
-                            ? "Pega enlaces de Spotify, SoundCloud o YouTube aquí...\n(Uno por línea o detectaremos playlists automáticamente)" 
-                            : "Pega enlaces de YouTube, TikTok, Instagram aquí...\n(Soporta Playlist URL)"}
+                        placeholder={downloadType === 'audio' ? t('downloader.placeholder.audio') : t('downloader.placeholder.video')}
                         rows={3}
-                        className={`relative w-full bg-slate-950 border border-slate-700 rounded-xl pl-5 pr-12 py-4 text-white placeholder-slate-600 focus:outline-none focus:ring-1 focus:border-${theme.primary}-500 transition-all resize-none font-mono text-sm leading-relaxed`}
+                        className="relative w-full bg-slate-950 border border-slate-700 rounded-xl pl-5 pr-12 py-4 text-white placeholder-slate-600 focus:outline-none focus:ring-1 focus:border-primary-500 transition-all resize-none font-mono text-sm leading-relaxed"
                     />
                     <button 
                         onClick={handlePaste}
-                        className={`absolute right-3 top-3 p-2 text-slate-500 hover:text-${theme.primary}-400 hover:bg-slate-800 rounded-lg transition-colors z-10`}
-                        title="Pegar"
+                        className="absolute right-3 top-3 p-2 text-slate-500 hover:text-primary-400 hover:bg-slate-800 rounded-lg transition-colors z-10"
+                        title={t('downloader.paste')}
                     >
                         <ClipboardIcon className="w-5 h-5" />
                     </button>
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="absolute right-3 top-[3.25rem] p-2 text-slate-500 hover:text-primary-400 hover:bg-slate-800 rounded-lg transition-colors z-10"
+                        title={`${t('import.pick')} (${t('import.formats')})`}
+                    >
+                        <UploadIcon className="w-5 h-5" />
+                    </button>
+                    <input ref={fileInputRef} type="file" multiple accept={LINK_FILE_ACCEPT} onChange={handleFilePick} className="hidden" />
                 </div>
                 
                 <button
                     onClick={handleAnalyzeBatch}
                     disabled={!inputText.trim()}
-                    className={`w-full bg-gradient-to-r ${theme.bgGradient} hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed text-white px-6 py-4 rounded-xl font-bold transition-all flex items-center justify-center gap-2 shadow-lg`}
-                    style={{ boxShadow: `0 10px 30px -5px ${theme.accentGlow}40` }}
+                    className="w-full bg-gradient-to-r from-gradient-start to-gradient-end hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed text-white px-6 py-4 rounded-xl font-bold transition-all flex items-center justify-center gap-2 shadow-lg"
+                    style={{ boxShadow: '0 10px 30px -5px rgb(var(--theme-glow) / 0.25)' }}
                 >
                     <DownloadIcon className="w-5 h-5" />
-                    <span>Analizar Enlaces</span>
+                    <span>{t('downloader.analyze')}</span>
                 </button>
             </div>
         </div>
@@ -374,42 +1082,78 @@ export const Downloader: React.FC<DownloaderProps> = ({ theme }) => {
              {/* Progress Summary Card */}
              <div className="bg-slate-900/50 border border-white/5 rounded-2xl p-5 relative overflow-hidden shadow-xl flex justify-between items-center">
                 <div className="flex items-center gap-4">
-                     <div className={`p-3 rounded-full bg-${theme.primary}-500/20 text-${theme.primary}-400`}>
-                        {downloadType === 'audio' ? <MusicIcon className="w-6 h-6" /> : <FilmIcon className="w-6 h-6" />}
+                     <div className="p-3 rounded-full bg-primary-500/20 text-primary-400">
+                        {queueKind === 'audio' ? <MusicIcon className="w-6 h-6" /> : <FilmIcon className="w-6 h-6" />}
                      </div>
                      <div>
                         <h3 className="text-sm font-bold text-white uppercase tracking-wider mb-1">
-                            {downloadType === 'audio' ? 'Cola de Audio' : 'Cola de Video'}
+                            {t(`downloader.queue.${queueKind}`)}
                         </h3>
                         <p className="text-xs text-slate-400">
-                            {completedItems}/{totalItems} completados • {overallProgress}% global
+                            {t('downloader.queue.progress', { count: totalItems, completed: completedItems, percent: overallProgress })}
+                            {queuePaused && <span className="text-amber-400 font-bold"> • {t('phase.paused')}</span>}
                         </p>
                      </div>
                 </div>
 
+                <div className="flex items-center gap-2">
+                <label className="flex items-center gap-2 text-[10px] font-bold text-slate-500 uppercase tracking-wider" title={t('downloader.parallel.hint')}>
+                    {t('downloader.parallel')}
+                    <select
+                        value={maxParallel}
+                        onChange={(e) => handleMaxParallelChange(Number(e.target.value))}
+                        className="bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white focus:outline-none"
+                    >
+                        {MAX_PARALLEL_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+                    </select>
+                </label>
+
+                {(pendingCount > 0 || queuePaused) && (
+                    <button
+                        onClick={toggleQueuePaused}
+                        className="p-2 rounded-xl border border-white/10 text-slate-300 hover:text-white hover:bg-white/10 transition-colors"
+                        title={queuePaused ? t('downloader.queue.resume') : t('downloader.queue.pause')}
+                    >
+                        {queuePaused ? <PlayIcon className="w-4 h-4" /> : <PauseIcon className="w-4 h-4" />}
+                    </button>
+                )}
+
+                {bundleCount > 0 && (
+                    <button
+                        onClick={handleDownloadZip}
+                        disabled={bundling}
+                        className="px-3 py-2 rounded-xl border border-white/10 text-xs font-bold text-slate-300 hover:text-white hover:bg-white/10 transition-colors flex items-center gap-2 disabled:opacity-50"
+                        title={t('downloader.bundle.hint', { count: bundleCount })}
+                    >
+                        {bundling ? <LoaderIcon className="w-4 h-4 animate-spin" /> : <ArchiveIcon className="w-4 h-4" />}
+                        {t('downloader.bundle')}
+                    </button>
+                )}
+
                 {readyCount > 0 && (
                     <button
                         onClick={handleDownloadAll}
                         className="bg-emerald-600 hover:bg-emerald-500 text-white px-6 py-2 rounded-xl font-bold shadow-lg shadow-emerald-500/20 flex items-center gap-2 transition-all animate-pulse"
                     >
                         <DownloadIcon className="w-4 h-4" />
-                        Descargar Todo
+                        {t('downloader.downloadAll')}
                     </button>
                 )}
+                </div>
              </div>
         </div>
       )}
 
       {/* Queue List */}
       {queue.length > 0 && (
-          <div className={`grid gap-3 ${downloadType === 'audio' ? 'grid-cols-1' : 'grid-cols-1'}`}>
+          <div className="grid gap-3 grid-cols-1">
               {queue.map((item) => (
                   <div key={item.id} 
-                       className={`glass-panel bg-[#0f172a]/60 rounded-2xl border border-white/5 relative overflow-hidden animate-fade-in group
-                       ${downloadType === 'audio' ? 'p-3 flex items-center gap-4 h-20' : 'p-4 flex flex-col sm:flex-row gap-4'}`}
+                       className={`glass-panel bg-slate-900/60 rounded-2xl border border-white/5 relative overflow-hidden animate-fade-in group
+                       ${item.type === 'audio' && item.result ? 'p-3 flex flex-wrap items-center gap-4 min-h-[5rem]' : 'p-4 flex flex-col sm:flex-row sm:flex-wrap gap-4'}`}
                   >
                       {/* Audio View Layout */}
-                      {downloadType === 'audio' && item.result ? (
+                      {item.type === 'audio' && item.result ? (
                           <>
                             <div className="w-14 h-14 rounded-lg bg-slate-800 flex-shrink-0 relative overflow-hidden group/thumb cursor-pointer">
                                 {item.result.thumbnailUrl ? (
@@ -420,43 +1164,62 @@ export const Downloader: React.FC<DownloaderProps> = ({ theme }) => {
                                     </div>
                                 )}
                                 {item.status === 'downloading' && (
-                                    <div className={`absolute inset-0 bg-${theme.primary}-500/30 flex items-center justify-center`}>
+                                    <div className="absolute inset-0 bg-primary-500/30 flex items-center justify-center">
                                         <LoaderIcon className="w-6 h-6 text-white animate-spin" />
                                     </div>
                                 )}
+                                {renderPreviewToggle(item)}
                             </div>
                             
                             <div className="flex-1 min-w-0 flex flex-col justify-center">
-                                <h4 className="text-sm font-bold text-white truncate">{item.result.platform}</h4>
-                                <p className="text-xs text-slate-400 truncate">{item.result.summary}</p>
+                                <h4 className="text-sm font-bold text-white truncate flex items-center gap-2">
+                                    {item.result.platform}
+                                    {renderFormatChip(item)}
+                                    {renderClipChip(item)}
+                                    {renderSubtitleChip(item)}
+                                </h4>
+                                <p className="text-xs text-slate-400 truncate">
+                                    {item.tags?.title ? [item.tags.artist, item.tags.title].filter(Boolean).join(' — ') : item.result.summary}
+                                </p>
+                                <ProcessingStatus sourceId={item.id} />
                             </div>
 
                             <div className="w-32 hidden sm:block">
+                                {(item.status === 'queued' || item.status === 'paused' || item.status === 'cancelled') && (
+                                    <p className="text-[10px] text-slate-500 text-right truncate">{describePhase(item)}</p>
+                                )}
+                                {item.status === 'error' && (
+                                    <p className="text-[10px] text-red-400 text-right truncate" title={item.errorKind ? getErrorInfo(item.errorKind).suggestion : item.suggestion}>{item.errorKind ? getErrorInfo(item.errorKind).message : item.errorMsg}</p>
+                                )}
                                 {item.status === 'downloading' && (
                                     <div className="space-y-1">
                                         <div className="flex justify-between text-[10px] text-slate-400">
-                                            <span>{item.phase}</span>
+                                            <span>{describePhase(item)}</span>
                                             <span>{item.progress}%</span>
                                         </div>
                                         <div className="h-1 bg-slate-800 rounded-full overflow-hidden">
-                                            <div className={`h-full bg-${theme.primary}-500`} style={{width: `${item.progress}%`}}></div>
+                                            <div className="h-full bg-primary-500" style={{width: `${item.progress}%`}}></div>
                                         </div>
                                     </div>
                                 )}
                                 {item.status === 'completed' && (
-                                    <span className="text-xs text-emerald-400 font-bold flex items-center gap-1 justify-end">
-                                        <CheckIcon className="w-3 h-3" /> MP3 Listo
-                                    </span>
+                                    <div className="flex items-center justify-end gap-2">
+                                        {renderSubtitleLinks(item)}
+                                        <a href={item.fileUrl ? withCompanionToken(item.fileUrl) : undefined} download={item.fileName} className="text-xs text-emerald-400 font-bold flex items-center gap-1 justify-end hover:underline">
+                                            <CheckIcon className="w-3 h-3" /> {t('downloader.fileReady', { format: (item.format?.container || 'mp3').toUpperCase() })}
+                                        </a>
+                                    </div>
                                 )}
                             </div>
 
-                            <div className="flex-shrink-0">
+                            <div className="flex-shrink-0 flex items-center gap-1">
+                                {renderTransferControls(item)}
                                 {item.result.isPlaylist ? (
-                                    <button onClick={() => expandPlaylist(item.id, item.result!.platform)} className={`px-3 py-1.5 rounded-lg bg-${theme.primary}-500/20 text-${theme.primary}-400 text-xs font-bold border border-${theme.primary}-500/30 hover:bg-${theme.primary}-500/30`}>
-                                        Cargar Playlist
+                                    <button onClick={() => expandPlaylist(item.id)} className="px-3 py-1.5 rounded-lg bg-primary-500/20 text-primary-400 text-xs font-bold border border-primary-500/30 hover:bg-primary-500/30">
+                                        {t('downloader.loadPlaylist')}
                                     </button>
                                 ) : item.status === 'ready' ? (
-                                    <button onClick={() => startDownload(item.id)} className="p-2 rounded-full hover:bg-white/10 text-slate-300 transition-colors">
+                                    <button onClick={() => enqueueItem(item.id)} className="p-2 rounded-full hover:bg-white/10 text-slate-300 transition-colors">
                                         <DownloadIcon className="w-5 h-5" />
                                     </button>
                                 ) : null}
@@ -465,7 +1228,7 @@ export const Downloader: React.FC<DownloaderProps> = ({ theme }) => {
                       ) : (
                           // Standard/Video View Layout (Original)
                           <>
-                            <div className="flex-shrink-0 w-24 h-16 sm:w-32 sm:h-20 rounded-xl bg-slate-900 border border-white/10 relative overflow-hidden">
+                            <div className="flex-shrink-0 w-24 h-16 sm:w-32 sm:h-20 rounded-xl bg-slate-900 border border-white/10 relative overflow-hidden group/thumb">
                                 {item.result?.thumbnailUrl ? (
                                     <img src={item.result.thumbnailUrl} className="w-full h-full object-cover" />
                                 ) : (
@@ -473,94 +1236,92 @@ export const Downloader: React.FC<DownloaderProps> = ({ theme }) => {
                                         {item.status === 'analyzing' ? <LoaderIcon className="animate-spin text-slate-600" /> : <FilmIcon className="text-slate-700" />}
                                     </div>
                                 )}
-                                {item.status === 'downloading' && <div className={`absolute bottom-0 left-0 h-1 bg-${theme.primary}-500`} style={{ width: `${item.progress}%` }} />}
+                                {(item.status === 'downloading' || item.status === 'paused') && <div className={`absolute bottom-0 left-0 h-1 ${item.status === 'paused' ? 'bg-slate-500' : 'bg-primary-500'}`} style={{ width: `${item.progress}%` }} />}
+                                {renderPreviewToggle(item)}
                             </div>
 
                             <div className="flex-1 min-w-0">
                                 <div className="flex justify-between">
-                                    <h4 className="text-sm font-bold text-white truncate pr-2">
-                                        {item.result ? item.result.platform : 'Procesando...'}
+                                    <h4 className="text-sm font-bold text-white truncate pr-2 flex items-center gap-2">
+                                        {item.result ? item.result.platform : t('downloader.processing')}
+                                        {item.result?.isValid && renderFormatChip(item)}
+                                        {renderClipChip(item)}
+                                        {item.result?.isValid && renderSubtitleChip(item)}
                                     </h4>
                                     <button onClick={() => removeItem(item.id)} className="text-slate-600 hover:text-red-400">✕</button>
                                 </div>
                                 <p className="text-xs text-slate-400 truncate mb-2">{item.url}</p>
 
                                 {item.status === 'error' && (
-                                     <p className="text-xs text-red-400">{item.errorMsg}</p>
+                                    <div className="flex items-center justify-between gap-2">
+                                        <ErrorNotice
+                                            compact
+                                            error={{ kind: item.errorKind, message: item.errorMsg || '', suggestion: item.suggestion || '', helpLink: item.helpLink || '' }}
+                                        />
+                                        {renderTransferControls(item)}
+                                    </div>
                                 )}
 
                                 {item.status === 'ready' && item.result?.isPlaylist && (
                                     <div className="mt-2">
                                         <button 
-                                            onClick={() => expandPlaylist(item.id, item.result!.platform)}
-                                            className={`w-full py-2 rounded-lg bg-${theme.primary}-600 hover:bg-${theme.primary}-500 text-white text-xs font-bold shadow-lg flex items-center justify-center gap-2`}
+                                            onClick={() => expandPlaylist(item.id)}
+                                            className="w-full py-2 rounded-lg bg-primary-600 hover:bg-primary-500 text-white text-xs font-bold shadow-lg flex items-center justify-center gap-2"
                                         >
                                             <PlaylistIcon className="w-4 h-4" />
-                                            Cargar Contenido de Playlist
+                                            {t('downloader.loadPlaylistContent')}
                                         </button>
                                     </div>
                                 )}
 
-                                {(item.status === 'downloading' || (item.status === 'ready' && !item.result?.isPlaylist)) && (
+                                {(['downloading', 'queued', 'paused', 'cancelled'].includes(item.status) || (item.status === 'ready' && !item.result?.isPlaylist)) && (
                                     <div className="flex items-center justify-between mt-2">
                                          {item.status === 'ready' ? (
                                              <button 
-                                                onClick={() => startDownload(item.id)}
-                                                className={`px-4 py-1.5 rounded-lg bg-slate-800 hover:bg-${theme.primary}-600 text-white text-xs font-bold border border-white/10 transition-all`}
+                                                onClick={() => enqueueItem(item.id)}
+                                                className="px-4 py-1.5 rounded-lg bg-slate-800 hover:bg-primary-600 text-white text-xs font-bold border border-white/10 transition-all"
                                              >
-                                                Descargar MP4
+                                                {t('downloader.downloadAs', { format: (item.format?.container || 'mp4').toUpperCase() })}
                                              </button>
+                                         ) : item.status === 'downloading' ? (
+                                             <span className="text-xs text-slate-400 font-mono">{describePhase(item)} • {item.speed} • {item.timeLeft}</span>
                                          ) : (
-                                             <span className="text-xs text-slate-400 font-mono">{item.phase} • {item.speed}</span>
+                                             <span className={`text-xs font-mono ${item.status === 'cancelled' ? 'text-slate-600' : 'text-slate-400'}`}>
+                                                {describePhase(item)}{item.status === 'paused' && item.progress > 0 ? ` • ${item.progress}%` : ''}
+                                             </span>
                                          )}
+                                         {renderTransferControls(item)}
+                                    </div>
+                                )}
+                                {item.status === 'completed' && (
+                                    <div className="flex items-center justify-between mt-2">
+                                        <span className="text-emerald-400 text-xs font-bold">{t('downloader.savedToGallery')}</span>
+                                        <div className="flex items-center gap-2 min-w-0">
+                                            {item.fileUrl && (
+                                                <a href={withCompanionToken(item.fileUrl)} download={item.fileName} className="text-xs text-slate-400 hover:text-white flex items-center gap-1 truncate">
+                                                    <DownloadIcon className="w-3 h-3" /> {item.fileName || t('downloader.file')}
+                                                </a>
+                                            )}
+                                            {renderSubtitleLinks(item)}
+                                            {renderTransferControls(item)}
+                                        </div>
                                     </div>
                                 )}
-                                {item.status === 'completed' && <div className="text-emerald-400 text-xs font-bold mt-2">¡Guardado en Galería!</div>}
+                                <ProcessingStatus sourceId={item.id} />
                             </div>
                           </>
                       )}
+                      {previewItemId === item.id && isClipEditable(item) && (
+                          <ClipPlayer
+                              item={item}
+                              onApply={(clip) => handleClipApply(item.id, clip)}
+                              onClose={() => setPreviewItemId(null)}
+                          />
+                      )}
                   </div>
               ))}
           </div>
       )}
-
-      {/* History Section */}
-      {history.length > 0 && (
-        <div className="max-w-4xl mx-auto w-full pt-4 border-t border-white/5 mt-8">
-            <div className="flex items-center justify-between mb-4 px-2">
-                <div className="flex items-center gap-2 text-slate-500">
-                    <HistoryIcon className="w-4 h-4" />
-                    <h3 className="text-xs font-bold uppercase tracking-widest">Historial Reciente</h3>
-                </div>
-                <button 
-                    onClick={clearHistory}
-                    className="text-[10px] font-bold text-slate-600 hover:text-red-400 transition-colors uppercase tracking-wider"
-                >
-                    Limpiar
-                </button>
-            </div>
-            <div className="grid gap-2 opacity-60 hover:opacity-100 transition-opacity">
-                {history.map((item) => (
-                    <div 
-                        key={item.id}
-                        className="p-3 rounded-lg border border-white/5 flex items-center gap-3 bg-slate-900/40"
-                    >
-                        <div className="text-slate-500">
-                            {getPlatformIcon(item.platform, "w-4 h-4")}
-                        </div>
-                        <div className="flex-1 min-w-0">
-                            <div className="flex justify-between items-center">
-                                <span className="text-slate-400 text-xs font-medium truncate pr-2">{item.url}</span>
-                                <span className="text-[10px] text-slate-600 font-mono whitespace-nowrap">
-                                    {new Date(item.timestamp).toLocaleDateString()}
-                                </span>
-                            </div>
-                        </div>
-                    </div>
-                ))}
-            </div>
-        </div>
-      )}
     </div>
   );
 };
\ No newline at end of file
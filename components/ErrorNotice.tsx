@@ -0,0 +1,42 @@
+import React from 'react';
+import { ErrorInfo } from '../types';
+import { getErrorInfo } from '../services/errors';
+import { useI18n } from '../services/i18n';
+
+interface ErrorNoticeProps {
+  // With a kind, the text is looked up again so it follows the current locale
+  error: Pick<ErrorInfo, 'message' | 'suggestion' | 'helpLink' | 'detail'> & Partial<Pick<ErrorInfo, 'kind'>>;
+  // Single-line variant for queue cards
+  compact?: boolean;
+}
+
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error: stored, compact = false }) => {
+  const { t } = useI18n();
+  const error = stored.kind ? getErrorInfo(stored.kind, stored.detail) : stored;
+  const helpLink = error.helpLink && (
+    <a href={error.helpLink} target="_blank" rel="noopener noreferrer" className="underline hover:text-red-200 whitespace-nowrap">
+      {t('error.moreHelp')}
+    </a>
+  );
+
+  if (compact) {
+    return (
+      <div className="min-w-0 text-xs" title={error.detail}>
+        <p className="text-red-400 truncate">{error.message}</p>
+        {error.suggestion && (
+          <p className="text-[10px] text-red-300/60 truncate">
+            {error.suggestion} {helpLink}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4 text-red-300 text-sm text-center" title={error.detail}>
+      <span className="block font-bold mb-1">{error.message}</span>
+      {error.suggestion && <span className="block text-red-300/80">{error.suggestion}</span>}
+      {helpLink && <span className="block mt-2 text-xs">{helpLink}</span>}
+    </div>
+  );
+};
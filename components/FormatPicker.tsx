@@ -0,0 +1,267 @@
+import React, { useState, useEffect } from 'react';
+import {
+  fetchFormatOptions, getDefaultFormat, getOfferedResolutions, getOfferedCodecs, getOfferedBitrates,
+  loadPresets, savePresets, describeFormat, resolutionLabel, isCodecAllowed,
+  VIDEO_CONTAINERS, AUDIO_CONTAINERS, CODEC_LABELS, FormatPreset, FormatSelection, MediaFormatOptions
+} from '../services/formats';
+import { BatchItem } from '../types';
+import { LoaderIcon, FilmIcon, MusicIcon, CrownIcon } from './Icons';
+import { useI18n } from '../services/i18n';
+
+interface FormatPickerProps {
+  item: BatchItem;
+  onOptionsLoaded: (options: MediaFormatOptions) => void;
+  onApply: (type: 'video' | 'audio', format: FormatSelection, applyToAll: boolean) => void;
+  onClose: () => void;
+}
+
+export const FormatPicker: React.FC<FormatPickerProps> = ({ item, onOptionsLoaded, onApply, onClose }) => {
+  const { t } = useI18n();
+  const [type, setType] = useState<'video' | 'audio'>(item.type);
+  const [format, setFormat] = useState<FormatSelection>(item.format || getDefaultFormat(item.type));
+  const [options, setOptions] = useState<MediaFormatOptions | undefined>(item.formatOptions);
+  const [loadingOptions, setLoadingOptions] = useState(!item.formatOptions);
+  const [optionsError, setOptionsError] = useState(false);
+  const [presets, setPresets] = useState<FormatPreset[]>(loadPresets);
+  const [presetName, setPresetName] = useState('');
+
+  useEffect(() => {
+    if (item.formatOptions) return;
+    let active = true;
+    fetchFormatOptions(item.url)
+      .then(result => {
+        if (!active) return;
+        setOptions(result);
+        onOptionsLoaded(result);
+      })
+      .catch(err => {
+        console.error('Failed to load formats', err);
+        if (active) setOptionsError(true);
+      })
+      .finally(() => {
+        if (active) setLoadingOptions(false);
+      });
+    return () => { active = false; };
+  }, []);
+
+  const switchType = (next: 'video' | 'audio') => {
+    if (next === type) return;
+    setType(next);
+    setFormat(getDefaultFormat(next));
+  };
+
+  const update = (changes: Partial<FormatSelection>) => {
+    setFormat(prev => {
+      const next = { ...prev, ...changes };
+      if (next.videoCodec && !isCodecAllowed(next.container, next.videoCodec)) delete next.videoCodec;
+      return next;
+    });
+  };
+
+  const applyPreset = (preset: FormatPreset) => {
+    setType(preset.type);
+    setFormat(preset.format);
+  };
+
+  const addPreset = () => {
+    if (!presetName.trim()) return;
+    const next = [...presets, { id: crypto.randomUUID(), name: presetName.trim(), type, format }];
+    setPresets(next);
+    savePresets(next);
+    setPresetName('');
+  };
+
+  const deletePreset = (id: string) => {
+    const next = presets.filter(p => p.id !== id);
+    setPresets(next);
+    savePresets(next);
+  };
+
+  const chip = (active: boolean, disabled = false) =>
+    `px-3 py-1.5 rounded-lg text-xs font-bold border transition-all ${
+      active
+        ? 'bg-primary-500 border-primary-500 text-slate-900 shadow-lg'
+        : disabled
+          ? 'border-white/5 text-slate-700 cursor-not-allowed'
+          : 'border-white/10 text-slate-400 hover:text-white hover:bg-white/5'
+    }`;
+
+  const sectionLabel = "block text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-2";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+      <div
+        className="glass-panel bg-slate-900/95 w-full max-w-lg max-h-[85vh] overflow-y-auto rounded-3xl border border-white/10 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-5 border-b border-white/5 flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h3 className="text-lg font-bold text-white">{t('format.title')}</h3>
+            <p className="text-xs text-slate-500 truncate">{item.result?.summary || item.url}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-600 hover:text-red-400">✕</button>
+        </div>
+
+        <div className="p-5 space-y-5">
+          {/* Type */}
+          <div className="bg-slate-900/80 p-1 rounded-xl border border-slate-700/50 flex shadow-inner">
+            {(['video', 'audio'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => switchType(option)}
+                className={`flex-1 px-4 py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-2 transition-all ${
+                  type === option ? 'bg-primary-500 text-slate-900 shadow-lg' : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'
+                }`}
+              >
+                {option === 'video' ? <FilmIcon className="w-3.5 h-3.5" /> : <MusicIcon className="w-3.5 h-3.5" />}
+                {option === 'video' ? 'VIDEO' : 'AUDIO'}
+              </button>
+            ))}
+          </div>
+
+          {loadingOptions && (
+            <p className="text-xs text-slate-500 flex items-center gap-2">
+              <LoaderIcon className="w-3 h-3 animate-spin" />
+              {t('format.loading')}
+            </p>
+          )}
+          {optionsError && (
+            <p className="text-xs text-amber-400/80">{t('format.loadFailed')}</p>
+          )}
+
+          {type === 'video' ? (
+            <>
+              <div>
+                <span className={sectionLabel}>{t('format.maxResolution')}</span>
+                <div className="flex flex-wrap gap-2">
+                  {getOfferedResolutions(options).map(height => (
+                    <button key={height} onClick={() => update({ maxHeight: height })} className={chip(format.maxHeight === height)}>
+                      {resolutionLabel(height)}
+                    </button>
+                  ))}
+                  <button onClick={() => update({ maxHeight: undefined })} className={chip(!format.maxHeight)}>{t('format.maxResolution.best')}</button>
+                </div>
+              </div>
+              <div>
+                <span className={sectionLabel}>{t('format.container')}</span>
+                <div className="flex gap-2">
+                  {VIDEO_CONTAINERS.map(container => (
+                    <button key={container} onClick={() => update({ container })} className={chip(format.container === container)}>
+                      {container.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <span className={sectionLabel}>{t('format.videoCodec')}</span>
+                <div className="flex gap-2">
+                  <button onClick={() => update({ videoCodec: undefined })} className={chip(!format.videoCodec)}>Auto</button>
+                  {getOfferedCodecs(options).map(codec => {
+                    const allowed = isCodecAllowed(format.container, codec);
+                    return (
+                      <button
+                        key={codec}
+                        disabled={!allowed}
+                        onClick={() => update({ videoCodec: codec })}
+                        className={chip(format.videoCodec === codec, !allowed)}
+                        title={allowed ? undefined : t('format.codecUnsupported')}
+                      >
+                        {CODEC_LABELS[codec]}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            </>
+          ) : (
+            <>
+              <div>
+                <span className={sectionLabel}>{t('format.container')}</span>
+                <div className="flex gap-2">
+                  {AUDIO_CONTAINERS.map(container => (
+                    <button key={container} onClick={() => update({ container })} className={chip(format.container === container)}>
+                      {container.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <span className={sectionLabel}>Bitrate</span>
+                <div className="flex gap-2">
+                  {getOfferedBitrates(options).map(bitrate => {
+                    const lossless = format.container === 'flac';
+                    return (
+                      <button
+                        key={bitrate}
+                        disabled={lossless}
+                        onClick={() => update({ audioBitrate: bitrate })}
+                        className={chip(!lossless && format.audioBitrate === bitrate, lossless)}
+                      >
+                        {bitrate} kbps
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            </>
+          )}
+
+          {/* Presets */}
+          <div className="pt-4 border-t border-white/5">
+            <span className={`${sectionLabel} flex items-center gap-1`}>
+              <CrownIcon className="w-3 h-3 text-yellow-500" />
+              Presets
+            </span>
+            <div className="flex flex-wrap gap-2 mb-3">
+              {presets.map(preset => (
+                <span key={preset.id} className="inline-flex items-center rounded-lg border border-white/10 overflow-hidden">
+                  <button
+                    onClick={() => applyPreset(preset)}
+                    className="px-3 py-1.5 text-xs text-slate-300 hover:bg-white/5"
+                    title={describeFormat(preset.type, preset.format)}
+                  >
+                    {preset.name}
+                  </button>
+                  {!preset.builtIn && (
+                    <button onClick={() => deletePreset(preset.id)} className="px-2 py-1.5 text-xs text-slate-600 hover:text-red-400 border-l border-white/10">✕</button>
+                  )}
+                </span>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <input
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addPreset()}
+                placeholder={t('format.presetName')}
+                className="flex-1 bg-slate-950 border border-slate-700 rounded-lg px-3 py-1.5 text-xs text-white placeholder-slate-600 focus:outline-none focus:border-primary-500"
+              />
+              <button onClick={addPreset} disabled={!presetName.trim()} className="px-3 py-1.5 rounded-lg text-xs font-bold border border-white/10 text-slate-300 hover:bg-white/5 disabled:opacity-40">
+                {t('format.savePreset')}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-white/5 flex items-center justify-between gap-2">
+          <span className="text-[10px] text-slate-500 font-mono">{describeFormat(type, format)}</span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => onApply(type, format, true)}
+              className="px-4 py-2 rounded-xl text-xs font-bold text-slate-400 hover:text-white hover:bg-white/5"
+              title={t('format.applyAll.hint')}
+            >
+              {t('format.applyAll')}
+            </button>
+            <button
+              onClick={() => onApply(type, format, false)}
+              className="px-5 py-2 rounded-xl bg-gradient-to-r from-gradient-start to-gradient-end text-white text-xs font-bold shadow-lg"
+            >
+              {t('format.apply')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,23 +1,82 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { generateVideo } from '../services/gemini';
-import { requestNotificationPermission, sendNotification } from '../services/notifications';
-import { LoaderIcon, SparklesIcon, CheckIcon, DownloadIcon } from './Icons';
-
-export const Generator: React.FC = () => {
-  const [prompt, setPrompt] = useState('');
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [videoUri, setVideoUri] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
+import { withApiKey } from '../services/gemini';
+import { generationManager, isActiveGeneration, getElapsedMs, formatElapsed } from '../services/generations';
+import { requestNotificationPermission } from '../services/notifications';
+import { getGeneratedFileName } from '../services/fileNames';
+import { GenerationJob, GenerationState, GeneratedVideo } from '../types';
+import { Library } from './Library';
+import { ErrorNotice } from './ErrorNotice';
+import { useI18n, MessageKey } from '../services/i18n';
+import { LoaderIcon, SparklesIcon, CheckIcon, DownloadIcon, StopIcon } from './Icons';
+
+export interface GeneratorState {
+  prompt: string;
+  resolution: string;
+  aspectRatio: string;
+}
+
+interface GeneratorProps {
+  // Deep-link state (#/generate?prompt=...&resolution=1080p&aspect=9:16)
+  initialState?: Partial<GeneratorState>;
+  onStateChange?: (state: GeneratorState) => void;
+}
+
+export const RESOLUTIONS = ['720p', '1080p'];
+export const ASPECT_RATIOS = ['16:9', '9:16'];
+
+const STATE_LABELS: Record<GenerationState, MessageKey> = {
+  submitting: 'generator.state.submitting',
+  running: 'generator.state.running',
+  completed: 'generator.state.completed',
+  failed: 'generator.state.failed',
+  cancelled: 'generator.state.cancelled'
+};
+
+export const Generator: React.FC<GeneratorProps> = ({ initialState, onStateChange }) => {
+  const { t } = useI18n();
+  const [prompt, setPrompt] = useState(initialState?.prompt || '');
+  const [jobs, setJobs] = useState<GenerationJob[]>(generationManager.getJobs);
+  const [now, setNow] = useState(Date.now());
   const [hasKey, setHasKey] = useState(false);
+
+  // Failures that happened before this mount don't reset the key prompt
+  const mountedAtRef = useRef(Date.now());
   
   // Settings state
-  const [resolution, setResolution] = useState('720p');
-  const [aspectRatio, setAspectRatio] = useState('16:9');
+  const [resolution, setResolution] = useState(
+    RESOLUTIONS.includes(initialState?.resolution || '') ? initialState!.resolution! : '720p'
+  );
+  const [aspectRatio, setAspectRatio] = useState(
+    ASPECT_RATIOS.includes(initialState?.aspectRatio || '') ? initialState!.aspectRatio! : '16:9'
+  );
 
   useEffect(() => {
     checkApiKey();
   }, []);
 
+  useEffect(() => {
+    onStateChange?.({ prompt, resolution, aspectRatio });
+  }, [prompt, resolution, aspectRatio]);
+
+  useEffect(() => {
+    generationManager.restore();
+    return generationManager.subscribe(next => {
+      setJobs(next);
+      const keyRejected = next.some(job =>
+        job.state === 'failed' && job.error?.kind === 'auth' && (job.finishedAt ?? 0) >= mountedAtRef.current
+      );
+      if (keyRejected) setHasKey(false);
+    });
+  }, []);
+
+  // Tick the elapsed counters while something is generating
+  const hasActive = jobs.some(isActiveGeneration);
+  useEffect(() => {
+    if (!hasActive) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [hasActive]);
+
   const checkApiKey = async () => {
     const aistudio = (window as any).aistudio;
     if (aistudio) {
@@ -46,64 +105,35 @@ export const Generator: React.FC = () => {
     // Request permission early
     await requestNotificationPermission();
 
-    setIsGenerating(true);
-    setError(null);
-    setVideoUri(null);
-
-    try {
-        // Check for key again right before generation to be safe, though UI should handle it
-      const uri = await generateVideo(prompt, resolution, aspectRatio);
-      setVideoUri(uri);
-      
-      // Notify success
-      sendNotification('¡Video Generado!', 'Tu video creado con IA está listo para ver.');
-
-    } catch (err: any) {
-      console.error("Gemini API Error:", err);
-      let errorMessage = "Hubo un error generando el video. Intenta de nuevo.";
-
-      if (err) {
-          const msg = err.message || '';
-          const status = err.status || err.response?.status;
-
-          if (msg.includes("Requested entity was not found") || status === 404) {
-              setHasKey(false);
-              errorMessage = "La llave API seleccionada no es válida o el proyecto no tiene acceso al modelo Veo. Por favor selecciona una nueva.";
-          } else if (status === 400 || msg.includes("INVALID_ARGUMENT")) {
-              errorMessage = "La descripción proporcionada no es válida. Por favor, sé más específico o evita contenido que viole las políticas de seguridad.";
-          } else if (status === 403 || msg.includes("PERMISSION_DENIED")) {
-              errorMessage = "Permiso denegado. Verifica que tu API Key tenga habilitada la facturación en Google Cloud Console.";
-          } else if (status === 429 || msg.includes("RESOURCE_EXHAUSTED")) {
-              errorMessage = "Has excedido el límite de cuota de la API. Por favor intenta más tarde.";
-          } else if (status === 503 || msg.includes("UNAVAILABLE")) {
-              errorMessage = "El servicio de video está temporalmente saturado. Inténtalo de nuevo en unos minutos.";
-          } else if (msg.includes("SAFETY")) {
-              errorMessage = "La solicitud fue bloqueada por los filtros de seguridad. Intenta modificar tu descripción.";
-          }
-      }
-      
-      setError(errorMessage);
-    } finally {
-      setIsGenerating(false);
-    }
+    generationManager.start({ prompt: prompt.trim(), resolution, aspectRatio });
+    setNow(Date.now());
+  };
+
+  const handleRegenerate = async (video: GeneratedVideo) => {
+    await requestNotificationPermission();
+    setPrompt(video.prompt);
+    setResolution(video.resolution);
+    setAspectRatio(video.aspectRatio);
+    generationManager.start({ prompt: video.prompt, resolution: video.resolution, aspectRatio: video.aspectRatio });
+    setNow(Date.now());
   };
 
   if (!hasKey) {
      return (
         <div className="w-full max-w-2xl mx-auto text-center glass-panel p-10 rounded-2xl">
             <SparklesIcon className="w-16 h-16 text-indigo-400 mx-auto mb-6" />
-            <h2 className="text-2xl font-bold mb-4">Activa la Creación de Video</h2>
+            <h2 className="text-2xl font-bold mb-4">{t('generator.key.title')}</h2>
             <p className="text-slate-400 mb-8">
-                Para usar la tecnología Veo de Google y generar videos con IA, necesitas seleccionar una API Key válida con facturación habilitada.
+                {t('generator.key.description')}
             </p>
             <button 
                 onClick={handleSelectKey}
                 className="bg-indigo-600 hover:bg-indigo-700 text-white px-8 py-3 rounded-xl font-bold shadow-lg shadow-indigo-500/30 transition-all"
             >
-                Seleccionar API Key
+                {t('generator.key.select')}
             </button>
              <p className="mt-6 text-xs text-slate-500">
-                Consulta la <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noopener noreferrer" className="text-indigo-400 underline">documentación de facturación</a> para más detalles.
+                {t('generator.key.billingBefore')}<a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noopener noreferrer" className="text-indigo-400 underline">{t('generator.key.billingLink')}</a>{t('generator.key.billingAfter')}
             </p>
         </div>
      )
@@ -113,21 +143,21 @@ export const Generator: React.FC = () => {
     <div className="w-full max-w-3xl mx-auto space-y-8">
       <div className="glass-panel p-6 rounded-2xl border border-white/10 shadow-xl">
         <label className="block text-sm font-medium text-slate-300 mb-2">
-            Describe el video que quieres crear
+            {t('generator.prompt.label')}
         </label>
         <textarea
           value={prompt}
           onChange={(e) => setPrompt(e.target.value)}
-          placeholder="Un paisaje futurista cyberpunk con lluvia de neón y coches voladores..."
+          placeholder={t('generator.prompt.placeholder')}
           className="w-full h-32 bg-slate-800/50 border border-slate-600 rounded-xl px-4 py-3 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-pink-500 transition-all resize-none mb-4"
         />
 
         {/* Configuration Controls */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
             <div className="bg-slate-800/30 p-4 rounded-xl border border-white/5">
-                <span className="block text-xs font-semibold text-slate-400 uppercase tracking-wider mb-3">Calidad</span>
+                <span className="block text-xs font-semibold text-slate-400 uppercase tracking-wider mb-3">{t('generator.quality')}</span>
                 <div className="flex gap-2">
-                    {['720p', '1080p'].map((res) => (
+                    {RESOLUTIONS.map((res) => (
                         <button
                             key={res}
                             onClick={() => setResolution(res)}
@@ -144,7 +174,7 @@ export const Generator: React.FC = () => {
             </div>
 
             <div className="bg-slate-800/30 p-4 rounded-xl border border-white/5">
-                <span className="block text-xs font-semibold text-slate-400 uppercase tracking-wider mb-3">Formato</span>
+                <span className="block text-xs font-semibold text-slate-400 uppercase tracking-wider mb-3">{t('generator.aspect')}</span>
                 <div className="flex gap-2">
                     <button
                         onClick={() => setAspectRatio('16:9')}
@@ -155,7 +185,7 @@ export const Generator: React.FC = () => {
                         }`}
                     >
                         <span className="w-4 h-2.5 border-2 border-current rounded-sm"></span>
-                        Horizontal (16:9)
+                        {t('generator.aspect.landscape')} (16:9)
                     </button>
                     <button
                         onClick={() => setAspectRatio('9:16')}
@@ -166,7 +196,7 @@ export const Generator: React.FC = () => {
                         }`}
                     >
                         <span className="w-2.5 h-4 border-2 border-current rounded-sm"></span>
-                        Vertical (9:16)
+                        {t('generator.aspect.portrait')} (9:16)
                     </button>
                 </div>
             </div>
@@ -175,58 +205,65 @@ export const Generator: React.FC = () => {
         <div className="flex justify-end">
             <button
                 onClick={handleGenerate}
-                disabled={isGenerating || !prompt}
+                disabled={!prompt.trim()}
                 className="bg-gradient-to-r from-pink-600 to-indigo-600 hover:from-pink-500 hover:to-indigo-500 disabled:opacity-50 text-white px-8 py-3 rounded-xl font-medium transition-all flex items-center gap-2 shadow-lg shadow-pink-500/20"
             >
-                {isGenerating ? (
-                <>
-                    <LoaderIcon className="w-5 h-5 animate-spin" />
-                    Generando (puede tardar un poco)...
-                </>
-                ) : (
-                <>
-                    <SparklesIcon className="w-5 h-5" />
-                    Generar Video con Veo
-                </>
-                )}
+                <SparklesIcon className="w-5 h-5" />
+                {t('generator.generate')}
             </button>
         </div>
       </div>
 
-      {error && (
-        <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4 text-red-300 text-sm text-center">
-            <span className="block font-bold mb-1">Error</span>
-            {error}
-        </div>
-      )}
-
-      {videoUri && (
-        <div className="animate-fade-in glass-panel p-6 rounded-2xl border border-white/10">
-            <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
-                <CheckIcon className="w-5 h-5 text-green-400" />
-                Video Generado con Éxito
-            </h3>
-            <div className={`rounded-xl overflow-hidden bg-black relative group mx-auto ${aspectRatio === '9:16' ? 'max-w-xs' : 'w-full'} aspect-[${aspectRatio.replace(':', '/')}]`}>
-                <video 
-                    src={videoUri} 
-                    controls 
-                    className="w-full h-full object-contain"
-                    autoPlay
-                    loop
-                />
-            </div>
-            <div className="mt-4 flex justify-end">
-                <a 
-                    href={videoUri} 
-                    download="generated-video.mp4"
-                    className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
-                >
-                    <DownloadIcon className="w-4 h-4" />
-                    Descargar MP4
-                </a>
+      {[...jobs].reverse().map(job => (
+        <div key={job.id} className="animate-fade-in glass-panel p-6 rounded-2xl border border-white/10">
+            <div className="flex items-start justify-between gap-4 mb-4">
+                <div className="min-w-0">
+                    <h3 className="text-lg font-bold text-white flex items-center gap-2">
+                        {job.state === 'completed' && <CheckIcon className="w-5 h-5 text-green-400" />}
+                        {isActiveGeneration(job) && <LoaderIcon className="w-5 h-5 animate-spin text-pink-400" />}
+                        {job.state === 'completed' ? t('generator.completedTitle') : t(STATE_LABELS[job.state])}
+                    </h3>
+                    <p className="text-xs text-slate-400 truncate mt-1" title={job.prompt}>{job.prompt}</p>
+                    <p className="text-[10px] text-slate-500 font-mono mt-1">
+                        {job.resolution} • {job.aspectRatio} • {formatElapsed(getElapsedMs(job, now))}
+                    </p>
+                </div>
+                {isActiveGeneration(job) ? (
+                    <button
+                        onClick={() => generationManager.cancel(job.id)}
+                        className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold text-slate-400 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                        title={t('generator.cancelTitle')}
+                    >
+                        <StopIcon className="w-3.5 h-3.5" />
+                        {t('generator.cancel')}
+                    </button>
+                ) : (
+                    <button onClick={() => generationManager.remove(job.id)} className="text-slate-600 hover:text-red-400" title={t('generator.remove')}>✕</button>
+                )}
             </div>
+
+            {job.state === 'failed' && job.error && <ErrorNotice error={job.error} />}
+
+            {job.state === 'completed' && job.videoUri && (
+                <div className="flex items-center justify-between gap-4">
+                    <p className="text-xs text-slate-400 flex items-center gap-2">
+                        <LoaderIcon className="w-3 h-3 animate-spin" />
+                        {t('generator.archiving')}
+                    </p>
+                    <a 
+                        href={withApiKey(job.videoUri)} 
+                        download={getGeneratedFileName(job)}
+                        className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
+                    >
+                        <DownloadIcon className="w-4 h-4" />
+                        {t('generator.downloadMp4')}
+                    </a>
+                </div>
+            )}
         </div>
-      )}
+      ))}
+
+      <Library onRegenerate={handleRegenerate} />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,256 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { queryHistory, getHistoryPlatforms, deleteHistoryItem, clearHistory, exportHistory, importHistory } from '../services/history';
+import { describeFormat } from '../services/formats';
+import { describeClip } from '../services/clips';
+import { saveBlob } from '../services/files';
+import { formatBytes } from '../services/downloads';
+import { HistoryFilter, HistoryItem } from '../types';
+import { DownloadIcon, YoutubeIcon, InstagramIcon, TwitterIcon, FacebookIcon, MusicIcon, MessageCircleIcon, HistoryIcon, TikTokIcon, FilmIcon, RetryIcon, LoaderIcon, ScissorsIcon } from './Icons';
+import { useI18n } from '../services/i18n';
+
+interface HistoryProps {
+  onRequeue: (entry: HistoryItem) => void;
+}
+
+// <input type="date"> values are local calendar days
+const dayStart = (value: string) => value ? new Date(`${value}T00:00:00`).getTime() : undefined;
+const dayEnd = (value: string) => value ? new Date(`${value}T23:59:59.999`).getTime() : undefined;
+
+export const History: React.FC<HistoryProps> = ({ onRequeue }) => {
+  const { t, formatDate } = useI18n();
+  const [entries, setEntries] = useState<HistoryItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [platforms, setPlatforms] = useState<string[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Filters
+  const [text, setText] = useState('');
+  const [platform, setPlatform] = useState('');
+  const [type, setType] = useState<'' | 'video' | 'audio'>('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Discards results of queries superseded by newer filters
+  const queryIdRef = useRef(0);
+
+  const filter: HistoryFilter = {
+    text,
+    platform: platform || undefined,
+    type: type || undefined,
+    from: dayStart(fromDate),
+    to: dayEnd(toDate)
+  };
+
+  const load = async (nextPage: number) => {
+    const queryId = ++queryIdRef.current;
+    setLoading(true);
+    try {
+      const result = await queryHistory(filter, nextPage);
+      if (queryId !== queryIdRef.current) return;
+      setEntries(prev => nextPage === 1 ? result.items : [...prev, ...result.items]);
+      setTotal(result.total);
+      setHasMore(result.hasMore);
+      setPage(nextPage);
+    } catch (e) {
+      console.error('Failed to load history', e);
+    } finally {
+      if (queryId === queryIdRef.current) setLoading(false);
+    }
+  };
+
+  const refresh = () => {
+    load(1);
+    getHistoryPlatforms().then(setPlatforms).catch(e => console.error('Failed to load platforms', e));
+  };
+
+  useEffect(() => {
+    getHistoryPlatforms().then(setPlatforms).catch(e => console.error('Failed to load platforms', e));
+  }, []);
+
+  // Debounced so typing in the search box doesn't query on every key
+  useEffect(() => {
+    const timer = setTimeout(() => load(1), 250);
+    return () => clearTimeout(timer);
+  }, [text, platform, type, fromDate, toDate]);
+
+  const handleClear = async () => {
+    await clearHistory();
+    refresh();
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteHistoryItem(id);
+    setEntries(prev => prev.filter(e => e.id !== id));
+    setTotal(prev => prev - 1);
+  };
+
+  const handleExport = async (format: 'json' | 'csv') => {
+    const blob = await exportHistory(format);
+    saveBlob(blob, `vortexmedia-historial-${new Date().toISOString().slice(0, 10)}.${format}`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const count = await importHistory(file);
+      setNotice(t('history.imported', { count }));
+      refresh();
+    } catch (err) {
+      console.error('Failed to import history', err);
+      setNotice(t('history.importFailed'));
+    }
+  };
+
+  const hasFilters = !!(text || platform || type || fromDate || toDate);
+
+  const getPlatformIcon = (platform: string, size: string = "w-6 h-6") => {
+    const p = platform.toLowerCase();
+    if (p.includes('youtube')) return <YoutubeIcon className={`${size} text-red-500`} />;
+    if (p.includes('instagram')) return <InstagramIcon className={`${size} text-pink-500`} />;
+    if (p.includes('twitter') || p.includes('x')) return <TwitterIcon className={`${size} text-blue-400`} />;
+    if (p.includes('facebook')) return <FacebookIcon className={`${size} text-blue-600`} />;
+    if (p.includes('spotify')) return <MusicIcon className={`${size} text-green-500`} />;
+    if (p.includes('whatsapp')) return <MessageCircleIcon className={`${size} text-green-400`} />;
+    if (p.includes('tiktok')) return <TikTokIcon className={`${size} text-[#ff0050]`} />;
+    return <DownloadIcon className={`${size} text-primary-500`} />;
+  };
+
+  const fieldClass = "bg-slate-950 border border-slate-700 rounded-lg px-3 py-1.5 text-xs text-white placeholder-slate-600 focus:outline-none focus:border-primary-500";
+  const toolButton = "text-[10px] font-bold text-slate-500 hover:text-white transition-colors uppercase tracking-wider";
+
+  return (
+    <div className="w-full glass-panel p-6 rounded-3xl">
+        <div className="flex items-center justify-between mb-4 px-2">
+            <div className="flex items-center gap-2 text-slate-500">
+                <HistoryIcon className="w-4 h-4" />
+                <h3 className="text-xs font-bold uppercase tracking-widest">{t('history.title', { count: total })}</h3>
+            </div>
+            <div className="flex items-center gap-3">
+                <button onClick={() => fileInputRef.current?.click()} className={toolButton}>{t('history.import')}</button>
+                <button onClick={() => handleExport('json')} className={toolButton}>JSON</button>
+                <button onClick={() => handleExport('csv')} className={toolButton}>CSV</button>
+                <button
+                    onClick={handleClear}
+                    className="text-[10px] font-bold text-slate-600 hover:text-red-400 transition-colors uppercase tracking-wider"
+                >
+                    {t('history.clear')}
+                </button>
+                <input ref={fileInputRef} type="file" accept=".json,.csv,application/json,text/csv" onChange={handleImport} className="hidden" />
+            </div>
+        </div>
+
+        {/* Filters */}
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-2 mb-4 px-2">
+            <input
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder={t('history.search')}
+                className={`${fieldClass} col-span-2`}
+            />
+            <select value={platform} onChange={(e) => setPlatform(e.target.value)} className={fieldClass}>
+                <option value="">{t('history.allPlatforms')}</option>
+                {platforms.map(p => <option key={p} value={p}>{p}</option>)}
+            </select>
+            <select value={type} onChange={(e) => setType(e.target.value as '' | 'video' | 'audio')} className={fieldClass}>
+                <option value="">{t('history.allTypes')}</option>
+                <option value="video">Video</option>
+                <option value="audio">Audio</option>
+            </select>
+            <div className="flex gap-1 col-span-2 md:col-span-1">
+                <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className={`${fieldClass} flex-1 min-w-0`} title={t('history.from')} />
+                <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className={`${fieldClass} flex-1 min-w-0`} title={t('history.to')} />
+            </div>
+        </div>
+
+        {notice && (
+            <p className="text-xs text-slate-400 px-2 mb-3 flex justify-between">
+                {notice}
+                <button onClick={() => setNotice(null)} className="text-slate-600 hover:text-white">✕</button>
+            </p>
+        )}
+
+        {!loading && entries.length === 0 ? (
+            <p className="text-center text-sm text-slate-500 py-10">
+                {hasFilters ? t('history.noMatches') : t('history.empty')}
+            </p>
+        ) : (
+            <div className="grid gap-2">
+                {entries.map((item) => (
+                    <div
+                        key={item.id}
+                        className="p-3 rounded-lg border border-white/5 flex items-center gap-3 bg-slate-900/40 group"
+                    >
+                        <div className="w-16 h-10 rounded-md bg-slate-900 overflow-hidden flex-shrink-0 flex items-center justify-center">
+                            {item.thumbnailUrl ? (
+                                <img src={item.thumbnailUrl} className="w-full h-full object-cover" />
+                            ) : (
+                                getPlatformIcon(item.platform, "w-4 h-4")
+                            )}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                            <div className="flex justify-between items-center gap-2">
+                                <span className="text-slate-200 text-xs font-medium truncate">{item.summary || item.url}</span>
+                                <span className="text-[10px] text-slate-600 font-mono whitespace-nowrap">
+                                    {formatDate(item.timestamp)}
+                                </span>
+                            </div>
+                            <div className="flex items-center gap-2 mt-1 text-[10px] text-slate-500">
+                                {getPlatformIcon(item.platform, "w-3 h-3")}
+                                <span>{item.platform}</span>
+                                <span className="flex items-center gap-1">
+                                    {item.type === 'audio' ? <MusicIcon className="w-3 h-3" /> : <FilmIcon className="w-3 h-3" />}
+                                    {item.format ? describeFormat(item.type, item.format) : item.type.toUpperCase()}
+                                </span>
+                                {item.clip && (
+                                    <span className="flex items-center gap-1 font-mono text-secondary-400" title={t('clip.chip')}>
+                                        <ScissorsIcon className="w-3 h-3" />
+                                        {describeClip(item.clip)}
+                                    </span>
+                                )}
+                                {item.fileSize !== undefined && <span className="font-mono whitespace-nowrap">{formatBytes(item.fileSize)}</span>}
+                                <span className="truncate text-slate-600" title={item.url}>{item.fileName || item.url}</span>
+                            </div>
+                        </div>
+                        <button
+                            onClick={() => onRequeue(item)}
+                            className="p-2 rounded-lg text-slate-500 hover:text-primary-400 hover:bg-white/5 transition-colors"
+                            title={t('history.requeue')}
+                        >
+                            <RetryIcon className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={() => handleDelete(item.id)}
+                            className="text-slate-700 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                            title={t('history.delete')}
+                        >
+                            ✕
+                        </button>
+                    </div>
+                ))}
+            </div>
+        )}
+
+        {loading && (
+            <div className="flex items-center justify-center gap-2 py-6 text-slate-500 text-xs">
+                <LoaderIcon className="w-4 h-4 animate-spin" />
+                {t('history.loading')}
+            </div>
+        )}
+
+        {!loading && hasMore && (
+            <button
+                onClick={() => load(page + 1)}
+                className="w-full mt-3 py-2 rounded-lg text-xs font-bold text-slate-400 hover:text-white hover:bg-white/5 transition-colors"
+            >
+                {t('history.loadMore')}
+            </button>
+        )}
+    </div>
+  );
+};
@@ -0,0 +1,185 @@
+import React, { useState, useEffect } from 'react';
+import { loadLibrary, deleteFromLibrary, saveLocalCopy, subscribeLibrary, isExpiringSoon, isRemoteExpired, formatTimeUntil } from '../services/library';
+import { withApiKey } from '../services/gemini';
+import { processingManager, fetchMedia } from '../services/processing';
+import { getGeneratedFileName } from '../services/fileNames';
+import { GeneratedVideo, ProcessingRequest } from '../types';
+import { useI18n } from '../services/i18n';
+import { FilmIcon, DownloadIcon, RetryIcon, LoaderIcon, ScissorsIcon } from './Icons';
+import { ProcessingDialog } from './ProcessingDialog';
+import { ProcessingStatus } from './ProcessingStatus';
+
+interface LibraryCardProps {
+  video: GeneratedVideo;
+  now: number;
+  onRegenerate: (video: GeneratedVideo) => void;
+}
+
+const LibraryCard: React.FC<LibraryCardProps> = ({ video, now, onRegenerate }) => {
+  const { t, formatDateTime } = useI18n();
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState(false);
+  const [processing, setProcessing] = useState(false);
+
+  useEffect(() => {
+    if (!video.blob) return;
+    const url = URL.createObjectURL(video.blob);
+    setObjectUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [video.blob]);
+
+  const expired = !video.blob && isRemoteExpired(video, now);
+  const fileName = getGeneratedFileName(video);
+  const src = objectUrl || (expired ? null : withApiKey(video.uri));
+
+  const handleSaveLocal = async () => {
+    setSaving(true);
+    setSaveError(false);
+    try {
+      await saveLocalCopy(video);
+    } catch (err) {
+      console.error('Failed to save local copy', err);
+      setSaveError(true);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // The local copy when there is one, so processing works after the remote link expires
+  const handleProcessStart = (request: ProcessingRequest) => {
+    const load = () => video.blob ? Promise.resolve(video.blob) : fetchMedia(withApiKey(video.uri));
+    processingManager.start({ id: video.id, name: fileName, load }, request);
+    setProcessing(false);
+  };
+
+  return (
+    <div className="p-4 rounded-xl border border-white/5 bg-slate-900/40 flex flex-col gap-3">
+      {processing && (
+        <ProcessingDialog
+          sourceName={fileName}
+          sourceType="video"
+          onStart={handleProcessStart}
+          onClose={() => setProcessing(false)}
+        />
+      )}
+      <div className={`rounded-lg overflow-hidden bg-black mx-auto ${video.aspectRatio === '9:16' ? 'max-w-[10rem]' : 'w-full'} aspect-[${video.aspectRatio.replace(':', '/')}]`}>
+        {src ? (
+          <video src={src} controls preload="metadata" className="w-full h-full object-contain" />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center text-slate-700">
+            <FilmIcon className="w-8 h-8" />
+          </div>
+        )}
+      </div>
+
+      <div className="min-w-0">
+        <p className="text-xs text-slate-300 line-clamp-2" title={video.prompt}>{video.prompt}</p>
+        <p className="text-[10px] text-slate-500 font-mono mt-1">
+          {video.resolution} • {video.aspectRatio} • {formatDateTime(video.createdAt)}
+        </p>
+      </div>
+
+      {expired && (
+        <p className="text-[10px] text-red-400">{t('library.expired')}</p>
+      )}
+      {isExpiringSoon(video, now) && (
+        <p className="text-[10px] text-amber-400">
+          {t('library.expiringSoon', { time: formatTimeUntil(video.expiry!, now) })}
+        </p>
+      )}
+      {saveError && <p className="text-[10px] text-red-400">{t('library.saveFailed')}</p>}
+
+      <div className="flex flex-wrap gap-2 mt-auto">
+        {src && (
+          <a
+            href={src}
+            download={fileName}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold bg-slate-700 hover:bg-slate-600 text-white transition-colors"
+          >
+            <DownloadIcon className="w-3.5 h-3.5" />
+            MP4
+          </a>
+        )}
+        {!video.blob && !expired && (
+          <button
+            onClick={handleSaveLocal}
+            disabled={saving}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold border border-white/10 text-slate-300 hover:bg-white/5 disabled:opacity-50"
+          >
+            {saving && <LoaderIcon className="w-3 h-3 animate-spin" />}
+            {t('library.saveLocal')}
+          </button>
+        )}
+        {src && (
+          <button
+            onClick={() => setProcessing(true)}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold border border-white/10 text-slate-300 hover:bg-white/5"
+            title={t('processing.open')}
+          >
+            <ScissorsIcon className="w-3.5 h-3.5" />
+            {t('processing.short')}
+          </button>
+        )}
+        <button
+          onClick={() => onRegenerate(video)}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold border border-white/10 text-slate-300 hover:bg-white/5"
+          title={t('library.regenerate.hint')}
+        >
+          <RetryIcon className="w-3.5 h-3.5" />
+          {t('library.regenerate')}
+        </button>
+        <button
+          onClick={() => deleteFromLibrary(video.id)}
+          className="ml-auto px-2 py-1.5 text-xs text-slate-600 hover:text-red-400"
+          title={t('library.delete')}
+        >
+          ✕
+        </button>
+      </div>
+      <ProcessingStatus sourceId={video.id} />
+    </div>
+  );
+};
+
+interface LibraryProps {
+  onRegenerate: (video: GeneratedVideo) => void;
+}
+
+export const Library: React.FC<LibraryProps> = ({ onRegenerate }) => {
+  const { t } = useI18n();
+  const [videos, setVideos] = useState<GeneratedVideo[]>([]);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const refresh = () => {
+      loadLibrary()
+        .then(setVideos)
+        .catch(err => console.error('Failed to load library', err));
+    };
+    refresh();
+    return subscribeLibrary(refresh);
+  }, []);
+
+  // Keep expiry warnings current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (videos.length === 0) return null;
+
+  return (
+    <div className="glass-panel p-6 rounded-2xl border border-white/10">
+      <div className="flex items-center gap-2 text-slate-500 mb-4">
+        <FilmIcon className="w-4 h-4" />
+        <h3 className="text-xs font-bold uppercase tracking-widest">{t('library.title', { count: videos.length })}</h3>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {videos.map(video => (
+          <LibraryCard key={video.id} video={video} now={now} onRegenerate={onRegenerate} />
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,151 @@
+import React, { useState, useMemo } from 'react';
+import { ImportedLink } from '../services/linkImport';
+import { getPlatformName } from '../services/urls';
+import { useI18n } from '../services/i18n';
+import { CheckIcon, PlaylistIcon } from './Icons';
+
+interface LinkImportDialogProps {
+  links: ImportedLink[];
+  onCancel: () => void;
+  onConfirm: (links: ImportedLink[]) => void;
+}
+
+/** Preview of the links found in imported files, grouped by platform, to pick which ones to queue. */
+export const LinkImportDialog: React.FC<LinkImportDialogProps> = ({ links, onCancel, onConfirm }) => {
+  const { t } = useI18n();
+  // Everything starts selected; indexes into `links`
+  const [selected, setSelected] = useState<Set<number>>(() => new Set(links.map((_, i) => i)));
+
+  const platforms = useMemo(() => links.map(link => getPlatformName(link.url)), [links]);
+  const fileCount = useMemo(() => new Set(links.map(link => link.fileName)).size, [links]);
+
+  // Platforms by number of links, most common first
+  const platformCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    platforms.forEach(platform => counts.set(platform, (counts.get(platform) ?? 0) + 1));
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+  }, [platforms]);
+
+  const toggle = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const indexesOf = (platform: string) => platforms.flatMap((p, i) => p === platform ? [i] : []);
+  const isPlatformSelected = (platform: string) => indexesOf(platform).every(i => selected.has(i));
+
+  // Selects every link of the platform, or clears them when they all are
+  const togglePlatform = (platform: string) => {
+    const indexes = indexesOf(platform);
+    const selectAll = !isPlatformSelected(platform);
+    setSelected(prev => {
+      const next = new Set(prev);
+      indexes.forEach(i => selectAll ? next.add(i) : next.delete(i));
+      return next;
+    });
+  };
+
+  const allSelected = links.length > 0 && selected.size === links.length;
+
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(links.map((_, i) => i)));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm animate-fade-in" onClick={onCancel}>
+      <div
+        className="glass-panel bg-slate-900/95 w-full max-w-2xl max-h-[85vh] rounded-3xl border border-white/10 shadow-2xl flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-5 border-b border-white/5 flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <p className="text-[10px] font-bold text-primary-400 uppercase tracking-widest flex items-center gap-1 mb-1">
+              <PlaylistIcon className="w-3 h-3" />
+              {t('import.files', { count: fileCount })}
+            </p>
+            <h3 className="text-lg font-bold text-white">{t('import.title')}</h3>
+            <p className="text-xs text-slate-500">
+              {t('import.found', { count: links.length })} • {t('playlist.selected', { count: selected.size })}
+            </p>
+          </div>
+          <button onClick={onCancel} className="text-slate-600 hover:text-red-400">✕</button>
+        </div>
+
+        {/* Platforms */}
+        {platformCounts.length > 0 && (
+          <div className="px-5 py-3 border-b border-white/5 flex flex-wrap gap-2">
+            {platformCounts.map(([platform, count]) => {
+              const active = isPlatformSelected(platform);
+              return (
+                <button
+                  key={platform}
+                  onClick={() => togglePlatform(platform)}
+                  className={`px-3 py-1.5 rounded-lg text-xs font-bold border transition-all flex items-center gap-1.5 ${
+                    active ? 'bg-primary-500/15 border-primary-500/40 text-primary-300' : 'border-white/10 text-slate-500 hover:text-slate-300'
+                  }`}
+                  title={t('import.togglePlatform')}
+                >
+                  {platform}
+                  <span className="font-mono opacity-70">{count}</span>
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Links */}
+        <div className="flex-1 overflow-y-auto p-3 space-y-1">
+          {links.length === 0 ? (
+            <p className="text-xs text-slate-500 text-center py-8">{t('import.empty')}</p>
+          ) : (
+            <button
+              onClick={toggleAll}
+              className="w-full text-left px-3 py-2 text-[10px] font-bold text-slate-500 hover:text-slate-300 uppercase tracking-wider"
+            >
+              {allSelected ? t('playlist.deselectAll') : t('playlist.selectAll')}
+            </button>
+          )}
+
+          {links.map((link, index) => {
+            const isSelected = selected.has(index);
+            return (
+              <button
+                key={`${link.url}-${index}`}
+                onClick={() => toggle(index)}
+                className={`w-full text-left p-2 rounded-xl flex items-center gap-3 transition-colors border ${isSelected ? 'bg-white/5 border-white/10' : 'border-transparent opacity-50 hover:opacity-80'}`}
+              >
+                <div className={`w-5 h-5 rounded-md border flex-shrink-0 flex items-center justify-center ${isSelected ? 'bg-primary-500 border-primary-500 text-slate-900' : 'border-slate-600'}`}>
+                  {isSelected && <CheckIcon className="w-3 h-3" />}
+                </div>
+                <div className="flex-1 min-w-0">
+                  {link.title && <span className="block text-xs text-slate-200 truncate">{link.title}</span>}
+                  <span className={`block font-mono truncate ${link.title ? 'text-[10px] text-slate-500' : 'text-xs text-slate-300'}`}>{link.url}</span>
+                </div>
+                <span className="text-[10px] text-slate-500 flex-shrink-0 max-w-[8rem] truncate">{platforms[index]}</span>
+              </button>
+            );
+          })}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-white/5 flex justify-end gap-2">
+          <button onClick={onCancel} className="px-4 py-2 rounded-xl text-xs font-bold text-slate-400 hover:text-white hover:bg-white/5">
+            {t('playlist.cancel')}
+          </button>
+          <button
+            onClick={() => onConfirm(links.filter((_, i) => selected.has(i)))}
+            disabled={selected.size === 0}
+            className="px-5 py-2 rounded-xl bg-gradient-to-r from-gradient-start to-gradient-end text-white text-xs font-bold shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('playlist.add', { count: selected.size })}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useNotifications, openNotification, markAllNotificationsRead, clearNotifications } from '../services/notifications';
+import { useI18n, translateStored } from '../services/i18n';
+import { BellIcon } from './Icons';
+import { NotificationIcon } from './NotificationIcon';
+
+/** Bell in the header with an unread badge and the list of past notifications. */
+export const NotificationCenter: React.FC = () => {
+  const { t, formatDateTime } = useI18n();
+  const { notifications } = useNotifications();
+  const [open, setOpen] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const unread = notifications.filter(n => !n.read).length;
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!panelRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  // Below md the panel hangs from the header instead, full width, so it fits narrow screens
+  return (
+    <div className="md:relative" ref={panelRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative p-2 rounded-lg border border-slate-700/50 bg-slate-900/80 text-slate-500 hover:text-white transition-colors"
+        title={t('notifications.title')}
+      >
+        <BellIcon className="w-4 h-4" />
+        {unread > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1rem] h-4 px-1 rounded-full bg-primary-500 text-slate-900 text-[9px] font-bold flex items-center justify-center">
+            {unread > 9 ? '9+' : unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute top-full inset-x-0 md:left-auto md:right-0 mt-2 md:w-80 glass-panel rounded-2xl overflow-hidden shadow-2xl animate-fade-in border border-white/10 backdrop-blur-xl bg-slate-900/95 z-50">
+          <div className="px-4 py-3 border-b border-white/5 flex items-center justify-between gap-2">
+            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{t('notifications.title')}</span>
+            {notifications.length > 0 && (
+              <div className="flex gap-3">
+                <button onClick={markAllNotificationsRead} className="text-[10px] font-bold text-slate-500 hover:text-white uppercase tracking-wider">
+                  {t('notifications.markAllRead')}
+                </button>
+                <button onClick={clearNotifications} className="text-[10px] font-bold text-slate-500 hover:text-red-400 uppercase tracking-wider">
+                  {t('notifications.clear')}
+                </button>
+              </div>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-xs text-slate-500 text-center">{t('notifications.empty')}</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto divide-y divide-white/5">
+              {notifications.map(notification => (
+                <button
+                  key={notification.id}
+                  onClick={() => {
+                    openNotification(notification);
+                    setOpen(false);
+                  }}
+                  className={`w-full px-4 py-3 flex items-start gap-3 text-left hover:bg-white/5 transition-colors ${notification.read ? 'opacity-60' : ''}`}
+                >
+                  <NotificationIcon event={notification.event} />
+                  <span className="min-w-0 flex-1">
+                    <span className="flex items-center justify-between gap-2">
+                      <span className="text-xs font-bold text-white truncate">{translateStored(notification.title, notification.params)}</span>
+                      {!notification.read && <span className="w-1.5 h-1.5 rounded-full bg-primary-400 flex-shrink-0" />}
+                    </span>
+                    <span className="block text-[11px] text-slate-400 line-clamp-2 break-words">{translateStored(notification.body, notification.params)}</span>
+                    <span className="block text-[10px] text-slate-600 font-mono mt-0.5">{formatDateTime(notification.timestamp)}</span>
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,19 @@
+import React from 'react';
+import { NotificationEvent } from '../types';
+import { CheckIcon, DownloadIcon, SparklesIcon, StopIcon } from './Icons';
+
+const STYLES: Record<NotificationEvent, { Icon: React.FC<{ className?: string }>; className: string }> = {
+  itemCompleted: { Icon: CheckIcon, className: 'bg-emerald-500/15 text-emerald-400' },
+  batchCompleted: { Icon: DownloadIcon, className: 'bg-primary-500/15 text-primary-400' },
+  error: { Icon: StopIcon, className: 'bg-red-500/15 text-red-400' },
+  generationCompleted: { Icon: SparklesIcon, className: 'bg-secondary-500/15 text-secondary-400' }
+};
+
+export const NotificationIcon: React.FC<{ event: NotificationEvent }> = ({ event }) => {
+  const { Icon, className } = STYLES[event];
+  return (
+    <span className={`w-7 h-7 rounded-lg flex items-center justify-center flex-shrink-0 ${className}`}>
+      <Icon className="w-3.5 h-3.5" />
+    </span>
+  );
+};
@@ -0,0 +1,170 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { fetchPlaylistPage, formatDuration, PlaylistEntry } from '../services/playlists';
+import { LoaderIcon, CheckIcon, PlaylistIcon, FilmIcon } from './Icons';
+import { useI18n } from '../services/i18n';
+
+interface PlaylistDialogProps {
+  url: string;
+  platform: string;
+  onCancel: () => void;
+  onConfirm: (entries: PlaylistEntry[], playlistTitle: string | null) => void;
+}
+
+export const PlaylistDialog: React.FC<PlaylistDialogProps> = ({ url, platform, onCancel, onConfirm }) => {
+  const { t } = useI18n();
+  const [entries, setEntries] = useState<PlaylistEntry[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [title, setTitle] = useState<string | null>(null);
+  const [total, setTotal] = useState<number | null>(null);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const abortRef = useRef<AbortController | null>(null);
+
+  const loadNextPage = async () => {
+    if (loading || !hasMore) return;
+    const nextPage = page + 1;
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await fetchPlaylistPage(url, nextPage, controller.signal);
+      setTitle(result.title);
+      setTotal(result.total);
+      setHasMore(result.hasMore);
+      setPage(nextPage);
+      setEntries(prev => [...prev, ...result.entries]);
+      // Newly loaded entries start selected
+      setSelected(prev => new Set([...prev, ...result.entries.map(e => e.index)]));
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error('Failed to load playlist', err);
+      setError((err as Error).message || t('playlist.loadFailed'));
+    } finally {
+      if (!controller.signal.aborted) setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadNextPage();
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const toggle = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const allSelected = entries.length > 0 && entries.every(e => selected.has(e.index));
+
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(entries.map(e => e.index)));
+  };
+
+  const handleConfirm = () => {
+    onConfirm(entries.filter(e => selected.has(e.index)), title);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm animate-fade-in" onClick={onCancel}>
+      <div
+        className="glass-panel bg-slate-900/95 w-full max-w-2xl max-h-[85vh] rounded-3xl border border-white/10 shadow-2xl flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-5 border-b border-white/5 flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <p className="text-[10px] font-bold text-primary-400 uppercase tracking-widest flex items-center gap-1 mb-1">
+              <PlaylistIcon className="w-3 h-3" />
+              {platform}
+            </p>
+            <h3 className="text-lg font-bold text-white truncate">{title || t('playlist.untitled')}</h3>
+            <p className="text-xs text-slate-500">
+              {total !== null ? t('playlist.loadedOf', { count: entries.length, total }) : t('playlist.loaded', { count: entries.length })} • {t('playlist.selected', { count: selected.size })}
+            </p>
+          </div>
+          <button onClick={onCancel} className="text-slate-600 hover:text-red-400">✕</button>
+        </div>
+
+        {/* Entries */}
+        <div className="flex-1 overflow-y-auto p-3 space-y-1">
+          {entries.length > 0 && (
+            <button
+              onClick={toggleAll}
+              className="w-full text-left px-3 py-2 text-[10px] font-bold text-slate-500 hover:text-slate-300 uppercase tracking-wider"
+            >
+              {allSelected ? t('playlist.deselectAll') : t('playlist.selectAll')}
+            </button>
+          )}
+
+          {entries.map(entry => {
+            const isSelected = selected.has(entry.index);
+            return (
+              <button
+                key={entry.index}
+                onClick={() => toggle(entry.index)}
+                className={`w-full text-left p-2 rounded-xl flex items-center gap-3 transition-colors border ${isSelected ? 'bg-white/5 border-white/10' : 'border-transparent opacity-50 hover:opacity-80'}`}
+              >
+                <div className={`w-5 h-5 rounded-md border flex-shrink-0 flex items-center justify-center ${isSelected ? 'bg-primary-500 border-primary-500 text-slate-900' : 'border-slate-600'}`}>
+                  {isSelected && <CheckIcon className="w-3 h-3" />}
+                </div>
+                <span className="text-[10px] text-slate-600 font-mono w-8 text-right">{entry.index}</span>
+                <div className="w-16 h-10 rounded-lg bg-slate-900 overflow-hidden flex-shrink-0">
+                  {entry.thumbnailUrl ? (
+                    <img src={entry.thumbnailUrl} className="w-full h-full object-cover" />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center text-slate-700">
+                      <FilmIcon className="w-4 h-4" />
+                    </div>
+                  )}
+                </div>
+                <span className="flex-1 min-w-0 text-xs text-slate-200 truncate">{entry.title}</span>
+                <span className="text-[10px] text-slate-500 font-mono">{formatDuration(entry.durationSeconds)}</span>
+              </button>
+            );
+          })}
+
+          {loading && (
+            <div className="flex items-center justify-center gap-2 py-6 text-slate-500 text-xs">
+              <LoaderIcon className="w-4 h-4 animate-spin" />
+              {t('playlist.loading')}
+            </div>
+          )}
+
+          {error && <p className="text-xs text-red-400 text-center py-4">{error}</p>}
+
+          {!loading && hasMore && entries.length > 0 && (
+            <button
+              onClick={loadNextPage}
+              className="w-full py-2 rounded-lg text-xs font-bold text-slate-400 hover:text-white hover:bg-white/5 transition-colors"
+            >
+              {t('playlist.loadMore')}
+            </button>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-white/5 flex justify-end gap-2">
+          <button onClick={onCancel} className="px-4 py-2 rounded-xl text-xs font-bold text-slate-400 hover:text-white hover:bg-white/5">
+            {t('playlist.cancel')}
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={selected.size === 0}
+            className="px-5 py-2 rounded-xl bg-gradient-to-r from-gradient-start to-gradient-end text-white text-xs font-bold shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('playlist.add', { count: selected.size })}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
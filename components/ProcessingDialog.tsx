@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { VIDEO_CONTAINERS, AUDIO_CONTAINERS, AUDIO_BITRATES, RESOLUTIONS, CODEC_LABELS, isCodecAllowed, resolutionLabel, FormatSelection } from '../services/formats';
+import { PROCESSING_CODECS, describeProcessing, isAudioContainer } from '../services/processing';
+import { formatTimecode, parseTimecode } from '../services/clips';
+import { useI18n, MessageKey } from '../services/i18n';
+import { ProcessingRequest } from '../types';
+import { ScissorsIcon, FilmIcon, MusicIcon } from './Icons';
+
+interface ProcessingDialogProps {
+  sourceName: string;
+  sourceType: 'video' | 'audio'; // Audio sources can only become audio
+  onStart: (request: ProcessingRequest) => void;
+  onClose: () => void;
+}
+
+const QUICK_ACTIONS: { label: MessageKey; format: FormatSelection }[] = [
+  { label: 'processing.quick.mp3', format: { container: 'mp3', audioBitrate: 192 } },
+  { label: 'processing.quick.m4a', format: { container: 'm4a', audioBitrate: 128 } },
+  { label: 'processing.quick.mp4720', format: { container: 'mp4', maxHeight: 720, videoCodec: 'h264' } },
+  { label: 'processing.quick.webm', format: { container: 'webm', videoCodec: 'vp9' } }
+];
+
+export const ProcessingDialog: React.FC<ProcessingDialogProps> = ({ sourceName, sourceType, onStart, onClose }) => {
+  const { t } = useI18n();
+  const [format, setFormat] = useState<FormatSelection>(
+    sourceType === 'audio' ? { container: 'mp3', audioBitrate: 192 } : { container: 'mp4' }
+  );
+  const [start, setStart] = useState('');
+  const [end, setEnd] = useState('');
+
+  const audioOutput = isAudioContainer(format.container);
+  const startSeconds = parseTimecode(start);
+  const endSeconds = parseTimecode(end);
+  const invalidStart = start.trim() !== '' && startSeconds === undefined;
+  const invalidEnd = end.trim() !== '' && endSeconds === undefined;
+  const invalidRange = startSeconds !== undefined && endSeconds !== undefined && endSeconds <= startSeconds;
+  const request: ProcessingRequest = { format, startSeconds: startSeconds || undefined, endSeconds };
+  const canStart = !invalidStart && !invalidEnd && !invalidRange;
+
+  const update = (changes: Partial<FormatSelection>) => {
+    setFormat(prev => {
+      const next = { ...prev, ...changes };
+      if (next.videoCodec && !isCodecAllowed(next.container, next.videoCodec)) delete next.videoCodec;
+      return next;
+    });
+  };
+
+  // Switching between audio and video output drops the settings of the other kind
+  const setContainer = (container: FormatSelection['container']) => {
+    if (isAudioContainer(container) === audioOutput) update({ container });
+    else setFormat(isAudioContainer(container) ? { container, audioBitrate: 192 } : { container });
+  };
+
+  const chip = (active: boolean, disabled = false) =>
+    `px-3 py-1.5 rounded-lg text-xs font-bold border transition-all ${
+      active
+        ? 'bg-primary-500 border-primary-500 text-slate-900 shadow-lg'
+        : disabled
+          ? 'border-white/5 text-slate-700 cursor-not-allowed'
+          : 'border-white/10 text-slate-400 hover:text-white hover:bg-white/5'
+    }`;
+
+  const sectionLabel = "block text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-2";
+  const input = (invalid: boolean) =>
+    `w-full bg-slate-950 border rounded-lg px-3 py-1.5 text-sm font-mono text-white placeholder-slate-600 focus:outline-none ${
+      invalid ? 'border-red-500/60' : 'border-slate-700 focus:border-primary-500'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+      <div
+        className="glass-panel bg-slate-900/95 w-full max-w-lg max-h-[85vh] overflow-y-auto rounded-3xl border border-white/10 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-5 border-b border-white/5 flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h3 className="text-lg font-bold text-white flex items-center gap-2">
+              <ScissorsIcon className="w-5 h-5 text-primary-400" />
+              {t('processing.title')}
+            </h3>
+            <p className="text-xs text-slate-500 truncate">{sourceName}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-600 hover:text-red-400">✕</button>
+        </div>
+
+        <div className="p-5 space-y-5">
+          <div>
+            <span className={sectionLabel}>{t('processing.quick')}</span>
+            <div className="flex flex-wrap gap-2">
+              {QUICK_ACTIONS
+                .filter(action => sourceType === 'video' || isAudioContainer(action.format.container))
+                .map(action => (
+                  <button key={action.label} onClick={() => setFormat(action.format)} className={chip(false)}>
+                    {t(action.label)}
+                  </button>
+                ))}
+            </div>
+          </div>
+
+          <div>
+            <span className={sectionLabel}>{t('format.container')}</span>
+            <div className="flex flex-wrap gap-2">
+              {sourceType === 'video' && VIDEO_CONTAINERS.map(container => (
+                <button key={container} onClick={() => setContainer(container)} className={`${chip(format.container === container)} flex items-center gap-1.5`}>
+                  <FilmIcon className="w-3 h-3" />
+                  {container.toUpperCase()}
+                </button>
+              ))}
+              {AUDIO_CONTAINERS.map(container => (
+                <button key={container} onClick={() => setContainer(container)} className={`${chip(format.container === container)} flex items-center gap-1.5`}>
+                  <MusicIcon className="w-3 h-3" />
+                  {container.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {audioOutput ? (
+            <div>
+              <span className={sectionLabel}>Bitrate</span>
+              <div className="flex gap-2">
+                {AUDIO_BITRATES.map(bitrate => {
+                  const lossless = format.container === 'flac';
+                  return (
+                    <button
+                      key={bitrate}
+                      disabled={lossless}
+                      onClick={() => update({ audioBitrate: bitrate })}
+                      className={chip(!lossless && format.audioBitrate === bitrate, lossless)}
+                    >
+                      {bitrate} kbps
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ) : (
+            <>
+              <div>
+                <span className={sectionLabel}>{t('format.maxResolution')}</span>
+                <div className="flex flex-wrap gap-2">
+                  {RESOLUTIONS.map(height => (
+                    <button key={height} onClick={() => update({ maxHeight: height })} className={chip(format.maxHeight === height)}>
+                      {resolutionLabel(height)}
+                    </button>
+                  ))}
+                  <button onClick={() => update({ maxHeight: undefined })} className={chip(!format.maxHeight)}>{t('processing.keepResolution')}</button>
+                </div>
+              </div>
+              <div>
+                <span className={sectionLabel}>{t('format.videoCodec')}</span>
+                <div className="flex gap-2">
+                  <button onClick={() => update({ videoCodec: undefined })} className={chip(!format.videoCodec)}>Auto</button>
+                  {PROCESSING_CODECS.map(codec => {
+                    const allowed = isCodecAllowed(format.container, codec);
+                    return (
+                      <button
+                        key={codec}
+                        disabled={!allowed}
+                        onClick={() => update({ videoCodec: codec })}
+                        className={chip(format.videoCodec === codec, !allowed)}
+                        title={allowed ? undefined : t('format.codecUnsupported')}
+                      >
+                        {CODEC_LABELS[codec]}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            </>
+          )}
+
+          <div>
+            <span className={sectionLabel}>{t('processing.trim')}</span>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block">
+                <span className="block text-[10px] text-slate-500 mb-1">{t('processing.trim.start')}</span>
+                <input value={start} onChange={(e) => setStart(e.target.value)} placeholder="0:00" className={input(invalidStart)} spellCheck={false} />
+              </label>
+              <label className="block">
+                <span className="block text-[10px] text-slate-500 mb-1">{t('processing.trim.end')}</span>
+                <input value={end} onChange={(e) => setEnd(e.target.value)} placeholder={t('processing.trim.endPlaceholder')} className={input(invalidEnd || invalidRange)} spellCheck={false} />
+              </label>
+            </div>
+            <p className={`text-[10px] mt-2 ${invalidStart || invalidEnd || invalidRange ? 'text-red-400' : 'text-slate-500'}`}>
+              {invalidRange
+                ? t('processing.trim.invalidRange', { start: formatTimecode(startSeconds!) })
+                : t('processing.trim.hint')}
+            </p>
+          </div>
+
+          <p className="text-[10px] text-slate-500">{t('processing.hint')}</p>
+        </div>
+
+        <div className="p-4 border-t border-white/5 flex items-center justify-between gap-2">
+          <span className="text-[10px] text-slate-500 font-mono">{describeProcessing(request)}</span>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 rounded-xl text-xs font-bold text-slate-400 hover:text-white hover:bg-white/5">
+              {t('tags.cancel')}
+            </button>
+            <button
+              onClick={() => onStart(request)}
+              disabled={!canStart}
+              className="px-5 py-2 rounded-xl bg-gradient-to-r from-gradient-start to-gradient-end text-white text-xs font-bold shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t('processing.start')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import React from 'react';
+import { saveBlob } from '../services/files';
+import { processingManager, useProcessingJob, isActiveProcessing } from '../services/processing';
+import { useI18n, MessageKey } from '../services/i18n';
+import { ProcessingState } from '../types';
+import { ScissorsIcon, LoaderIcon, DownloadIcon } from './Icons';
+import { ErrorNotice } from './ErrorNotice';
+
+interface ProcessingStatusProps {
+  sourceId: string;
+}
+
+const STATES: Record<ProcessingState, MessageKey> = {
+  queued: 'processing.state.queued',
+  running: 'processing.state.running',
+  completed: 'processing.state.completed',
+  failed: 'processing.state.failed',
+  cancelled: 'processing.state.cancelled'
+};
+
+/** Latest post-processing job of a queue card or library video; nothing until one is started. */
+export const ProcessingStatus: React.FC<ProcessingStatusProps> = ({ sourceId }) => {
+  const { t } = useI18n();
+  const job = useProcessingJob(sourceId);
+  if (!job) return null;
+  const active = isActiveProcessing(job);
+
+  return (
+    <div className="mt-3 pt-3 border-t border-white/5 space-y-2">
+      <div className="flex items-center justify-between gap-3 text-[10px]">
+        <span className="flex items-center gap-1.5 min-w-0 text-slate-400">
+          {active ? <LoaderIcon className="w-3 h-3 animate-spin text-primary-400" /> : <ScissorsIcon className="w-3 h-3 text-primary-400" />}
+          <span className="font-bold uppercase tracking-wider">{t(STATES[job.state])}</span>
+          <span className="font-mono text-slate-500 truncate">{job.label}</span>
+        </span>
+        <span className="flex items-center gap-2 flex-shrink-0">
+          {job.state === 'running' && <span className="font-mono text-primary-400">{job.progress}%</span>}
+          {job.state === 'completed' && job.output && (
+            <button
+              onClick={() => saveBlob(job.output!, job.outputName)}
+              className="flex items-center gap-1 px-2 py-1 rounded-lg bg-green-500/10 text-green-400 hover:bg-green-500/20 font-bold"
+              title={job.outputName}
+            >
+              <DownloadIcon className="w-3 h-3" />
+              {t('processing.save')}
+            </button>
+          )}
+          {active ? (
+            <button onClick={() => processingManager.cancel(job.id)} className="text-slate-500 hover:text-red-400 font-bold">{t('processing.cancel')}</button>
+          ) : (
+            <button onClick={() => processingManager.remove(job.id)} className="text-slate-600 hover:text-red-400" title={t('processing.dismiss')}>✕</button>
+          )}
+        </span>
+      </div>
+      {active && (
+        <div className="h-1 w-full bg-slate-800 rounded-full overflow-hidden">
+          <div
+            className={`h-full bg-gradient-to-r from-gradient-start to-gradient-end transition-all duration-300 ${job.state === 'queued' ? 'opacity-30' : ''}`}
+            style={{ width: `${job.progress}%` }}
+          />
+        </div>
+      )}
+      {job.state === 'failed' && job.error && <ErrorNotice error={job.error} compact />}
+    </div>
+  );
+};
@@ -0,0 +1,367 @@
+import React, { useState, useEffect } from 'react';
+import {
+  getCacheStats, resetCacheStats, countCachedAnalyses, clearAnalysisCache, subscribeAnalysisCache,
+  loadTtlHours, saveTtlHours, TTL_OPTIONS_HOURS
+} from '../services/analysisCache';
+import { getGeminiCalls, clearGeminiCalls, getGeminiQueueState, subscribeGeminiCalls, GeminiCallRecord } from '../services/geminiClient';
+import {
+  loadNotificationPrefs, saveNotificationPrefs, getDesktopPermission, requestNotificationPermission,
+  NOTIFICATION_EVENTS, NotificationPrefs
+} from '../services/notifications';
+import {
+  loadIngestPrefs, saveIngestPrefs, canRegisterProtocol, registerProtocol, buildBookmarklet, getAppUrl, PROTOCOL_SCHEME, IngestPrefs
+} from '../services/ingest';
+import {
+  loadFileNameTemplate, saveFileNameTemplate, renderFileName, findUnknownPlaceholders,
+  FILE_NAME_PLACEHOLDERS, DEFAULT_FILE_NAME_TEMPLATE, FileNameValues
+} from '../services/fileNames';
+import { useI18n, MessageKey } from '../services/i18n';
+import { NotificationEvent } from '../types';
+import { SettingsIcon, ActivityIcon, SparklesIcon, BellIcon, LinkIcon, FileIcon } from './Icons';
+import { BookmarkletLink } from './BookmarkletLink';
+
+interface SettingsPanelProps {
+  onClose: () => void;
+}
+
+const OUTCOMES: Record<GeminiCallRecord['outcome'], { label: MessageKey; className: string }> = {
+  ok: { label: 'settings.gemini.outcome.ok', className: 'text-emerald-400' },
+  error: { label: 'settings.gemini.outcome.error', className: 'text-red-400' },
+  aborted: { label: 'settings.gemini.outcome.aborted', className: 'text-slate-500' }
+};
+
+const EVENT_LABELS: Record<NotificationEvent, MessageKey> = {
+  itemCompleted: 'notifications.event.itemCompleted',
+  batchCompleted: 'notifications.event.batchCompleted',
+  error: 'notifications.event.error',
+  generationCompleted: 'notifications.event.generationCompleted'
+};
+
+// What the template preview is rendered with: a single video and an album track
+const FILE_NAME_SAMPLES: FileNameValues[] = [
+  { title: 'Never Gonna Give You Up', platform: 'YouTube', id: 'dQw4w9WgXcQ', type: 'video', date: '2026-01-31', ext: 'mp4' },
+  {
+    title: 'Bohemian Rhapsody', artist: 'Queen', album: 'A Night at the Opera', platform: 'Spotify', id: '7tFiyTwD0nx5a1eklYtX2J',
+    playlist: 'A Night at the Opera', index: 11, type: 'audio', date: '2026-01-31', ext: 'mp3'
+  }
+];
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose }) => {
+  const { t, formatNumber } = useI18n();
+  const [ttlHours, setTtlHours] = useState(loadTtlHours);
+  const [stats, setStats] = useState(getCacheStats);
+  const [entries, setEntries] = useState<number | null>(null);
+
+  useEffect(() => {
+    const refresh = () => {
+      setStats(getCacheStats());
+      countCachedAnalyses()
+        .then(setEntries)
+        .catch(err => console.error('Failed to count cached analyses', err));
+    };
+    refresh();
+    return subscribeAnalysisCache(refresh);
+  }, []);
+
+  const [calls, setCalls] = useState(getGeminiCalls);
+  const [queueState, setQueueState] = useState(getGeminiQueueState);
+
+  useEffect(() => subscribeGeminiCalls(() => {
+    setCalls(getGeminiCalls());
+    setQueueState(getGeminiQueueState());
+  }), []);
+
+  const [notificationPrefs, setNotificationPrefs] = useState(loadNotificationPrefs);
+  const [permission, setPermission] = useState(getDesktopPermission);
+
+  const updateNotificationPrefs = (changes: Partial<NotificationPrefs>) => {
+    const next = { ...notificationPrefs, ...changes };
+    setNotificationPrefs(next);
+    saveNotificationPrefs(next);
+  };
+
+  const handleEnableDesktop = async () => {
+    await requestNotificationPermission();
+    setPermission(getDesktopPermission());
+  };
+
+  const [ingestPrefs, setIngestPrefs] = useState(loadIngestPrefs);
+  const [protocolRequested, setProtocolRequested] = useState(false);
+
+  const updateIngestPrefs = (changes: Partial<IngestPrefs>) => {
+    const next = { ...ingestPrefs, ...changes };
+    setIngestPrefs(next);
+    saveIngestPrefs(next);
+  };
+
+  const handleRegisterProtocol = () => {
+    try {
+      registerProtocol();
+      setProtocolRequested(true);
+    } catch (err) {
+      console.error('Failed to register protocol handler', err);
+    }
+  };
+
+  const [fileNameTemplate, setFileNameTemplate] = useState(loadFileNameTemplate);
+  const unknownPlaceholders = findUnknownPlaceholders(fileNameTemplate);
+
+  const updateFileNameTemplate = (template: string) => {
+    setFileNameTemplate(template);
+    saveFileNameTemplate(template);
+  };
+
+  const handleTtlChange = (hours: number) => {
+    setTtlHours(hours);
+    saveTtlHours(hours);
+  };
+
+  const lookups = stats.hits + stats.misses;
+  const hitRate = lookups > 0 ? stats.hits / lookups : 0;
+
+  const completed = calls.filter(call => call.outcome === 'ok');
+  const averageLatency = completed.length > 0
+    ? completed.reduce((sum, call) => sum + call.latencyMs, 0) / completed.length
+    : 0;
+  const totalTokens = calls.reduce((sum, call) => sum + (call.totalTokens ?? 0), 0);
+
+  const sectionLabel = "block text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-2";
+  const toggle = (checked: boolean, onChange: (checked: boolean) => void, label: string) => (
+    <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+      <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} className="accent-primary-500" />
+      {label}
+    </label>
+  );
+  const stat = (label: string, value: string) => (
+    <div className="bg-slate-950/60 border border-white/5 rounded-xl p-3">
+      <span className="block text-[10px] text-slate-500 uppercase tracking-wider">{label}</span>
+      <span className="block text-lg font-bold text-white font-mono">{value}</span>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+      <div
+        className="glass-panel bg-slate-900/95 w-full max-w-lg max-h-[85vh] overflow-y-auto rounded-3xl border border-white/10 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-5 border-b border-white/5 flex items-start justify-between gap-4">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <SettingsIcon className="w-5 h-5 text-primary-400" />
+            {t('settings.title')}
+          </h3>
+          <button onClick={onClose} className="text-slate-600 hover:text-red-400">✕</button>
+        </div>
+
+        <div className="p-5 space-y-5">
+          {/* Notifications */}
+          <div>
+            <span className={`${sectionLabel} flex items-center gap-1`}>
+              <BellIcon className="w-3 h-3" />
+              {t('settings.notifications.title')}
+            </span>
+            <p className="text-xs text-slate-400 mb-3">{t('settings.notifications.description')}</p>
+
+            <div className="grid grid-cols-2 gap-2 mb-3">
+              {NOTIFICATION_EVENTS.map(event => (
+                <React.Fragment key={event}>
+                  {toggle(
+                    notificationPrefs.events[event],
+                    (checked) => updateNotificationPrefs({ events: { ...notificationPrefs.events, [event]: checked } }),
+                    t(EVENT_LABELS[event])
+                  )}
+                </React.Fragment>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                {toggle(notificationPrefs.desktop, (desktop) => updateNotificationPrefs({ desktop }), t('settings.notifications.desktop'))}
+                {notificationPrefs.desktop && permission === 'default' && (
+                  <button onClick={handleEnableDesktop} className="text-[10px] font-bold text-primary-400 hover:text-white uppercase tracking-wider">
+                    {t('settings.notifications.enable')}
+                  </button>
+                )}
+              </div>
+              {notificationPrefs.desktop && (permission === 'denied' || permission === 'unsupported') && (
+                <p className="text-[10px] text-amber-400/80">{t('settings.notifications.denied')}</p>
+              )}
+              {toggle(notificationPrefs.sound, (sound) => updateNotificationPrefs({ sound }), t('settings.notifications.sound'))}
+            </div>
+          </div>
+
+          {/* Links from outside the app */}
+          <div className="pt-5 border-t border-white/5">
+            <span className={`${sectionLabel} flex items-center gap-1`}>
+              <LinkIcon className="w-3 h-3" />
+              {t('settings.ingest.title')}
+            </span>
+            <p className="text-xs text-slate-400 mb-3">{t('settings.ingest.description')}</p>
+
+            {toggle(ingestPrefs.autoStart, (autoStart) => updateIngestPrefs({ autoStart }), t('settings.ingest.autoStart'))}
+
+            <div className="mt-4">
+              <span className="block text-[10px] text-slate-500 mb-2">{t('settings.ingest.bookmarklet')}</span>
+              <div className="flex flex-wrap gap-2">
+                <BookmarkletLink code={buildBookmarklet(getAppUrl())} label={t('settings.ingest.bookmarklet.video')} title={t('settings.ingest.bookmarklet.hint')} />
+                <BookmarkletLink code={buildBookmarklet(getAppUrl(), { type: 'audio' })} label={t('settings.ingest.bookmarklet.audio')} title={t('settings.ingest.bookmarklet.hint')} />
+              </div>
+            </div>
+
+            {canRegisterProtocol() && (
+              <div className="flex items-center justify-between gap-2 mt-4">
+                <span className="text-[10px] text-slate-500">
+                  {protocolRequested ? t('settings.ingest.protocol.requested') : t('settings.ingest.protocol', { scheme: PROTOCOL_SCHEME })}
+                </span>
+                <button onClick={handleRegisterProtocol} className="text-[10px] font-bold text-primary-400 hover:text-white uppercase tracking-wider flex-shrink-0">
+                  {t('settings.ingest.protocol.register')}
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* File names */}
+          <div className="pt-5 border-t border-white/5">
+            <span className={`${sectionLabel} flex items-center gap-1`}>
+              <FileIcon className="w-3 h-3" />
+              {t('settings.fileNames.title')}
+            </span>
+            <p className="text-xs text-slate-400 mb-3">{t('settings.fileNames.description')}</p>
+
+            <div className="flex gap-2">
+              <input
+                value={fileNameTemplate}
+                onChange={(e) => updateFileNameTemplate(e.target.value)}
+                onBlur={() => !fileNameTemplate.trim() && setFileNameTemplate(DEFAULT_FILE_NAME_TEMPLATE)}
+                spellCheck={false}
+                className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white font-mono focus:outline-none focus:border-primary-500"
+                aria-label={t('settings.fileNames.title')}
+              />
+              {fileNameTemplate !== DEFAULT_FILE_NAME_TEMPLATE && (
+                <button
+                  onClick={() => updateFileNameTemplate(DEFAULT_FILE_NAME_TEMPLATE)}
+                  className="text-[10px] font-bold text-slate-500 hover:text-white uppercase tracking-wider flex-shrink-0"
+                >
+                  {t('settings.fileNames.reset')}
+                </button>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-1 mt-2">
+              {FILE_NAME_PLACEHOLDERS.map(name => (
+                <button
+                  key={name}
+                  onClick={() => updateFileNameTemplate(`${fileNameTemplate}{${name}}`)}
+                  className="px-2 py-0.5 rounded-md border border-white/10 text-[10px] font-mono text-slate-400 hover:text-white hover:bg-white/5"
+                  title={t('settings.fileNames.insert')}
+                >
+                  {`{${name}}`}
+                </button>
+              ))}
+            </div>
+            <p className="text-[10px] text-slate-500 mt-2">{t('settings.fileNames.syntax')}</p>
+            {unknownPlaceholders.length > 0 && (
+              <p className="text-[10px] text-amber-400 mt-1">{t('settings.fileNames.unknown', { names: unknownPlaceholders.join(', ') })}</p>
+            )}
+
+            <span className="block text-[10px] text-slate-500 mt-3 mb-1">{t('settings.fileNames.preview')}</span>
+            <div className="rounded-xl border border-white/5 divide-y divide-white/5">
+              {FILE_NAME_SAMPLES.map(sample => (
+                <p key={sample.id} className="px-3 py-1.5 text-[10px] font-mono text-slate-300 break-all">
+                  {renderFileName(fileNameTemplate || DEFAULT_FILE_NAME_TEMPLATE, sample)}
+                </p>
+              ))}
+            </div>
+          </div>
+
+          {/* Analysis cache */}
+          <div className="pt-5 border-t border-white/5">
+            <span className={`${sectionLabel} flex items-center gap-1`}>
+              <ActivityIcon className="w-3 h-3" />
+              {t('settings.cache.title')}
+            </span>
+            <p className="text-xs text-slate-400 mb-3">{t('settings.cache.description')}</p>
+
+            <label className="flex items-center justify-between gap-3 text-xs text-slate-300 mb-4">
+              {t('settings.cache.ttl')}
+              <select
+                value={ttlHours}
+                onChange={(e) => handleTtlChange(Number(e.target.value))}
+                className="bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:border-primary-500"
+              >
+                {TTL_OPTIONS_HOURS.map(hours => (
+                  <option key={hours} value={hours}>
+                    {hours < 24 ? t('settings.cache.hours', { count: hours }) : t('settings.cache.days', { count: hours / 24 })}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {stat(t('settings.cache.hits'), formatNumber(stats.hits))}
+              {stat(t('settings.cache.misses'), formatNumber(stats.misses))}
+              {stat(t('settings.cache.deduplicated'), formatNumber(stats.deduplicated))}
+              {stat(t('settings.cache.hitRate'), formatNumber(hitRate, { style: 'percent', maximumFractionDigits: 0 }))}
+            </div>
+
+            <div className="flex items-center justify-between gap-2 mt-3">
+              <span className="text-[10px] text-slate-500">
+                {entries === null ? '…' : t('settings.cache.entries', { count: entries })}
+              </span>
+              <div className="flex gap-3">
+                <button onClick={resetCacheStats} className="text-[10px] font-bold text-slate-500 hover:text-white uppercase tracking-wider">
+                  {t('settings.cache.resetStats')}
+                </button>
+                <button
+                  onClick={() => clearAnalysisCache().catch(err => console.error('Failed to clear analysis cache', err))}
+                  className="text-[10px] font-bold text-slate-600 hover:text-red-400 uppercase tracking-wider"
+                >
+                  {t('settings.cache.clear')}
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {/* Gemini requests */}
+          <div className="pt-5 border-t border-white/5">
+            <span className={`${sectionLabel} flex items-center gap-1`}>
+              <SparklesIcon className="w-3 h-3" />
+              {t('settings.gemini.title')}
+            </span>
+            <p className="text-xs text-slate-400 mb-3">
+              {t('settings.gemini.queue', { active: queueState.active, waiting: queueState.waiting })}
+            </p>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {stat(t('settings.gemini.calls'), formatNumber(calls.length))}
+              {stat(t('settings.gemini.failed'), formatNumber(calls.filter(call => call.outcome === 'error').length))}
+              {stat(t('settings.gemini.latency'), `${formatNumber(averageLatency / 1000, { maximumFractionDigits: 1 })} s`)}
+              {stat(t('settings.gemini.tokens'), formatNumber(totalTokens))}
+            </div>
+
+            {calls.length > 0 && (
+              <div className="mt-3 max-h-48 overflow-y-auto rounded-xl border border-white/5 divide-y divide-white/5">
+                {calls.slice(0, 50).map(call => (
+                  <div key={call.id} className="flex items-center gap-3 px-3 py-1.5 text-[10px] font-mono">
+                    <span className={`w-2 h-2 rounded-full shrink-0 bg-current ${OUTCOMES[call.outcome].className}`} title={t(OUTCOMES[call.outcome].label)} />
+                    <span className="flex-1 min-w-0 truncate text-slate-300">{call.operation}</span>
+                    {call.attempts > 1 && (
+                      <span className="text-amber-400">{t('settings.gemini.attempts', { count: call.attempts })}</span>
+                    )}
+                    <span className="text-slate-500">{call.totalTokens !== undefined ? t('settings.gemini.tokenCount', { count: call.totalTokens }) : '—'}</span>
+                    <span className="w-14 text-right text-slate-400">{formatNumber(call.latencyMs)} ms</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex justify-end mt-3">
+              <button onClick={clearGeminiCalls} className="text-[10px] font-bold text-slate-500 hover:text-white uppercase tracking-wider">
+                {t('settings.gemini.clear')}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,205 @@
+import React, { useState, useEffect } from 'react';
+import {
+  fetchSubtitleTracks, loadSubtitlePrefs, rememberSubtitlePrefs, canEmbedSubtitles, getLanguageName, isSameTrack,
+  SUBTITLE_FORMATS, SubtitleFormat, SubtitleMode, SubtitleSelection, SubtitleTrack
+} from '../services/subtitles';
+import { getDefaultFormat } from '../services/formats';
+import { BatchItem } from '../types';
+import { CaptionsIcon, LoaderIcon } from './Icons';
+import { useI18n } from '../services/i18n';
+
+interface SubtitlePickerProps {
+  item: BatchItem;
+  onTracksLoaded: (tracks: SubtitleTrack[]) => void;
+  // No selection means no subtitles for the item
+  onApply: (selection: SubtitleSelection | undefined) => void;
+  onClose: () => void;
+}
+
+// Automatic tracks include a machine translation into every language; past this many a filter helps
+const FILTER_THRESHOLD = 12;
+
+export const SubtitlePicker: React.FC<SubtitlePickerProps> = ({ item, onTracksLoaded, onApply, onClose }) => {
+  const { t } = useI18n();
+  const [prefs] = useState(loadSubtitlePrefs);
+  const [tracks, setTracks] = useState<SubtitleTrack[] | undefined>(item.result?.subtitles);
+  const [loading, setLoading] = useState(!item.result?.subtitles);
+  const [loadError, setLoadError] = useState(false);
+  const [selected, setSelected] = useState<SubtitleSelection['tracks']>(item.subtitles?.tracks ?? []);
+  const [format, setFormat] = useState<SubtitleFormat>(item.subtitles?.format ?? prefs.format);
+  const [mode, setMode] = useState<SubtitleMode>(item.subtitles?.mode ?? prefs.mode);
+  const [filter, setFilter] = useState('');
+  const embeddable = canEmbedSubtitles(item);
+
+  useEffect(() => {
+    if (item.result?.subtitles) return;
+    let active = true;
+    fetchSubtitleTracks(item.url)
+      .then(result => {
+        if (!active) return;
+        setTracks(result);
+        onTracksLoaded(result);
+      })
+      .catch(err => {
+        console.error('Failed to load subtitles', err);
+        if (active) setLoadError(true);
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+    return () => { active = false; };
+  }, []);
+
+  const isSelected = (track: SubtitleTrack) => selected.some(s => isSameTrack(s, track));
+
+  const toggle = (track: SubtitleTrack) => {
+    setSelected(prev => isSelected(track)
+      ? prev.filter(s => !isSameTrack(s, track))
+      : [...prev, { language: track.language, automatic: track.automatic }]);
+  };
+
+  const apply = () => {
+    rememberSubtitlePrefs({ format, mode });
+    onApply(selected.length > 0 ? { tracks: selected, format, mode } : undefined);
+  };
+
+  const matchesFilter = (track: SubtitleTrack) => {
+    const query = filter.trim().toLowerCase();
+    return !query || track.language.toLowerCase().includes(query) || getLanguageName(track).toLowerCase().includes(query);
+  };
+
+  const manual = (tracks ?? []).filter(track => !track.automatic);
+  const automatic = (tracks ?? []).filter(track => track.automatic);
+
+  const chip = (active: boolean, disabled = false) =>
+    `px-3 py-1.5 rounded-lg text-xs font-bold border transition-all ${
+      active
+        ? 'bg-primary-500 border-primary-500 text-slate-900 shadow-lg'
+        : disabled
+          ? 'border-white/5 text-slate-700 cursor-not-allowed'
+          : 'border-white/10 text-slate-400 hover:text-white hover:bg-white/5'
+    }`;
+
+  const sectionLabel = "block text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-2";
+
+  const renderTracks = (list: SubtitleTrack[]) => (
+    <div className="flex flex-wrap gap-2 max-h-40 overflow-y-auto">
+      {list.filter(track => isSelected(track) || matchesFilter(track)).map(track => (
+        <button
+          key={`${track.language}-${track.automatic}`}
+          onClick={() => toggle(track)}
+          className={chip(isSelected(track))}
+          title={track.language}
+        >
+          {getLanguageName(track)}
+          {track.language.endsWith('-orig') && <span className="ml-1 font-normal opacity-70">({t('subtitles.original')})</span>}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+      <div
+        className="glass-panel bg-slate-900/95 w-full max-w-lg max-h-[85vh] overflow-y-auto rounded-3xl border border-white/10 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-5 border-b border-white/5 flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h3 className="text-lg font-bold text-white flex items-center gap-2">
+              <CaptionsIcon className="w-5 h-5 text-primary-400" />
+              {t('subtitles.title')}
+            </h3>
+            <p className="text-xs text-slate-500 truncate">{item.result?.summary || item.url}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-600 hover:text-red-400">✕</button>
+        </div>
+
+        <div className="p-5 space-y-5">
+          {loading && (
+            <p className="text-xs text-slate-500 flex items-center gap-2">
+              <LoaderIcon className="w-3 h-3 animate-spin" />
+              {t('subtitles.loading')}
+            </p>
+          )}
+          {loadError && (
+            <p className="text-xs text-amber-400/80">{t('subtitles.loadFailed')}</p>
+          )}
+          {tracks && tracks.length === 0 && (
+            <p className="text-xs text-slate-500">{t('subtitles.none')}</p>
+          )}
+
+          {(tracks?.length ?? 0) > FILTER_THRESHOLD && (
+            <input
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder={t('subtitles.filter')}
+              className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-1.5 text-xs text-white placeholder-slate-600 focus:outline-none focus:border-primary-500"
+            />
+          )}
+
+          {manual.length > 0 && (
+            <div>
+              <span className={sectionLabel}>{t('subtitles.manual')}</span>
+              {renderTracks(manual)}
+            </div>
+          )}
+          {automatic.length > 0 && (
+            <div>
+              <span className={sectionLabel}>{t('subtitles.automatic')}</span>
+              {renderTracks(automatic)}
+            </div>
+          )}
+
+          {(tracks?.length ?? 0) > 0 && (
+            <>
+              <div>
+                <span className={sectionLabel}>{t('subtitles.mode')}</span>
+                <div className="flex gap-2">
+                  <button onClick={() => setMode('sidecar')} className={chip(mode === 'sidecar' || !embeddable)}>{t('subtitles.mode.sidecar')}</button>
+                  <button
+                    onClick={() => setMode('embed')}
+                    disabled={!embeddable}
+                    className={chip(mode === 'embed' && embeddable, !embeddable)}
+                    title={embeddable ? undefined : t('subtitles.mode.embed.unsupported')}
+                  >
+                    {t('subtitles.mode.embed')}
+                  </button>
+                </div>
+              </div>
+              {/* MP4 only holds its own text format; the companion converts to it */}
+              {!(mode === 'embed' && embeddable && (item.format || getDefaultFormat('video')).container === 'mp4') && (
+                <div>
+                  <span className={sectionLabel}>{t('subtitles.format')}</span>
+                  <div className="flex gap-2">
+                    {SUBTITLE_FORMATS.map(option => (
+                      <button key={option} onClick={() => setFormat(option)} className={chip(format === option)}>
+                        {option === 'vtt' ? 'WebVTT' : option.toUpperCase()}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <p className="text-[10px] text-slate-500">
+                {mode === 'embed' && embeddable ? t('subtitles.hint.embed') : t('subtitles.hint.sidecar')}
+              </p>
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-white/5 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 rounded-xl text-xs font-bold text-slate-400 hover:text-white hover:bg-white/5">
+            {t('subtitles.cancel')}
+          </button>
+          <button
+            onClick={apply}
+            disabled={loading}
+            className="px-5 py-2 rounded-xl bg-gradient-to-r from-gradient-start to-gradient-end text-white text-xs font-bold shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('subtitles.apply', { count: selected.length })}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
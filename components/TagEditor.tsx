@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { MediaTags, defaultTags } from '../services/tags';
+import { classifyError } from '../services/errors';
+import { useI18n, MessageKey } from '../services/i18n';
+import { BatchItem, ErrorInfo } from '../types';
+import { TagIcon, MusicIcon, LoaderIcon } from './Icons';
+import { ErrorNotice } from './ErrorNotice';
+
+interface TagEditorProps {
+  item: BatchItem;
+  // Rejects when the tags could not be written (finished files are retagged on the companion)
+  onSave: (tags: MediaTags) => Promise<void>;
+  onClose: () => void;
+}
+
+// Shown next to the cover
+const MAIN_FIELDS: { key: 'title' | 'artist'; label: MessageKey }[] = [
+  { key: 'title', label: 'tags.field.title' },
+  { key: 'artist', label: 'tags.field.artist' }
+];
+
+const toNumber = (value: string) => {
+  const number = parseInt(value, 10);
+  return Number.isInteger(number) && number > 0 ? number : undefined;
+};
+
+export const TagEditor: React.FC<TagEditorProps> = ({ item, onSave, onClose }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<MediaTags>(() => item.tags ?? defaultTags(item));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<ErrorInfo | null>(null);
+  const downloaded = item.status === 'completed';
+
+  const setField = <K extends keyof MediaTags>(key: K, value: MediaTags[K]) =>
+    setDraft(prev => ({ ...prev, [key]: value }));
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(draft);
+    } catch (err) {
+      setError(classifyError(err, 'download_failed').toInfo());
+      setSaving(false);
+    }
+  };
+
+  const input = "w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-primary-500";
+  const label = "block text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-1";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+      <div
+        className="glass-panel bg-slate-900/95 w-full max-w-lg max-h-[85vh] overflow-y-auto rounded-3xl border border-white/10 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-5 border-b border-white/5 flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h3 className="text-lg font-bold text-white flex items-center gap-2">
+              <TagIcon className="w-5 h-5 text-primary-400" />
+              {t('tags.editor.title')}
+            </h3>
+            <p className="text-xs text-slate-500 truncate">{item.url}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-600 hover:text-red-400">✕</button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <div className="flex gap-4">
+            <div className="w-24 h-24 rounded-xl bg-slate-800 border border-white/10 flex-shrink-0 overflow-hidden flex items-center justify-center">
+              {draft.coverUrl ? (
+                <img src={draft.coverUrl} className="w-full h-full object-cover" />
+              ) : (
+                <MusicIcon className="w-8 h-8 text-slate-600" />
+              )}
+            </div>
+            <div className="flex-1 min-w-0 space-y-3">
+              {MAIN_FIELDS.map(({ key, label: fieldLabel }) => (
+                <label key={key} className="block">
+                  <span className={label}>{t(fieldLabel)}</span>
+                  <input value={draft[key] ?? ''} onChange={(e) => setField(key, e.target.value)} className={input} />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <label className="block">
+            <span className={label}>{t('tags.field.album')}</span>
+            <input value={draft.album ?? ''} onChange={(e) => setField('album', e.target.value)} className={input} />
+          </label>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className={label}>{t('tags.field.track')}</span>
+              <input
+                type="number"
+                min={1}
+                value={draft.track ?? ''}
+                onChange={(e) => setField('track', toNumber(e.target.value))}
+                className={input}
+              />
+            </label>
+            <label className="block">
+              <span className={label}>{t('tags.field.year')}</span>
+              <input
+                type="number"
+                min={1}
+                max={9999}
+                value={draft.year ?? ''}
+                onChange={(e) => setField('year', toNumber(e.target.value))}
+                className={input}
+              />
+            </label>
+          </div>
+
+          <label className="block">
+            <span className={label}>{t('tags.field.cover')}</span>
+            <input
+              value={draft.coverUrl ?? ''}
+              onChange={(e) => setField('coverUrl', e.target.value.trim() || undefined)}
+              placeholder="https://..."
+              className={`${input} font-mono text-xs`}
+              spellCheck={false}
+            />
+          </label>
+
+          <p className="text-[10px] text-slate-500">
+            {downloaded ? t('tags.editor.hint.downloaded') : t('tags.editor.hint.pending')}
+          </p>
+
+          {error && <ErrorNotice error={error} />}
+        </div>
+
+        <div className="p-4 border-t border-white/5 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 rounded-xl text-xs font-bold text-slate-400 hover:text-white hover:bg-white/5">
+            {t('tags.cancel')}
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-5 py-2 rounded-xl bg-gradient-to-r from-gradient-start to-gradient-end text-white text-xs font-bold shadow-lg disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            {saving && <LoaderIcon className="w-3.5 h-3.5 animate-spin" />}
+            {downloaded ? t('tags.saveFile') : t('tags.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useState, useEffect } from 'react';
+import { THEME_COLORS, ThemeColor, isHexColor, exportThemes } from '../services/themes';
+import { saveBlob } from '../services/files';
+import { useI18n, MessageKey } from '../services/i18n';
+import { ThemeConfig } from '../types';
+import { WandIcon, DownloadIcon, SparklesIcon } from './Icons';
+
+interface ThemeEditorProps {
+  theme: ThemeConfig;
+  // Called on every edit so the whole app previews the draft
+  onPreview: (theme: ThemeConfig) => void;
+  onSave: (theme: ThemeConfig) => void;
+  onClose: () => void;
+}
+
+const COLOR_LABELS: Record<ThemeColor, MessageKey> = {
+  primary: 'theme.editor.primary',
+  secondary: 'theme.editor.secondary',
+  gradientFrom: 'theme.editor.gradientFrom',
+  gradientTo: 'theme.editor.gradientTo',
+  glow: 'theme.editor.glow'
+};
+
+export const ThemeEditor: React.FC<ThemeEditorProps> = ({ theme, onPreview, onSave, onClose }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<ThemeConfig>(theme);
+  // Hex fields are edited as text and only committed once they are valid
+  const [hexInputs, setHexInputs] = useState<Record<ThemeColor, string>>(
+    () => Object.fromEntries(THEME_COLORS.map(key => [key, theme[key]])) as Record<ThemeColor, string>
+  );
+
+  useEffect(() => {
+    onPreview(draft);
+  }, [draft]);
+
+  const setColor = (key: ThemeColor, value: string) => {
+    setHexInputs(prev => ({ ...prev, [key]: value }));
+    if (isHexColor(value)) setDraft(prev => ({ ...prev, [key]: value.toLowerCase() }));
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim()) return;
+    onSave({ ...draft, name: draft.name.trim() });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+      <div
+        className="glass-panel bg-slate-900/95 w-full max-w-lg max-h-[85vh] overflow-y-auto rounded-3xl border border-white/10 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-5 border-b border-white/5 flex items-start justify-between gap-4">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <WandIcon className="w-5 h-5 text-primary-400" />
+            {t('theme.editor.title')}
+          </h3>
+          <button onClick={onClose} className="text-slate-600 hover:text-red-400">✕</button>
+        </div>
+
+        <div className="p-5 space-y-5">
+          <div>
+            <span className="block text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-2">{t('theme.editor.name')}</span>
+            <input
+              value={draft.name}
+              onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+              className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-primary-500"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {THEME_COLORS.map(key => (
+              <label key={key} className="flex items-center gap-3 bg-slate-950/60 border border-white/5 rounded-xl p-2">
+                <input
+                  type="color"
+                  value={draft[key]}
+                  onChange={(e) => setColor(key, e.target.value)}
+                  className="w-9 h-9 rounded-lg bg-transparent cursor-pointer"
+                />
+                <span className="flex-1 min-w-0">
+                  <span className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider">{t(COLOR_LABELS[key])}</span>
+                  <input
+                    value={hexInputs[key]}
+                    onChange={(e) => setColor(key, e.target.value.trim())}
+                    className={`w-full bg-transparent font-mono text-xs focus:outline-none ${isHexColor(hexInputs[key]) ? 'text-slate-300' : 'text-red-400'}`}
+                    spellCheck={false}
+                  />
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {/* Preview (the rest of the app follows the draft too) */}
+          <div className="pt-4 border-t border-white/5">
+            <span className="block text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-3">{t('theme.editor.preview')}</span>
+            <div className="rounded-2xl bg-slate-950 border border-white/5 p-4 flex flex-wrap items-center gap-3">
+              <div
+                className="w-10 h-10 bg-gradient-to-br from-gradient-start to-gradient-end rounded-xl flex items-center justify-center font-bold text-white brand-font"
+                style={{ boxShadow: '0 10px 25px -5px rgb(var(--theme-glow) / 0.25)' }}
+              >
+                V
+              </div>
+              <button className="px-4 py-2 rounded-xl bg-gradient-to-r from-gradient-start to-gradient-end text-white text-xs font-bold shadow-lg flex items-center gap-2">
+                <SparklesIcon className="w-3.5 h-3.5" />
+                {t('theme.editor.previewButton')}
+              </button>
+              <span className="text-[10px] px-1.5 py-0.5 rounded border border-primary-500/30 bg-primary-500/10 text-primary-400 font-mono">PRO</span>
+              <span className="px-3 py-1.5 rounded-lg text-xs font-bold bg-primary-500 text-slate-900">{t('theme.editor.previewActive')}</span>
+              <span className="w-6 h-6 rounded-full bg-secondary-500/60" />
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-white/5 flex items-center justify-between gap-2">
+          <button
+            onClick={() => saveBlob(exportThemes([draft]), `vortexmedia-tema-${draft.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'custom'}.json`)}
+            className="flex items-center gap-1 px-3 py-2 rounded-xl text-xs font-bold text-slate-400 hover:text-white hover:bg-white/5"
+          >
+            <DownloadIcon className="w-3.5 h-3.5" />
+            JSON
+          </button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 rounded-xl text-xs font-bold text-slate-400 hover:text-white hover:bg-white/5">
+              {t('theme.editor.cancel')}
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!draft.name.trim()}
+              className="px-5 py-2 rounded-xl bg-gradient-to-r from-gradient-start to-gradient-end text-white text-xs font-bold shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t('theme.editor.save')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import React, { useEffect } from 'react';
+import { useNotifications, dismissToast, openNotification } from '../services/notifications';
+import { useI18n, translateStored } from '../services/i18n';
+import { AppNotification } from '../types';
+import { NotificationIcon } from './NotificationIcon';
+
+const TOAST_MS = 6000;
+const ERROR_TOAST_MS = 10000;
+
+const Toast: React.FC<{ notification: AppNotification }> = ({ notification }) => {
+  const { t } = useI18n();
+
+  useEffect(() => {
+    const timer = setTimeout(() => dismissToast(notification.id), notification.event === 'error' ? ERROR_TOAST_MS : TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [notification.id]);
+
+  return (
+    <div className="glass-panel bg-slate-900/95 border border-white/10 rounded-2xl shadow-2xl p-3 flex items-start gap-3 animate-fade-in pointer-events-auto">
+      <button onClick={() => openNotification(notification)} className="flex items-start gap-3 flex-1 min-w-0 text-left">
+        <NotificationIcon event={notification.event} />
+        <span className="min-w-0">
+          <span className="block text-xs font-bold text-white">{translateStored(notification.title, notification.params)}</span>
+          <span className="block text-[11px] text-slate-400 line-clamp-2 break-words">{translateStored(notification.body, notification.params)}</span>
+        </span>
+      </button>
+      <button onClick={() => dismissToast(notification.id)} className="text-slate-600 hover:text-white text-xs" title={t('notifications.dismiss')}>✕</button>
+    </div>
+  );
+};
+
+/** Bottom-right stack of recent notifications; clicking one opens where it happened. */
+export const Toasts: React.FC = () => {
+  const { toasts } = useNotifications();
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-[60] w-80 max-w-[calc(100vw-2rem)] flex flex-col gap-2 pointer-events-none" role="status" aria-live="polite">
+      {toasts.map(notification => <Toast key={notification.id} notification={notification} />)}
+    </div>
+  );
+};
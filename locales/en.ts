@@ -0,0 +1,357 @@
+import type { Catalog } from '../services/i18n';
+
+export const en: Catalog = {
+  'app.mode.download': 'Download',
+  'app.mode.generate': 'Generate',
+  'app.mode.history': 'History',
+  'app.changeTheme': 'Change Theme',
+  'app.selectTheme': 'Select Theme',
+  'app.language': 'Language',
+  'app.hero.title': 'The Download Vortex.',
+  'app.hero.subtitle': 'Smart media management for creators.',
+  'app.hero.highlight': 'Fast. Universal.',
+  'app.footer.suite': 'Professional Suite.',
+  'app.footer.credits': 'Credits',
+
+  'theme.new': 'New theme',
+  'theme.edit': 'Edit theme',
+  'theme.duplicate': 'Customize a copy',
+  'theme.delete': 'Delete theme',
+  'theme.copyName': '{name} (custom)',
+  'theme.import': 'Import',
+  'theme.export': 'Export',
+  'theme.imported': { one: '{count} theme imported.', other: '{count} themes imported.' },
+  'theme.importFailed': 'Could not read the file. Use a JSON exported from VortexMedia.',
+  'theme.appearance': 'Appearance',
+  'theme.appearance.system': 'System',
+  'theme.appearance.dark': 'Dark',
+  'theme.appearance.light': 'Light',
+  'theme.editor.title': 'Theme editor',
+  'theme.editor.name': 'Name',
+  'theme.editor.primary': 'Primary',
+  'theme.editor.secondary': 'Secondary',
+  'theme.editor.gradientFrom': 'Gradient (start)',
+  'theme.editor.gradientTo': 'Gradient (end)',
+  'theme.editor.glow': 'Glow',
+  'theme.editor.preview': 'Preview',
+  'theme.editor.previewButton': 'Button',
+  'theme.editor.previewActive': 'Active',
+  'theme.editor.cancel': 'Cancel',
+  'theme.editor.save': 'Save theme',
+
+  'phase.starting': 'Starting...',
+  'phase.ready': 'Ready',
+  'phase.queued': 'Queued',
+  'phase.connecting': 'Connecting...',
+  'phase.extractingAudio': 'Extracting HQ audio...',
+  'phase.downloadingVideo': 'Downloading video...',
+  'phase.saved': 'Saved',
+  'phase.paused': 'Paused',
+  'phase.cancelled': 'Cancelled',
+  'phase.resuming': 'Resuming...',
+  'phase.tagging': 'Tagging...',
+  'phase.retrying': 'Retry {attempt}/{max} in {seconds}s',
+
+  'downloader.title': 'Batch & Playlist Manager',
+  'downloader.subtitle': 'Paste single links or whole lists.',
+  'downloader.defaultType': 'Default type for new links',
+  'downloader.placeholder.audio': 'Paste Spotify, SoundCloud or YouTube links here...\n(One per line, playlists are detected automatically)',
+  'downloader.placeholder.video': 'Paste YouTube, TikTok, Instagram links here...\n(Playlist URLs supported)',
+  'downloader.paste': 'Paste',
+  'downloader.analyze': 'Analyze Links',
+  'downloader.offline': 'Offline: analysis is unavailable. Links you add will be analyzed once the connection is back.',
+  'downloader.queue.mixed': 'Mixed Queue',
+  'downloader.queue.audio': 'Audio Queue',
+  'downloader.queue.video': 'Video Queue',
+  'downloader.queue.progress': {
+    one: '{completed}/{count} completed • {percent}% overall',
+    other: '{completed}/{count} completed • {percent}% overall'
+  },
+  'downloader.queue.pause': 'Pause queue',
+  'downloader.queue.resume': 'Resume queue',
+  'downloader.parallel': 'Parallel',
+  'downloader.parallel.hint': 'Simultaneous downloads',
+  'downloader.bundle': 'ZIP',
+  'downloader.bundle.hint': {
+    one: 'Download {count} finished file as a ZIP with its manifest',
+    other: 'Download all {count} finished files as a ZIP with their manifest'
+  },
+  'downloader.downloadAll': 'Download All',
+  'downloader.priority.high': 'Priority: high',
+  'downloader.priority.normal': 'Priority: normal',
+  'downloader.priority.low': 'Priority: low',
+  'downloader.pause': 'Pause',
+  'downloader.resume': 'Resume',
+  'downloader.cancel': 'Cancel',
+  'downloader.retry': 'Retry',
+  'downloader.reanalyze': 'Analyze again',
+  'downloader.changeFormat': 'Change format',
+  'downloader.processing': 'Processing...',
+  'downloader.fileReady': '{format} Ready',
+  'downloader.downloadAs': 'Download {format}',
+  'downloader.loadPlaylist': 'Load Playlist',
+  'downloader.loadPlaylistContent': 'Load Playlist Contents',
+  'downloader.savedToGallery': 'Saved to Gallery!',
+  'downloader.file': 'File',
+
+  'playlist.untitled': 'Playlist',
+  'playlist.loaded': { one: '{count} item loaded', other: '{count} items loaded' },
+  'playlist.loadedOf': { one: '{count} of {total} item loaded', other: '{count} of {total} items loaded' },
+  'playlist.selected': { one: '{count} selected', other: '{count} selected' },
+  'playlist.selectAll': 'Select all',
+  'playlist.deselectAll': 'Deselect all',
+  'playlist.loading': 'Reading list...',
+  'playlist.loadMore': 'Load more',
+  'playlist.loadFailed': 'Could not read the list.',
+  'playlist.cancel': 'Cancel',
+  'import.title': 'Import links',
+  'import.files': { one: '{count} file', other: '{count} files' },
+  'import.found': { zero: 'No links found', one: '{count} link found', other: '{count} links found' },
+  'import.empty': 'No links were found in these files.',
+  'import.togglePlatform': 'Select or clear every link from this platform',
+  'import.drop': 'Drop the files to import their links',
+  'import.pick': 'Import a link list',
+  'import.formats': 'TXT, CSV, M3U, OPML or HTML bookmarks',
+  'playlist.add': { zero: 'Add to queue', one: 'Add 1 to queue', other: 'Add {count} to queue' },
+
+  'format.title': 'Output format',
+  'format.loading': 'Checking available formats...',
+  'format.loadFailed': 'Could not check the formats offered by the source; showing every option.',
+  'format.maxResolution': 'Maximum resolution',
+  'format.maxResolution.best': 'Best',
+  'format.max': 'Max',
+  'format.container': 'Container',
+  'format.videoCodec': 'Video codec',
+  'format.codecUnsupported': 'Not compatible with WebM',
+  'format.presetName': 'Preset name...',
+  'format.savePreset': 'Save',
+  'format.applyAll': 'Apply to all',
+  'format.applyAll.hint': 'Apply to every pending item in the queue',
+  'format.apply': 'Apply',
+
+  'generator.key.title': 'Enable Video Creation',
+  'generator.key.description': 'To generate AI videos with Google Veo you need to select a valid API Key with billing enabled.',
+  'generator.key.select': 'Select API Key',
+  'generator.key.billingBefore': 'See the ',
+  'generator.key.billingLink': 'billing documentation',
+  'generator.key.billingAfter': ' for details.',
+  'generator.prompt.label': 'Describe the video you want to create',
+  'generator.prompt.placeholder': 'A futuristic cyberpunk landscape with neon rain and flying cars...',
+  'generator.quality': 'Quality',
+  'generator.aspect': 'Aspect',
+  'generator.aspect.landscape': 'Landscape',
+  'generator.aspect.portrait': 'Portrait',
+  'generator.generate': 'Generate Video with Veo',
+  'generator.state.submitting': 'Submitting...',
+  'generator.state.running': 'Generating...',
+  'generator.state.completed': 'Ready',
+  'generator.state.failed': 'Error',
+  'generator.state.cancelled': 'Cancelled',
+  'generator.completedTitle': 'Video Generated Successfully',
+  'generator.cancel': 'Cancel',
+  'generator.cancelTitle': 'Cancel generation',
+  'generator.remove': 'Remove',
+  'generator.archiving': 'Saving to the library...',
+  'generator.downloadMp4': 'Download MP4',
+
+  'library.title': 'Library ({count})',
+  'library.expired': 'The remote link expired and there is no local copy.',
+  'library.expiringSoon': 'Only stored on the server: the link expires in {time}. Save a local copy.',
+  'library.saveFailed': 'Could not download the local copy.',
+  'library.saveLocal': 'Save local copy',
+  'library.regenerate': 'Regenerate',
+  'library.regenerate.hint': 'Generate again with the same description and settings',
+  'library.delete': 'Delete from library',
+  'clip.preview': 'Preview and trim',
+  'clip.chip': 'Only this segment is downloaded',
+  'clip.markIn': 'In [I]',
+  'clip.markIn.hint': 'Set the start at the current position (I key)',
+  'clip.markOut': 'Out [O]',
+  'clip.markOut.hint': 'Set the end at the current position (O key)',
+  'clip.play': 'Play clip',
+  'clip.toEnd': 'end',
+  'clip.hint': 'Only the marked segment will be downloaded.',
+  'clip.invalid': 'The end must come after the start.',
+  'clip.clear': 'Remove clip',
+  'clip.close': 'Close',
+  'clip.apply': 'Use segment',
+  'subtitles.title': 'Subtitles',
+  'subtitles.chip': 'Choose subtitles',
+  'subtitles.chip.available': { one: '{count} subtitle track available', other: '{count} subtitle tracks available' },
+  'subtitles.loading': 'Looking for subtitles...',
+  'subtitles.loadFailed': 'Could not check the subtitles. Is the local service with yt-dlp running?',
+  'subtitles.none': 'This video has no subtitles.',
+  'subtitles.filter': 'Filter languages...',
+  'subtitles.manual': 'Subtitles',
+  'subtitles.automatic': 'Auto-generated',
+  'subtitles.original': 'original',
+  'subtitles.mode': 'Save as',
+  'subtitles.mode.sidecar': 'Separate files',
+  'subtitles.mode.embed': 'Embedded',
+  'subtitles.mode.embed.unsupported': 'Only MP4 and MKV can hold embedded subtitles',
+  'subtitles.format': 'Format',
+  'subtitles.hint.sidecar': 'Saved next to the video with the same name plus the language code.',
+  'subtitles.hint.embed': 'Stored inside the video as tracks the player can switch on and off.',
+  'subtitles.cancel': 'Cancel',
+  'subtitles.apply': { zero: 'No subtitles', one: 'Use {count} track', other: 'Use {count} tracks' },
+  'processing.open': 'Convert, trim or extract audio',
+  'processing.short': 'Process',
+  'processing.title': 'Process in the browser',
+  'processing.quick': 'Quick actions',
+  'processing.quick.mp3': 'Extract MP3',
+  'processing.quick.m4a': 'Extract M4A',
+  'processing.quick.mp4720': 'MP4 720p',
+  'processing.quick.webm': 'WebM (VP9)',
+  'processing.keepResolution': 'Original',
+  'processing.trim': 'Trim',
+  'processing.trim.start': 'Start',
+  'processing.trim.end': 'End',
+  'processing.trim.endPlaceholder': 'to the end',
+  'processing.trim.hint': 'Format 1:23 or 1:02:03. Empty = whole file.',
+  'processing.trim.invalidRange': 'The end must come after the start ({start}).',
+  'processing.hint': 'Runs with ffmpeg.wasm in this tab: the file never leaves your device. About 30 MB are downloaded the first time.',
+  'processing.start': 'Process',
+  'processing.state.queued': 'Waiting',
+  'processing.state.running': 'Processing',
+  'processing.state.completed': 'Done',
+  'processing.state.failed': 'Failed',
+  'processing.state.cancelled': 'Cancelled',
+  'processing.save': 'Save',
+  'processing.cancel': 'Cancel',
+  'processing.dismiss': 'Dismiss',
+
+  'history.title': 'History ({count})',
+  'history.import': 'Import',
+  'history.clear': 'Clear',
+  'history.search': 'Search...',
+  'history.allPlatforms': 'All platforms',
+  'history.allTypes': 'Video and audio',
+  'history.from': 'From',
+  'history.to': 'To',
+  'history.imported': { one: '{count} entry imported.', other: '{count} entries imported.' },
+  'history.importFailed': 'Could not read the file. Use a JSON or CSV exported from VortexMedia.',
+  'history.noMatches': 'No downloads match the filters.',
+  'history.empty': "You haven't downloaded anything yet.",
+  'history.requeue': 'Download again',
+  'history.delete': 'Delete from history',
+  'history.loading': 'Loading...',
+  'history.loadMore': 'Load more',
+
+  'notification.generation.title': 'Video Generated!',
+  'notification.generation.body': 'Your AI-created video is ready to watch.',
+  'notification.generationFailed.title': 'Generation failed',
+  'notification.generationFailed.body': 'See the error details in the generator.',
+  'notification.itemCompleted.title': 'Download complete',
+  'notification.itemCompleted.body': '{name}',
+  'notification.itemFailed.title': 'A download failed',
+  'notification.itemFailed.body': '{name}: {message}',
+  'notification.bundleFailed.title': 'Could not create the ZIP',
+  'notification.bundleFailed.body': '{message}',
+  'notification.batchCompleted.title': 'Queue finished',
+  'notification.batchCompleted.body': { one: '{count} download completed.', other: '{count} downloads completed.' },
+  'notification.batchCompleted.bodyWithErrors': { one: '{count} download completed, {failed} failed.', other: '{count} downloads completed, {failed} failed.' },
+  'notifications.title': 'Notifications',
+  'notifications.empty': 'No notifications yet.',
+  'notifications.markAllRead': 'Mark all as read',
+  'notifications.clear': 'Clear',
+  'notifications.dismiss': 'Close',
+  'notifications.event.itemCompleted': 'Download completed',
+  'notifications.event.batchCompleted': 'Queue finished',
+  'notifications.event.error': 'Errors',
+  'notifications.event.generationCompleted': 'Video generated',
+  'settings.notifications.title': 'Notifications',
+  'settings.notifications.description': 'Shown inside the app and under the bell; choose which events notify you.',
+  'settings.notifications.desktop': 'System notifications while the tab is in the background',
+  'settings.notifications.sound': 'Play a sound',
+  'settings.notifications.denied': 'The browser blocked system notifications; they will only appear inside the app.',
+  'settings.notifications.enable': 'Allow',
+  'settings.ingest.title': 'Links from outside',
+  'settings.ingest.description': 'Add links to the queue from other pages with ?add=<url>&type=audio, the bookmarklet or web+vortex: links.',
+  'settings.ingest.autoStart': 'Start downloading automatically after analysis',
+  'settings.ingest.bookmarklet': 'Drag to your bookmarks bar:',
+  'settings.ingest.bookmarklet.video': '→ VortexMedia',
+  'settings.ingest.bookmarklet.audio': '→ VortexMedia (audio)',
+  'settings.ingest.bookmarklet.hint': 'Click it on any page to send that page to the download queue',
+  'settings.ingest.protocol': 'Open {scheme}: links with VortexMedia',
+  'settings.ingest.protocol.requested': 'Requested: confirm in the browser prompt.',
+  'settings.ingest.protocol.register': 'Register',
+
+  'tags.edit': 'Edit tags',
+  'tags.editor.title': 'Audio tags',
+  'tags.editor.hint.pending': 'They are written into the file when it downloads. Empty fields are filled in with what the platform reports.',
+  'tags.editor.hint.downloaded': 'The file is already downloaded: its tags will be rewritten.',
+  'tags.field.title': 'Title',
+  'tags.field.artist': 'Artist',
+  'tags.field.album': 'Album',
+  'tags.field.track': 'Track',
+  'tags.field.year': 'Year',
+  'tags.field.cover': 'Cover (JPEG or PNG URL)',
+  'tags.cancel': 'Cancel',
+  'tags.save': 'Save',
+  'tags.saveFile': 'Save to file',
+
+  'settings.title': 'Settings',
+  'settings.fileNames.title': 'File names',
+  'settings.fileNames.description': 'Template for downloads and generated videos. "/" creates folders. Characters that aren\'t valid on Windows, macOS or Linux are replaced, and " (1)", " (2)"… is added when the name is taken.',
+  'settings.fileNames.insert': 'Append to the template',
+  'settings.fileNames.syntax': '{index:02} pads with zeros; {title:40} cuts to 40 characters. Empty fields disappear along with their brackets.',
+  'settings.fileNames.unknown': 'Unknown fields: {names}',
+  'settings.fileNames.preview': 'Preview',
+  'settings.fileNames.reset': 'Reset',
+  'settings.cache.title': 'Analysis cache',
+  'settings.cache.description': 'Links analyzed or downloaded recently are not sent to Gemini again.',
+  'settings.cache.ttl': 'Keep results for',
+  'settings.cache.hours': { one: '{count} hour', other: '{count} hours' },
+  'settings.cache.days': { one: '{count} day', other: '{count} days' },
+  'settings.cache.hits': 'Hits',
+  'settings.cache.misses': 'Misses',
+  'settings.cache.deduplicated': 'Deduplicated',
+  'settings.cache.hitRate': 'Hit rate',
+  'settings.cache.entries': { one: '{count} stored result', other: '{count} stored results' },
+  'settings.cache.resetStats': 'Reset statistics',
+  'settings.cache.clear': 'Clear cache',
+  'settings.gemini.title': 'Gemini requests',
+  'settings.gemini.queue': 'In progress: {active} • Waiting: {waiting}',
+  'settings.gemini.calls': 'Calls',
+  'settings.gemini.failed': 'Failed',
+  'settings.gemini.latency': 'Avg. latency',
+  'settings.gemini.tokens': 'Tokens',
+  'settings.gemini.tokenCount': { one: '{count} token', other: '{count} tokens' },
+  'settings.gemini.attempts': { one: '{count} attempt', other: '{count} attempts' },
+  'settings.gemini.outcome.ok': 'Completed',
+  'settings.gemini.outcome.error': 'Failed',
+  'settings.gemini.outcome.aborted': 'Cancelled',
+  'settings.gemini.clear': 'Clear log',
+
+  'error.moreHelp': 'More help',
+  'error.network.message': 'Connection error.',
+  'error.network.suggestion': 'Check your internet connection and that the local download service is running (npm run companion).',
+  'error.timeout.message': 'The operation took too long.',
+  'error.timeout.suggestion': 'The service may be overloaded. Try again in a few minutes.',
+  'error.quota.message': 'You have exceeded the quota limit.',
+  'error.quota.suggestion': 'Wait a few minutes before retrying or check your plan limits.',
+  'error.auth.message': 'The API key is invalid or has no access to this model.',
+  'error.auth.suggestion': 'Select another API Key and make sure billing is enabled in Google Cloud Console.',
+  'error.unavailable.message': 'The service is temporarily overloaded.',
+  'error.unavailable.suggestion': 'Try again in a few minutes.',
+  'error.invalid_request.message': 'The request is not valid.',
+  'error.invalid_request.suggestion': 'Review the description or settings and be more specific.',
+  'error.not_found.message': 'The download service no longer has this file.',
+  'error.not_found.suggestion': 'It was restarted or the file expired. Download it again.',
+  'error.unsupported_platform.message': 'Unsupported platform.',
+  'error.unsupported_platform.suggestion': 'Check that the link points to a specific item on a supported platform.',
+  'error.private_content.message': 'The content is private or requires signing in.',
+  'error.private_content.suggestion': 'Only public content can be downloaded. Ask the author to share it or use a link that works without an account.',
+  'error.geo_blocked.message': 'The content is not available in your region.',
+  'error.geo_blocked.suggestion': 'The author or the platform restricted access from your country.',
+  'error.safety_block.message': 'The request was blocked by the safety filters.',
+  'error.safety_block.suggestion': 'Change your description to avoid content that violates the usage policies.',
+  'error.analysis_failed.message': 'We could not analyze this link.',
+  'error.analysis_failed.suggestion': 'The link may be fine: try again in a few seconds.',
+  'error.download_failed.message': 'Download failed.',
+  'error.download_failed.suggestion': 'Retry the download; if it keeps failing, update yt-dlp (yt-dlp -U).',
+  'error.processing_failed.message': 'The file could not be processed in the browser.',
+  'error.processing_failed.suggestion': 'Try another format or a shorter trim; very large files can exhaust the tab\'s memory.',
+  'error.unknown.message': 'An unexpected error occurred.',
+  'error.unknown.suggestion': 'Try again. If the problem continues, report it with the details.'
+};
@@ -0,0 +1,357 @@
+// Source catalog: keys are flat and dotted by area. Entries with `one`/`other`
+// are plural forms selected from the `count` param.
+export const es = {
+  'app.mode.download': 'Descargar',
+  'app.mode.generate': 'Generar',
+  'app.mode.history': 'Historial',
+  'app.changeTheme': 'Cambiar Tema',
+  'app.selectTheme': 'Seleccionar Tema',
+  'app.language': 'Idioma',
+  'app.hero.title': 'El Vórtice de Descargas.',
+  'app.hero.subtitle': 'Gestión inteligente de medios para creadores.',
+  'app.hero.highlight': 'Rápido. Universal.',
+  'app.footer.suite': 'Suite Profesional.',
+  'app.footer.credits': 'Créditos',
+
+  'theme.new': 'Nuevo tema',
+  'theme.edit': 'Editar tema',
+  'theme.duplicate': 'Personalizar una copia',
+  'theme.delete': 'Eliminar tema',
+  'theme.copyName': '{name} (personalizado)',
+  'theme.import': 'Importar',
+  'theme.export': 'Exportar',
+  'theme.imported': { one: '{count} tema importado.', other: '{count} temas importados.' },
+  'theme.importFailed': 'No se pudo leer el archivo. Usa un JSON exportado desde VortexMedia.',
+  'theme.appearance': 'Apariencia',
+  'theme.appearance.system': 'Sistema',
+  'theme.appearance.dark': 'Oscuro',
+  'theme.appearance.light': 'Claro',
+  'theme.editor.title': 'Editor de temas',
+  'theme.editor.name': 'Nombre',
+  'theme.editor.primary': 'Principal',
+  'theme.editor.secondary': 'Secundario',
+  'theme.editor.gradientFrom': 'Degradado (inicio)',
+  'theme.editor.gradientTo': 'Degradado (fin)',
+  'theme.editor.glow': 'Resplandor',
+  'theme.editor.preview': 'Vista previa',
+  'theme.editor.previewButton': 'Botón',
+  'theme.editor.previewActive': 'Activo',
+  'theme.editor.cancel': 'Cancelar',
+  'theme.editor.save': 'Guardar tema',
+
+  'phase.starting': 'Iniciando...',
+  'phase.ready': 'Listo',
+  'phase.queued': 'En cola',
+  'phase.connecting': 'Conectando...',
+  'phase.extractingAudio': 'Extrayendo audio HQ...',
+  'phase.downloadingVideo': 'Descargando video...',
+  'phase.saved': 'Guardado',
+  'phase.paused': 'En pausa',
+  'phase.cancelled': 'Cancelado',
+  'phase.resuming': 'Reanudando...',
+  'phase.tagging': 'Etiquetando...',
+  'phase.retrying': 'Reintento {attempt}/{max} en {seconds}s',
+
+  'downloader.title': 'Gestor de Lotes y Playlists',
+  'downloader.subtitle': 'Pega enlaces individuales o listas enteras.',
+  'downloader.defaultType': 'Tipo por defecto para los nuevos enlaces',
+  'downloader.placeholder.audio': 'Pega enlaces de Spotify, SoundCloud o YouTube aquí...\n(Uno por línea o detectaremos playlists automáticamente)',
+  'downloader.placeholder.video': 'Pega enlaces de YouTube, TikTok, Instagram aquí...\n(Soporta Playlist URL)',
+  'downloader.paste': 'Pegar',
+  'downloader.analyze': 'Analizar Enlaces',
+  'downloader.offline': 'Sin conexión: el análisis no está disponible. Los enlaces que añadas se analizarán al volver la conexión.',
+  'downloader.queue.mixed': 'Cola Mixta',
+  'downloader.queue.audio': 'Cola de Audio',
+  'downloader.queue.video': 'Cola de Video',
+  'downloader.queue.progress': {
+    one: '{completed}/{count} completado • {percent}% global',
+    other: '{completed}/{count} completados • {percent}% global'
+  },
+  'downloader.queue.pause': 'Pausar cola',
+  'downloader.queue.resume': 'Reanudar cola',
+  'downloader.parallel': 'Paralelo',
+  'downloader.parallel.hint': 'Descargas simultáneas',
+  'downloader.bundle': 'ZIP',
+  'downloader.bundle.hint': {
+    one: 'Descargar {count} archivo terminado en un ZIP con su manifiesto',
+    other: 'Descargar los {count} archivos terminados en un ZIP con su manifiesto'
+  },
+  'downloader.downloadAll': 'Descargar Todo',
+  'downloader.priority.high': 'Prioridad: alta',
+  'downloader.priority.normal': 'Prioridad: normal',
+  'downloader.priority.low': 'Prioridad: baja',
+  'downloader.pause': 'Pausar',
+  'downloader.resume': 'Reanudar',
+  'downloader.cancel': 'Cancelar',
+  'downloader.retry': 'Reintentar',
+  'downloader.reanalyze': 'Volver a analizar',
+  'downloader.changeFormat': 'Cambiar formato',
+  'downloader.processing': 'Procesando...',
+  'downloader.fileReady': '{format} Listo',
+  'downloader.downloadAs': 'Descargar {format}',
+  'downloader.loadPlaylist': 'Cargar Playlist',
+  'downloader.loadPlaylistContent': 'Cargar Contenido de Playlist',
+  'downloader.savedToGallery': '¡Guardado en Galería!',
+  'downloader.file': 'Archivo',
+
+  'playlist.untitled': 'Lista de reproducción',
+  'playlist.loaded': { one: '{count} elemento cargado', other: '{count} elementos cargados' },
+  'playlist.loadedOf': { one: '{count} de {total} elemento cargado', other: '{count} de {total} elementos cargados' },
+  'playlist.selected': { one: '{count} seleccionado', other: '{count} seleccionados' },
+  'playlist.selectAll': 'Seleccionar todo',
+  'playlist.deselectAll': 'Deseleccionar todo',
+  'playlist.loading': 'Leyendo lista...',
+  'playlist.loadMore': 'Cargar más',
+  'playlist.loadFailed': 'No se pudo leer la lista.',
+  'playlist.cancel': 'Cancelar',
+  'import.title': 'Importar enlaces',
+  'import.files': { one: '{count} archivo', other: '{count} archivos' },
+  'import.found': { zero: 'Ningún enlace encontrado', one: '{count} enlace encontrado', other: '{count} enlaces encontrados' },
+  'import.empty': 'No se encontraron enlaces en estos archivos.',
+  'import.togglePlatform': 'Seleccionar o quitar todos los de esta plataforma',
+  'import.drop': 'Suelta los archivos para importar sus enlaces',
+  'import.pick': 'Importar lista de enlaces',
+  'import.formats': 'TXT, CSV, M3U, OPML o marcadores HTML',
+  'playlist.add': { zero: 'Añadir a la cola', one: 'Añadir 1 a la cola', other: 'Añadir {count} a la cola' },
+
+  'format.title': 'Formato de salida',
+  'format.loading': 'Consultando formatos disponibles...',
+  'format.loadFailed': 'No se pudieron consultar los formatos de la fuente; se muestran todas las opciones.',
+  'format.maxResolution': 'Resolución máxima',
+  'format.maxResolution.best': 'Máxima',
+  'format.max': 'Máx.',
+  'format.container': 'Contenedor',
+  'format.videoCodec': 'Códec de video',
+  'format.codecUnsupported': 'No compatible con WebM',
+  'format.presetName': 'Nombre del preset...',
+  'format.savePreset': 'Guardar',
+  'format.applyAll': 'Aplicar a todos',
+  'format.applyAll.hint': 'Aplicar a todos los elementos pendientes de la cola',
+  'format.apply': 'Aplicar',
+
+  'generator.key.title': 'Activa la Creación de Video',
+  'generator.key.description': 'Para usar la tecnología Veo de Google y generar videos con IA, necesitas seleccionar una API Key válida con facturación habilitada.',
+  'generator.key.select': 'Seleccionar API Key',
+  'generator.key.billingBefore': 'Consulta la ',
+  'generator.key.billingLink': 'documentación de facturación',
+  'generator.key.billingAfter': ' para más detalles.',
+  'generator.prompt.label': 'Describe el video que quieres crear',
+  'generator.prompt.placeholder': 'Un paisaje futurista cyberpunk con lluvia de neón y coches voladores...',
+  'generator.quality': 'Calidad',
+  'generator.aspect': 'Formato',
+  'generator.aspect.landscape': 'Horizontal',
+  'generator.aspect.portrait': 'Vertical',
+  'generator.generate': 'Generar Video con Veo',
+  'generator.state.submitting': 'Enviando...',
+  'generator.state.running': 'Generando...',
+  'generator.state.completed': 'Listo',
+  'generator.state.failed': 'Error',
+  'generator.state.cancelled': 'Cancelado',
+  'generator.completedTitle': 'Video Generado con Éxito',
+  'generator.cancel': 'Cancelar',
+  'generator.cancelTitle': 'Cancelar generación',
+  'generator.remove': 'Quitar',
+  'generator.archiving': 'Guardando en la biblioteca...',
+  'generator.downloadMp4': 'Descargar MP4',
+
+  'library.title': 'Biblioteca ({count})',
+  'library.expired': 'El enlace remoto caducó y no hay copia local.',
+  'library.expiringSoon': 'Solo está en el servidor: el enlace caduca en {time}. Guarda una copia local.',
+  'library.saveFailed': 'No se pudo descargar la copia local.',
+  'library.saveLocal': 'Guardar copia local',
+  'library.regenerate': 'Regenerar',
+  'library.regenerate.hint': 'Generar de nuevo con la misma descripción y ajustes',
+  'library.delete': 'Eliminar de la biblioteca',
+  'clip.preview': 'Vista previa y recorte',
+  'clip.chip': 'Solo se descarga este fragmento',
+  'clip.markIn': 'Inicio [I]',
+  'clip.markIn.hint': 'Marcar el inicio en la posición actual (tecla I)',
+  'clip.markOut': 'Fin [O]',
+  'clip.markOut.hint': 'Marcar el fin en la posición actual (tecla O)',
+  'clip.play': 'Reproducir recorte',
+  'clip.toEnd': 'final',
+  'clip.hint': 'Solo se descargará el fragmento marcado.',
+  'clip.invalid': 'El fin debe ser posterior al inicio.',
+  'clip.clear': 'Quitar recorte',
+  'clip.close': 'Cerrar',
+  'clip.apply': 'Usar fragmento',
+  'subtitles.title': 'Subtítulos',
+  'subtitles.chip': 'Elegir subtítulos',
+  'subtitles.chip.available': { one: '{count} pista de subtítulos disponible', other: '{count} pistas de subtítulos disponibles' },
+  'subtitles.loading': 'Buscando subtítulos...',
+  'subtitles.loadFailed': 'No se pudieron consultar los subtítulos. ¿Está en marcha el servicio local con yt-dlp?',
+  'subtitles.none': 'Este vídeo no tiene subtítulos.',
+  'subtitles.filter': 'Filtrar idiomas...',
+  'subtitles.manual': 'Subtítulos',
+  'subtitles.automatic': 'Generados automáticamente',
+  'subtitles.original': 'original',
+  'subtitles.mode': 'Guardar',
+  'subtitles.mode.sidecar': 'Archivos aparte',
+  'subtitles.mode.embed': 'Incrustados',
+  'subtitles.mode.embed.unsupported': 'Solo MP4 y MKV admiten subtítulos incrustados',
+  'subtitles.format': 'Formato',
+  'subtitles.hint.sidecar': 'Se guardan junto al vídeo con el mismo nombre y el código de idioma.',
+  'subtitles.hint.embed': 'Van dentro del vídeo como pistas que el reproductor puede activar o desactivar.',
+  'subtitles.cancel': 'Cancelar',
+  'subtitles.apply': { zero: 'Sin subtítulos', one: 'Usar {count} pista', other: 'Usar {count} pistas' },
+  'processing.open': 'Convertir, recortar o extraer audio',
+  'processing.short': 'Procesar',
+  'processing.title': 'Procesar en el navegador',
+  'processing.quick': 'Acciones rápidas',
+  'processing.quick.mp3': 'Extraer MP3',
+  'processing.quick.m4a': 'Extraer M4A',
+  'processing.quick.mp4720': 'MP4 720p',
+  'processing.quick.webm': 'WebM (VP9)',
+  'processing.keepResolution': 'Original',
+  'processing.trim': 'Recorte',
+  'processing.trim.start': 'Inicio',
+  'processing.trim.end': 'Fin',
+  'processing.trim.endPlaceholder': 'hasta el final',
+  'processing.trim.hint': 'Formato 1:23 o 1:02:03. Vacío = archivo completo.',
+  'processing.trim.invalidRange': 'El fin debe ser posterior al inicio ({start}).',
+  'processing.hint': 'Se procesa con ffmpeg.wasm en esta pestaña: el archivo no sale del equipo. La primera vez se descargan unos 30 MB.',
+  'processing.start': 'Procesar',
+  'processing.state.queued': 'En espera',
+  'processing.state.running': 'Procesando',
+  'processing.state.completed': 'Listo',
+  'processing.state.failed': 'Falló',
+  'processing.state.cancelled': 'Cancelado',
+  'processing.save': 'Guardar',
+  'processing.cancel': 'Cancelar',
+  'processing.dismiss': 'Descartar',
+
+  'history.title': 'Historial ({count})',
+  'history.import': 'Importar',
+  'history.clear': 'Limpiar',
+  'history.search': 'Buscar...',
+  'history.allPlatforms': 'Todas las plataformas',
+  'history.allTypes': 'Video y audio',
+  'history.from': 'Desde',
+  'history.to': 'Hasta',
+  'history.imported': { one: '{count} entrada importada.', other: '{count} entradas importadas.' },
+  'history.importFailed': 'No se pudo leer el archivo. Usa un JSON o CSV exportado desde VortexMedia.',
+  'history.noMatches': 'Ninguna descarga coincide con los filtros.',
+  'history.empty': 'Todavía no has descargado nada.',
+  'history.requeue': 'Volver a descargar',
+  'history.delete': 'Eliminar del historial',
+  'history.loading': 'Cargando...',
+  'history.loadMore': 'Cargar más',
+
+  'notification.generation.title': '¡Video Generado!',
+  'notification.generation.body': 'Tu video creado con IA está listo para ver.',
+  'notification.generationFailed.title': 'La generación falló',
+  'notification.generationFailed.body': 'Revisa el detalle del error en el generador.',
+  'notification.itemCompleted.title': 'Descarga completada',
+  'notification.itemCompleted.body': '{name}',
+  'notification.itemFailed.title': 'Error en una descarga',
+  'notification.itemFailed.body': '{name}: {message}',
+  'notification.bundleFailed.title': 'No se pudo crear el ZIP',
+  'notification.bundleFailed.body': '{message}',
+  'notification.batchCompleted.title': 'Cola terminada',
+  'notification.batchCompleted.body': { one: '{count} descarga completada.', other: '{count} descargas completadas.' },
+  'notification.batchCompleted.bodyWithErrors': { one: '{count} descarga completada, {failed} con errores.', other: '{count} descargas completadas, {failed} con errores.' },
+  'notifications.title': 'Notificaciones',
+  'notifications.empty': 'Sin notificaciones todavía.',
+  'notifications.markAllRead': 'Marcar como leídas',
+  'notifications.clear': 'Vaciar',
+  'notifications.dismiss': 'Cerrar',
+  'notifications.event.itemCompleted': 'Descarga completada',
+  'notifications.event.batchCompleted': 'Cola terminada',
+  'notifications.event.error': 'Errores',
+  'notifications.event.generationCompleted': 'Video generado',
+  'settings.notifications.title': 'Notificaciones',
+  'settings.notifications.description': 'Se muestran dentro de la app y en la campana; elige qué eventos avisan.',
+  'settings.notifications.desktop': 'Notificaciones del sistema con la pestaña en segundo plano',
+  'settings.notifications.sound': 'Reproducir un sonido',
+  'settings.notifications.denied': 'El navegador bloqueó las notificaciones del sistema; solo se mostrarán dentro de la app.',
+  'settings.notifications.enable': 'Permitir',
+  'settings.ingest.title': 'Enlaces desde fuera',
+  'settings.ingest.description': 'Añade enlaces a la cola desde otras páginas con ?add=<url>&type=audio, el marcador o los enlaces web+vortex:.',
+  'settings.ingest.autoStart': 'Descargar automáticamente tras el análisis',
+  'settings.ingest.bookmarklet': 'Arrastra a la barra de marcadores:',
+  'settings.ingest.bookmarklet.video': '→ VortexMedia',
+  'settings.ingest.bookmarklet.audio': '→ VortexMedia (audio)',
+  'settings.ingest.bookmarklet.hint': 'Al pulsarlo en cualquier página, la envía a la cola de descargas',
+  'settings.ingest.protocol': 'Abrir los enlaces {scheme}: con VortexMedia',
+  'settings.ingest.protocol.requested': 'Solicitado: confirma en el aviso del navegador.',
+  'settings.ingest.protocol.register': 'Registrar',
+
+  'tags.edit': 'Editar etiquetas',
+  'tags.editor.title': 'Etiquetas del audio',
+  'tags.editor.hint.pending': 'Se escriben en el archivo al descargarlo. Los campos vacíos se completan con lo que informe la plataforma.',
+  'tags.editor.hint.downloaded': 'El archivo ya está descargado: se reescribirán sus etiquetas.',
+  'tags.field.title': 'Título',
+  'tags.field.artist': 'Artista',
+  'tags.field.album': 'Álbum',
+  'tags.field.track': 'Pista',
+  'tags.field.year': 'Año',
+  'tags.field.cover': 'Portada (URL JPEG o PNG)',
+  'tags.cancel': 'Cancelar',
+  'tags.save': 'Guardar',
+  'tags.saveFile': 'Guardar en el archivo',
+
+  'settings.title': 'Ajustes',
+  'settings.fileNames.title': 'Nombres de archivo',
+  'settings.fileNames.description': 'Plantilla para las descargas y los videos generados. "/" crea carpetas. Los caracteres no válidos en Windows, macOS o Linux se sustituyen y, si el nombre ya existe, se añade " (1)", " (2)"…',
+  'settings.fileNames.insert': 'Añadir al final de la plantilla',
+  'settings.fileNames.syntax': '{index:02} rellena con ceros; {title:40} recorta a 40 caracteres. Los campos vacíos desaparecen junto con sus corchetes.',
+  'settings.fileNames.unknown': 'Campos desconocidos: {names}',
+  'settings.fileNames.preview': 'Vista previa',
+  'settings.fileNames.reset': 'Restablecer',
+  'settings.cache.title': 'Caché de análisis',
+  'settings.cache.description': 'Los enlaces ya analizados o descargados hace poco no vuelven a consultarse a Gemini.',
+  'settings.cache.ttl': 'Validez de los resultados',
+  'settings.cache.hours': { one: '{count} hora', other: '{count} horas' },
+  'settings.cache.days': { one: '{count} día', other: '{count} días' },
+  'settings.cache.hits': 'Aciertos',
+  'settings.cache.misses': 'Fallos',
+  'settings.cache.deduplicated': 'Agrupados',
+  'settings.cache.hitRate': 'Tasa de acierto',
+  'settings.cache.entries': { one: '{count} resultado guardado', other: '{count} resultados guardados' },
+  'settings.cache.resetStats': 'Reiniciar estadísticas',
+  'settings.cache.clear': 'Vaciar caché',
+  'settings.gemini.title': 'Peticiones a Gemini',
+  'settings.gemini.queue': 'En curso: {active} • En espera: {waiting}',
+  'settings.gemini.calls': 'Llamadas',
+  'settings.gemini.failed': 'Fallidas',
+  'settings.gemini.latency': 'Latencia media',
+  'settings.gemini.tokens': 'Tokens',
+  'settings.gemini.tokenCount': { one: '{count} token', other: '{count} tokens' },
+  'settings.gemini.attempts': { one: '{count} intento', other: '{count} intentos' },
+  'settings.gemini.outcome.ok': 'Completada',
+  'settings.gemini.outcome.error': 'Fallida',
+  'settings.gemini.outcome.aborted': 'Cancelada',
+  'settings.gemini.clear': 'Borrar registro',
+
+  'error.moreHelp': 'Más ayuda',
+  'error.network.message': 'Error de conexión.',
+  'error.network.suggestion': 'Comprueba tu conexión a internet y que el servicio de descargas local esté en marcha (npm run companion).',
+  'error.timeout.message': 'La operación tardó demasiado.',
+  'error.timeout.suggestion': 'El servicio puede estar saturado. Vuelve a intentarlo en unos minutos.',
+  'error.quota.message': 'Has excedido el límite de cuota.',
+  'error.quota.suggestion': 'Espera unos minutos antes de reintentar o revisa los límites de tu plan.',
+  'error.auth.message': 'La llave API no es válida o no tiene acceso a este modelo.',
+  'error.auth.suggestion': 'Selecciona otra API Key y verifica que tenga la facturación habilitada en Google Cloud Console.',
+  'error.unavailable.message': 'El servicio está temporalmente saturado.',
+  'error.unavailable.suggestion': 'Inténtalo de nuevo en unos minutos.',
+  'error.invalid_request.message': 'La solicitud no es válida.',
+  'error.invalid_request.suggestion': 'Revisa la descripción o los ajustes y sé más específico.',
+  'error.not_found.message': 'El servicio de descargas ya no tiene este archivo.',
+  'error.not_found.suggestion': 'Se reinició o el archivo caducó. Vuelve a descargarlo.',
+  'error.unsupported_platform.message': 'Plataforma no soportada.',
+  'error.unsupported_platform.suggestion': 'Comprueba que el enlace apunte a un contenido concreto de una plataforma compatible.',
+  'error.private_content.message': 'El contenido es privado o requiere iniciar sesión.',
+  'error.private_content.suggestion': 'Solo se puede descargar contenido público. Pide al autor que lo comparta o usa un enlace accesible sin cuenta.',
+  'error.geo_blocked.message': 'El contenido no está disponible en tu región.',
+  'error.geo_blocked.suggestion': 'El autor o la plataforma restringieron el acceso desde tu país.',
+  'error.safety_block.message': 'La solicitud fue bloqueada por los filtros de seguridad.',
+  'error.safety_block.suggestion': 'Modifica tu descripción para evitar contenido que viole las políticas de uso.',
+  'error.analysis_failed.message': 'No pudimos analizar este enlace.',
+  'error.analysis_failed.suggestion': 'El enlace puede ser correcto: vuelve a intentarlo en unos segundos.',
+  'error.download_failed.message': 'Error en la descarga.',
+  'error.download_failed.suggestion': 'Reintenta la descarga; si persiste, actualiza yt-dlp (yt-dlp -U).',
+  'error.processing_failed.message': 'No se pudo procesar el archivo en el navegador.',
+  'error.processing_failed.suggestion': 'Prueba otro formato o un recorte más corto; los archivos muy grandes pueden agotar la memoria de la pestaña.',
+  'error.unknown.message': 'Ocurrió un error inesperado.',
+  'error.unknown.suggestion': 'Vuelve a intentarlo. Si el problema continúa, repórtalo con los detalles.'
+};
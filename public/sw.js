@@ -0,0 +1,108 @@
+// Service worker: keeps the app shell (page, CDN scripts, fonts, esm.sh modules) in a
+// cache so VortexMedia starts offline and can be installed. Companion and Gemini calls
+// are never cached. Bump CACHE_NAME when the precached list changes.
+const CACHE_NAME = 'vortex-media-shell-v1';
+
+const APP_SHELL = ['/', '/icon.svg', '/icon-maskable.svg', '/manifest.webmanifest'];
+
+// Loaded by index.html without CORS, so they are stored as opaque responses
+const CDN_SHELL = [
+  'https://cdn.tailwindcss.com',
+  'https://fonts.googleapis.com/css2?family=Space+Grotesk:wght@300;400;500;600;700&family=Inter:wght@300;400;500;600;700&display=swap'
+];
+
+// Cross-origin hosts whose responses are worth keeping
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'esm.sh', 'unpkg.com'];
+
+// Versioned URLs never change, so they are served from the cache without revalidating
+// (fonts and the pinned ffmpeg core, which is ~30 MB)
+const IMMUTABLE_HOSTS = ['fonts.gstatic.com', 'unpkg.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.addAll(APP_SHELL);
+    // A CDN that can't be reached doesn't block the install; it is cached on first use instead
+    await Promise.all(CDN_SHELL.map(async (url) => {
+      try {
+        await cache.put(url, await fetch(url, { mode: 'no-cors' }));
+      } catch (e) {
+        console.warn('[sw] could not precache', url, e);
+      }
+    }));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => name !== CACHE_NAME).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+const isCacheable = (response) => response && (response.ok || response.type === 'opaque');
+
+const cacheFirst = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (isCacheable(response)) cache.put(request, response.clone());
+  return response;
+};
+
+// Answers from the cache straight away and refreshes the entry in the background
+const staleWhileRevalidate = async (event) => {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(event.request);
+  const network = fetch(event.request).then((response) => {
+    if (isCacheable(response)) cache.put(event.request, response.clone());
+    return response;
+  });
+  if (cached) {
+    event.waitUntil(network.catch(() => undefined));
+    return cached;
+  }
+  return network;
+};
+
+// Pages come from the network when possible, so a deploy shows up on the next load.
+// Offline, every navigation (including a share to /?url=...) gets the cached shell.
+const networkFirstPage = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put('/', response.clone());
+    return response;
+  } catch (e) {
+    const cached = await cache.match('/');
+    if (cached) return cached;
+    throw e;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request));
+    return;
+  }
+
+  if (url.origin === self.location.origin) {
+    // Companion API: live data and large files
+    if (url.pathname.startsWith('/api/')) return;
+    event.respondWith(staleWhileRevalidate(event));
+    return;
+  }
+
+  if (IMMUTABLE_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request));
+  } else if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(event));
+  }
+});
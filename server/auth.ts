@@ -0,0 +1,104 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+
+// Who may drive the companion. Any page the user visits can send requests to localhost, so
+// only the app's own origins get CORS access, and every route but /api/session needs the
+// per-install token that /api/session hands out to those origins.
+
+export const TOKEN_HEADER = 'x-vortex-token';
+export const TOKEN_PARAM = 'token';
+
+// `npm run dev` and `npm run preview`; the hosted app is added with VORTEX_ALLOWED_ORIGINS
+const DEFAULT_ORIGINS = ['http://localhost:3000', 'http://127.0.0.1:3000', 'http://localhost:4173', 'http://127.0.0.1:4173'];
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+export const defaultTokenFile = () =>
+  process.env.VORTEX_TOKEN_FILE || path.join(os.homedir(), '.config', 'vortex-media', 'companion-token');
+
+export const defaultAllowedOrigins = () => [
+  ...DEFAULT_ORIGINS,
+  ...(process.env.VORTEX_ALLOWED_ORIGINS || '').split(',').map(origin => origin.trim().replace(/\/+$/, '')).filter(Boolean)
+];
+
+/** Token kept in `file` across restarts, created on first use and readable by the user only. */
+export const loadInstallToken = (file = defaultTokenFile()) => {
+  try {
+    const stored = readFileSync(file, 'utf8').trim();
+    if (stored) return stored;
+  } catch {
+    // Not created yet
+  }
+  const token = randomBytes(32).toString('hex');
+  mkdirSync(path.dirname(file), { recursive: true });
+  writeFileSync(file, token, { mode: 0o600 });
+  return token;
+};
+
+export interface AccessPolicy {
+  token: string;
+  allowedOrigins: string[];
+  // Host names of allowedOrigins, parsed once rather than on every request
+  allowedHostnames: Set<string>;
+}
+
+// Header values and settings come from outside; a malformed one must not throw in a handler
+const hostnameOf = (url: string) => {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return null;
+  }
+};
+
+/** Origins that don't parse are left out, with a warning, rather than failing every request. */
+export const createAccessPolicy = (token: string, origins: string[]): AccessPolicy => {
+  const allowedOrigins: string[] = [];
+  const allowedHostnames = new Set<string>();
+  origins.forEach(origin => {
+    const hostname = hostnameOf(origin);
+    if (hostname === null) {
+      console.warn(`[companion] ignoring invalid allowed origin "${origin}"`);
+      return;
+    }
+    allowedOrigins.push(origin);
+    allowedHostnames.add(hostname);
+  });
+  return { token, allowedOrigins, allowedHostnames };
+};
+
+export const isAllowedOrigin = (origin: string | undefined, policy: AccessPolicy) =>
+  !!origin && policy.allowedOrigins.includes(origin);
+
+/**
+ * Requests must name the companion itself (or an allowed origin's host, for the dev server
+ * opened to the LAN) as their Host; anything else is a DNS rebinding attempt.
+ */
+export const isAllowedHost = (host: string | undefined, policy: AccessPolicy) => {
+  const hostname = host ? hostnameOf(`http://${host}`) : null;
+  if (hostname === null) return false;
+  return LOOPBACK_HOSTS.includes(hostname) || policy.allowedHostnames.has(hostname);
+};
+
+/**
+ * The token goes to allowed origins, and to same-origin requests (the dev proxy) and local
+ * tools, which send no Origin. Cross-site requests without one can't read the answer anyway.
+ */
+export const canReceiveToken = (req: http.IncomingMessage, policy: AccessPolicy) => {
+  const origin = req.headers.origin;
+  if (origin !== undefined) return isAllowedOrigin(origin, policy);
+  const site = req.headers['sec-fetch-site'];
+  return site === undefined || site === 'same-origin' || site === 'none';
+};
+
+/** Header for fetches; query parameter for what the browser loads by URL (links, EventSource). */
+export const hasValidToken = (req: http.IncomingMessage, searchParams: URLSearchParams, policy: AccessPolicy) => {
+  const header = req.headers[TOKEN_HEADER];
+  const given = (typeof header === 'string' ? header : searchParams.get(TOKEN_PARAM)) || '';
+  const expected = Buffer.from(policy.token);
+  const actual = Buffer.from(given);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
@@ -0,0 +1,129 @@
+import { randomUUID } from 'crypto';
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import path from 'path';
+import { Writable } from 'stream';
+import { sanitizeFileName } from './files';
+import { BundleEntry, CreateBundleRequest } from './protocol';
+import { createZipWriter } from './zip';
+
+// A finished download the archive can read from disk
+export interface BundleFile {
+  filePath: string;
+  fileName: string;
+}
+
+interface Bundle {
+  id: string;
+  name: string;
+  entries: BundleEntry[];
+  playlist: boolean;
+}
+
+interface ManifestEntry extends BundleEntry {
+  index: number;
+  fileName?: string;
+  size?: number;
+  sha256?: string;
+  error?: string;
+}
+
+// A bundle is requested and then fetched right away; unclaimed ones are dropped after this
+const BUNDLE_TTL_MS = 10 * 60 * 1000;
+const MANIFEST_COLUMNS = ['index', 'url', 'platform', 'summary', 'format', 'fileName', 'size', 'sha256', 'error'] as const;
+
+const csvCell = (value: unknown) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (entries: ManifestEntry[]) =>
+  [MANIFEST_COLUMNS.join(','), ...entries.map(entry => MANIFEST_COLUMNS.map(column => csvCell(entry[column])).join(','))]
+    .join('\r\n') + '\r\n';
+
+// Extended M3U; durations of -1 mean unknown. Entries point at the files next to the playlist.
+const toM3u = (entries: ManifestEntry[]) =>
+  ['#EXTM3U', ...entries.flatMap(entry => entry.fileName ? [
+    `#EXTINF:${Math.round(entry.durationSeconds ?? -1)},${(entry.summary || entry.fileName).replace(/[\r\n]+/g, ' ')}`,
+    entry.fileName
+  ] : [])].join('\n') + '\n';
+
+// Names are unique within the archive: "a.mp3", "a (1).mp3", ...
+const uniqueName = (taken: Set<string>, fileName: string) => {
+  const ext = path.extname(fileName);
+  const stem = path.basename(fileName, ext);
+  let candidate = fileName;
+  for (let n = 1; taken.has(candidate.toLowerCase()); n++) candidate = `${stem} (${n})${ext}`;
+  taken.add(candidate.toLowerCase());
+  return candidate;
+};
+
+export const createBundleStore = () => {
+  const bundles = new Map<string, Bundle>();
+
+  const create = ({ name, entries, playlist }: CreateBundleRequest) => {
+    const id = randomUUID();
+    bundles.set(id, {
+      id,
+      name: sanitizeFileName(name || 'vortex-media'),
+      entries,
+      playlist: !!playlist
+    });
+    setTimeout(() => bundles.delete(id), BUNDLE_TTL_MS).unref();
+    return { id };
+  };
+
+  const get = (id: string) => bundles.get(id);
+
+  return { create, get };
+};
+
+/**
+ * Streams the bundle as a ZIP: every file that is still available, then manifest.json,
+ * manifest.csv and, for playlists, playlist.m3u8. Files are read one chunk at a time,
+ * so the archive size is bounded by disk, not memory.
+ */
+export const writeBundle = async (
+  output: Writable,
+  bundle: Bundle,
+  lookupFile: (downloadId: string) => BundleFile | null
+) => {
+  const zip = createZipWriter(output);
+  const taken = new Set<string>(['manifest.json', 'manifest.csv', 'playlist.m3u8']);
+  const manifest: ManifestEntry[] = [];
+
+  for (const [index, entry] of bundle.entries.entries()) {
+    const file = lookupFile(entry.downloadId);
+    const item: ManifestEntry = { index: index + 1, ...entry };
+    manifest.push(item);
+    if (!file) {
+      item.error = 'El archivo ya no está disponible';
+      continue;
+    }
+    let info;
+    try {
+      info = await stat(file.filePath);
+    } catch {
+      item.error = 'El archivo ya no está disponible';
+      continue;
+    }
+    item.fileName = uniqueName(taken, file.fileName);
+    const { size, sha256 } = await zip.addEntry(item.fileName, createReadStream(file.filePath), {
+      modified: info.mtime,
+      expectedSize: info.size
+    });
+    item.size = size;
+    item.sha256 = sha256;
+  }
+
+  await zip.addBuffer('manifest.json', JSON.stringify({
+    name: bundle.name,
+    createdAt: new Date().toISOString(),
+    entries: manifest
+  }, null, 2));
+  await zip.addBuffer('manifest.csv', toCsv(manifest));
+  if (bundle.playlist) await zip.addBuffer('playlist.m3u8', toM3u(manifest));
+  await zip.finish();
+};
+
+export type BundleStore = ReturnType<typeof createBundleStore>;
@@ -0,0 +1,242 @@
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { resolveExtractor, Extractor, TransferProgress, PAUSE_REASON, isPaused } from './extractors';
+import { classifyExtractorError } from './errors';
+import { ClipRange, CreateDownloadRequest, DownloadSnapshot, FormatSelection, MediaTags, SubtitleSelection, isTerminalPhase } from './protocol';
+import { canTag, mergeTags, writeTags } from './tags';
+
+type Listener = (snapshot: DownloadSnapshot) => void;
+
+interface DownloadJob {
+  snapshot: DownloadSnapshot;
+  format?: FormatSelection;
+  tags?: MediaTags; // As requested by the app
+  clip?: ClipRange;
+  requestedName?: string;
+  subtitles?: SubtitleSelection;
+  filePath?: string;
+  subtitlePaths?: string[]; // Sidecars, in the order of `snapshot.subtitles`
+  mimeType?: string;
+  extractor: Extractor | null;
+  // Extractor scratch space, kept across pause/resume
+  state: Record<string, unknown>;
+  controller: AbortController;
+  // Settles when the current extractor run ends (completed, paused, cancelled or failed)
+  running: Promise<void> | null;
+  listeners: Set<Listener>;
+  lastSample: { time: number; bytes: number };
+  lastEmit: number;
+}
+
+// Progress events are coalesced so a fast local transfer doesn't flood the SSE stream
+const EMIT_INTERVAL_MS = 250;
+// Smoothing factor for the moving average of the transfer speed
+const SPEED_SMOOTHING = 0.3;
+// Finished jobs are forgotten after this long
+const JOB_TTL_MS = 60 * 60 * 1000;
+
+export const createDownloadManager = (outputDir: string) => {
+  const jobs = new Map<string, DownloadJob>();
+
+  const emit = (job: DownloadJob, force = false) => {
+    const now = Date.now();
+    if (!force && now - job.lastEmit < EMIT_INTERVAL_MS) return;
+    job.lastEmit = now;
+    const snapshot = { ...job.snapshot };
+    job.listeners.forEach(listener => listener(snapshot));
+  };
+
+  const update = (job: DownloadJob, updates: Partial<DownloadSnapshot>, force = false) => {
+    job.snapshot = { ...job.snapshot, ...updates };
+    emit(job, force);
+    if (isTerminalPhase(job.snapshot.phase)) {
+      setTimeout(() => jobs.delete(job.snapshot.id), JOB_TTL_MS).unref();
+    }
+  };
+
+  const trackProgress = (job: DownloadJob, { downloadedBytes, totalBytes }: TransferProgress) => {
+    const now = Date.now();
+    const elapsed = (now - job.lastSample.time) / 1000;
+    let { bytesPerSecond } = job.snapshot;
+
+    if (elapsed >= 0.2) {
+      const instant = Math.max(0, downloadedBytes - job.lastSample.bytes) / elapsed;
+      bytesPerSecond = bytesPerSecond === 0 ? instant : bytesPerSecond + SPEED_SMOOTHING * (instant - bytesPerSecond);
+      job.lastSample = { time: now, bytes: downloadedBytes };
+    }
+
+    const etaSeconds = totalBytes && bytesPerSecond > 0
+      ? Math.max(0, Math.round((totalBytes - downloadedBytes) / bytesPerSecond))
+      : null;
+
+    update(job, { phase: 'downloading', downloadedBytes, totalBytes, bytesPerSecond, etaSeconds });
+  };
+
+  const execute = async (job: DownloadJob) => {
+    const { url, type } = job.snapshot;
+    const { signal } = job.controller;
+
+    // Direct links can't be cut while streaming; yt-dlp's generic extractor handles those clips
+    job.extractor ??= await resolveExtractor(url, { clips: !!job.clip, subtitles: !!job.subtitles?.tracks.length });
+    const extractor = job.extractor;
+
+    if (!extractor) {
+      const error = job.clip ? 'Descargar un fragmento requiere yt-dlp'
+        : job.subtitles?.tracks.length ? 'Descargar subtítulos requiere yt-dlp'
+        : 'Ningún extractor disponible para este enlace';
+      update(job, { phase: 'error', error, errorKind: 'unsupported_platform' }, true);
+      return;
+    }
+
+    update(job, { phase: 'connecting', extractor: extractor.id }, true);
+
+    try {
+      const result = await extractor.extract({
+        url,
+        type,
+        format: job.format,
+        clip: job.clip,
+        outputDir,
+        fileName: job.requestedName,
+        subtitles: job.subtitles,
+        signal,
+        state: job.state,
+        onProgress: (progress) => trackProgress(job, progress)
+      });
+
+      job.filePath = result.filePath;
+      job.mimeType = result.mimeType;
+      job.subtitlePaths = result.subtitles?.map(file => file.filePath);
+
+      // A file that can't be tagged is still a good download
+      if (type === 'audio' && canTag(result.filePath)) {
+        update(job, { phase: 'tagging', bytesPerSecond: 0, etaSeconds: null }, true);
+        try {
+          const tags = await writeTags(result.filePath, mergeTags(result.metadata, job.tags), result.metadata?.coverUrl);
+          job.snapshot.tags = tags;
+        } catch (error) {
+          console.error(`[companion] tagging failed for ${result.filePath}`, error);
+        }
+      }
+
+      update(job, {
+        phase: 'completed',
+        fileName: path.basename(result.filePath),
+        subtitles: result.subtitles?.map(file => ({ language: file.language, fileName: path.basename(file.filePath) })),
+        totalBytes: job.snapshot.totalBytes ?? job.snapshot.downloadedBytes,
+        etaSeconds: 0
+      }, true);
+    } catch (error) {
+      if (isPaused(signal)) {
+        update(job, { phase: 'paused', bytesPerSecond: 0, etaSeconds: null }, true);
+      } else if (signal.aborted) {
+        await extractor.discard?.(job.state);
+        update(job, { phase: 'cancelled', bytesPerSecond: 0, etaSeconds: null }, true);
+      } else {
+        console.error(`[companion] ${extractor.id} failed for ${url}`, error);
+        await extractor.discard?.(job.state);
+        update(job, {
+          phase: 'error',
+          error: (error as Error).message,
+          errorKind: classifyExtractorError(error),
+          bytesPerSecond: 0,
+          etaSeconds: null
+        }, true);
+      }
+    }
+  };
+
+  const run = (job: DownloadJob) => {
+    job.controller = new AbortController();
+    job.lastSample = { time: Date.now(), bytes: job.snapshot.downloadedBytes };
+    job.running = execute(job).finally(() => { job.running = null; });
+  };
+
+  const create = ({ url, type, format, tags, clip, fileName, subtitles }: CreateDownloadRequest): DownloadSnapshot => {
+    const job: DownloadJob = {
+      format,
+      tags,
+      clip,
+      requestedName: fileName,
+      subtitles,
+      snapshot: {
+        id: randomUUID(),
+        url,
+        type,
+        clip,
+        phase: 'connecting',
+        extractor: null,
+        downloadedBytes: 0,
+        totalBytes: null,
+        bytesPerSecond: 0,
+        etaSeconds: null
+      },
+      extractor: null,
+      state: {},
+      controller: new AbortController(),
+      running: null,
+      listeners: new Set(),
+      lastSample: { time: Date.now(), bytes: 0 },
+      lastEmit: 0
+    };
+
+    jobs.set(job.snapshot.id, job);
+    run(job);
+    return { ...job.snapshot };
+  };
+
+  const get = (id: string) => jobs.get(id);
+
+  // Resolves once the job has actually stopped, so a resume right after is safe
+  const pause = async (id: string) => {
+    const job = jobs.get(id);
+    if (!job) return false;
+    if (job.running) {
+      job.controller.abort(PAUSE_REASON);
+      await job.running;
+    }
+    return true;
+  };
+
+  const resume = (id: string) => {
+    const job = jobs.get(id);
+    if (!job) return false;
+    if (job.snapshot.phase === 'paused' && !job.running) run(job);
+    return true;
+  };
+
+  const cancel = async (id: string) => {
+    const job = jobs.get(id);
+    if (!job) return false;
+    if (job.running) {
+      job.controller.abort();
+    } else if (job.snapshot.phase === 'paused') {
+      await job.extractor?.discard?.(job.state);
+      update(job, { phase: 'cancelled' }, true);
+    }
+    return true;
+  };
+
+  // Rewrites the tags of a finished file; `tags` replaces the previous set entirely
+  const retag = async (id: string, tags: MediaTags) => {
+    const job = jobs.get(id);
+    if (!job?.filePath || job.snapshot.phase !== 'completed') return null;
+    if (!canTag(job.filePath)) throw new Error('Este formato no admite etiquetas');
+    job.tags = tags;
+    update(job, { tags: await writeTags(job.filePath, tags) }, true);
+    return { ...job.snapshot };
+  };
+
+  // Returns an unsubscribe function; the listener immediately receives the current state
+  const subscribe = (id: string, listener: Listener) => {
+    const job = jobs.get(id);
+    if (!job) return null;
+    job.listeners.add(listener);
+    listener({ ...job.snapshot });
+    return () => { job.listeners.delete(listener); };
+  };
+
+  return { create, get, pause, resume, cancel, retag, subscribe };
+};
+
+export type DownloadManager = ReturnType<typeof createDownloadManager>;
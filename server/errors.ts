@@ -0,0 +1,19 @@
+import { ErrorKind } from './protocol';
+
+// Extractor failures (mostly yt-dlp's last stderr line) mapped onto the shared taxonomy
+const PATTERNS: [RegExp, ErrorKind][] = [
+  [/private video|video is private|members[- ]only|login required|sign in to confirm|requires authentication|HTTP 40[13]\b/i, 'private_content'],
+  [/available in your country|geo[- ]?restrict|blocked it in your country|not available from your location|HTTP 451\b/i, 'geo_blocked'],
+  [/unsupported url|ningún extractor/i, 'unsupported_platform'],
+  [/HTTP 429\b|too many requests|rate[- ]limit/i, 'quota'],
+  [/timed? ?out|ETIMEDOUT/i, 'timeout'],
+  [/ECONNREFUSED|ECONNRESET|ENOTFOUND|EAI_AGAIN|fetch failed|network is unreachable|getaddrinfo/i, 'network'],
+  [/HTTP 5\d\d\b/, 'unavailable']
+];
+
+export const classifyExtractorError = (error: unknown): ErrorKind => {
+  const text = error instanceof Error
+    ? `${error.message} ${(error.cause as Error | undefined)?.message ?? ''}`
+    : String(error);
+  return PATTERNS.find(([pattern]) => pattern.test(text))?.[1] ?? 'download_failed';
+};
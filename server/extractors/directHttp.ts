@@ -0,0 +1,171 @@
+import { createWriteStream } from 'fs';
+import { rename, rm, stat } from 'fs/promises';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream } from 'stream/web';
+import path from 'path';
+import { Extractor, isPaused } from './types';
+import { mimeTypeFor, uniqueFilePath, fileNameFromUrl, resolveOutputPath, releaseFilePath } from '../files';
+import { PlaylistEntry } from '../protocol';
+
+const MEDIA_EXTENSIONS = ['mp4', 'webm', 'mkv', 'mov', 'm4v', 'mp3', 'm4a', 'aac', 'ogg', 'opus', 'flac', 'wav'];
+const PLAYLIST_EXTENSIONS = ['m3u'];
+
+const extensionOf = (url: URL | string) =>
+  path.extname(new URL(url).pathname).slice(1).toLowerCase();
+
+// Parses an (extended) M3U file; relative entries are resolved against the playlist URL
+export const parseM3u = (text: string, baseUrl: string) => {
+  const entries: PlaylistEntry[] = [];
+  let title: string | null = null;
+  let pending: { title?: string; durationSeconds: number | null; thumbnailUrl?: string } | null = null;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith('#PLAYLIST:')) {
+      title = line.slice('#PLAYLIST:'.length).trim() || null;
+    } else if (line.startsWith('#EXTINF:')) {
+      const [info, ...rest] = line.slice('#EXTINF:'.length).split(',');
+      const duration = parseFloat(info);
+      const logo = info.match(/tvg-logo="([^"]+)"/);
+      pending = {
+        title: rest.join(',').trim() || undefined,
+        durationSeconds: Number.isFinite(duration) && duration >= 0 ? Math.round(duration) : null,
+        thumbnailUrl: logo?.[1]
+      };
+    } else if (!line.startsWith('#')) {
+      const url = new URL(line, baseUrl).href;
+      entries.push({
+        index: entries.length + 1,
+        url,
+        title: pending?.title || decodeURIComponent(path.basename(new URL(url).pathname)),
+        durationSeconds: pending?.durationSeconds ?? null,
+        thumbnailUrl: pending?.thumbnailUrl
+      });
+      pending = null;
+    }
+  }
+
+  return { title, entries };
+};
+
+// Streams a plain media URL (a file served over HTTP) straight to disk.
+// Plain M3U playlists are understood as well, so their entries can be listed.
+export const directHttpExtractor: Extractor = {
+  id: 'direct-http',
+
+  canHandle: (url) => {
+    const ext = extensionOf(url);
+    return MEDIA_EXTENSIONS.includes(ext) || PLAYLIST_EXTENSIONS.includes(ext);
+  },
+
+  isAvailable: async () => true,
+
+  extract: async ({ url, outputDir, fileName, signal, onProgress, state }) => {
+    if (PLAYLIST_EXTENSIONS.includes(extensionOf(url))) {
+      throw new Error('El enlace es una lista de reproducción; carga su contenido primero');
+    }
+
+    // Data goes to a ".part" file next to the final name until the transfer completes
+    if (typeof state.partPath !== 'string') {
+      const urlName = fileNameFromUrl(url);
+      const urlExt = path.extname(urlName);
+      state.finalPath = await resolveOutputPath(outputDir, fileName, urlExt) ?? await uniqueFilePath(outputDir, urlName);
+      state.partPath = `${state.finalPath}.part`;
+    }
+    const finalPath = state.finalPath as string;
+    const partPath = state.partPath as string;
+    // Until the ".part" file exists the name is only held by the claim
+    let contentType: string | null;
+    try {
+      const offset = await stat(partPath).then(s => s.size, () => 0);
+
+      const response = await fetch(url, {
+        signal,
+        headers: offset > 0 ? { Range: `bytes=${offset}-` } : undefined
+      });
+      if (!response.ok || !response.body) {
+        throw new Error(`HTTP ${response.status} al descargar ${url}`);
+      }
+
+      // Servers that ignore the Range header send the whole file again
+      const resumed = offset > 0 && response.status === 206;
+      const length = Number(response.headers.get('content-length'));
+      const totalBytes = Number.isFinite(length) && length > 0 ? length + (resumed ? offset : 0) : null;
+
+      let downloadedBytes = resumed ? offset : 0;
+      onProgress({ downloadedBytes, totalBytes });
+
+      const counter = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          downloadedBytes += chunk.length;
+          onProgress({ downloadedBytes, totalBytes });
+          callback(null, chunk);
+        }
+      });
+
+      try {
+        await pipeline(
+          // fetch() is typed with the DOM's ReadableStream, Readable.fromWeb() with Node's
+          Readable.fromWeb(response.body as ReadableStream<Uint8Array>),
+          counter,
+          createWriteStream(partPath, { flags: resumed ? 'a' : 'w' }),
+          { signal }
+        );
+      } catch (error) {
+        // Paused jobs keep their partial data; anything else must not leave half-written files behind
+        if (!isPaused(signal)) await rm(partPath, { force: true });
+        throw error;
+      }
+
+      await rename(partPath, finalPath);
+      contentType = response.headers.get('content-type');
+    } finally {
+      releaseFilePath(finalPath);
+    }
+    const filePath = finalPath;
+
+    return {
+      filePath,
+      metadata: { title: path.parse(fileNameFromUrl(url)).name },
+      mimeType: contentType && !contentType.startsWith('application/octet-stream')
+        ? contentType.split(';')[0]
+        : mimeTypeFor(filePath)
+    };
+  },
+
+  discard: async (state) => {
+    if (typeof state.partPath === 'string') await rm(state.partPath, { force: true });
+  },
+
+  // The browser plays the file from its own URL; it knows the duration once loaded
+  getPreview: async (url) => {
+    if (!MEDIA_EXTENSIONS.includes(extensionOf(url))) throw new Error('El enlace no es un archivo multimedia');
+    return { streamUrl: url, durationSeconds: null };
+  },
+
+  listEntries: async ({ url, page, pageSize, signal }) => {
+    if (!PLAYLIST_EXTENSIONS.includes(extensionOf(url))) {
+      throw new Error('El enlace no es una lista de reproducción');
+    }
+
+    const response = await fetch(url, { signal });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} al leer ${url}`);
+    }
+
+    const { title, entries } = parseM3u(await response.text(), url);
+    const start = (page - 1) * pageSize;
+
+    return {
+      title,
+      entries: entries.slice(start, start + pageSize),
+      page,
+      pageSize,
+      total: entries.length,
+      hasMore: start + pageSize < entries.length
+    };
+  }
+};
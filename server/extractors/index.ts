@@ -0,0 +1,35 @@
+import { Extractor } from './types';
+import { directHttpExtractor } from './directHttp';
+import { ytDlpExtractor } from './ytDlp';
+
+export * from './types';
+
+// Order matters: direct media links never need a site extractor
+const extractors: Extractor[] = [directHttpExtractor, ytDlpExtractor];
+
+export const registerExtractor = (extractor: Extractor, { first = false } = {}) => {
+  if (first) extractors.unshift(extractor);
+  else extractors.push(extractor);
+};
+
+export const resolveExtractor = async (
+  rawUrl: string,
+  { playlists = false, clips = false, subtitles = false }: { playlists?: boolean; clips?: boolean; subtitles?: boolean } = {}
+): Promise<Extractor | null> => {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return null;
+  }
+
+  for (const extractor of extractors) {
+    if (playlists && !extractor.listEntries) continue;
+    if (clips && !extractor.supportsClips) continue;
+    if (subtitles && !extractor.listSubtitles) continue;
+    if (extractor.canHandle(url) && await extractor.isAvailable()) {
+      return extractor;
+    }
+  }
+  return null;
+};
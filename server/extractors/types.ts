@@ -0,0 +1,70 @@
+import type { SubtitleFile } from '../subtitles';
+import type { ClipRange, FormatSelection, MediaFormatOptions, MediaPreview, MediaTags, PlaylistPage, SubtitleSelection, SubtitleTrack } from '../protocol';
+
+export type MediaKind = 'video' | 'audio';
+
+export interface TransferProgress {
+  downloadedBytes: number;
+  totalBytes: number | null;
+}
+
+// Abort reason used when a job is paused rather than cancelled: partial data must be kept
+export const PAUSE_REASON = 'vortex:paused';
+
+export const isPaused = (signal: AbortSignal) => signal.aborted && signal.reason === PAUSE_REASON;
+
+export interface ExtractContext {
+  url: string;
+  type: MediaKind;
+  format?: FormatSelection;
+  clip?: ClipRange; // Only passed to extractors with `supportsClips`
+  outputDir: string;
+  // Name the app asked for, relative to `outputDir` (see resolveOutputPath); extractors
+  // fall back to their own naming without it
+  fileName?: string;
+  subtitles?: SubtitleSelection; // Only passed to extractors with `listSubtitles`
+  signal: AbortSignal;
+  onProgress: (progress: TransferProgress) => void;
+  // Scratch space that survives pause/resume of the same job (e.g. the partial file path)
+  state: Record<string, unknown>;
+}
+
+export interface ExtractedFile {
+  filePath: string;
+  mimeType: string;
+  // Whatever the source reports about the media, used as default tags
+  metadata?: MediaTags;
+  // Caption files saved next to the media
+  subtitles?: SubtitleFile[];
+}
+
+export interface ListEntriesContext {
+  url: string;
+  page: number;
+  pageSize: number;
+  signal: AbortSignal;
+}
+
+/**
+ * An extractor knows how to turn a page or media URL into a file on disk.
+ * Extractors are tried in registration order; the first one whose
+ * `canHandle` returns true (and that is available) wins.
+ */
+export interface Extractor {
+  id: string;
+  canHandle: (url: URL) => boolean;
+  isAvailable: () => Promise<boolean>;
+  extract: (ctx: ExtractContext) => Promise<ExtractedFile>;
+  // Removes partial data left behind by a paused job that is then cancelled
+  discard?: (state: Record<string, unknown>) => Promise<void>;
+  // Only implemented by extractors that understand playlists, albums or sets
+  listEntries?: (ctx: ListEntriesContext) => Promise<PlaylistPage>;
+  // Only implemented by extractors that can pick among several renditions
+  listFormats?: (url: string, signal: AbortSignal) => Promise<MediaFormatOptions>;
+  // Only implemented by extractors that can resolve a URL the browser can play
+  getPreview?: (url: string, signal: AbortSignal) => Promise<MediaPreview>;
+  // Only implemented by extractors that can fetch caption tracks with the media
+  listSubtitles?: (url: string, signal: AbortSignal) => Promise<SubtitleTrack[]>;
+  // Set by extractors that can download a single segment of the media
+  supportsClips?: boolean;
+}
@@ -0,0 +1,345 @@
+import { spawn } from 'child_process';
+import { mkdir, rm } from 'fs/promises';
+import path from 'path';
+import { Extractor, isPaused } from './types';
+import { mimeTypeFor, resolveOutputPath, releaseFilePath } from '../files';
+import { asArray, asObject, isObject, optionalNumber, optionalString } from '../json';
+import { convertSubtitleFile, findSubtitleFiles } from '../subtitles';
+import { ClipRange, FormatSelection, MediaFormatOptions, MediaTags, PlaylistEntry, SubtitleSelection, SubtitleTrack, VideoCodec } from '../protocol';
+
+const YTDLP_BIN = process.env.VORTEX_YTDLP_PATH || 'yt-dlp';
+const PROGRESS_PREFIX = 'VORTEX_PROGRESS';
+const TARGET_PREFIX = 'VORTEX_TARGET';
+const FILE_PREFIX = 'VORTEX_FILE';
+const META_PREFIX = 'VORTEX_META';
+const PREVIEW_PREFIX = 'VORTEX_PREVIEW';
+// Fields read back after the download to prefill the audio tags
+const META_FIELDS = 'title,track,artist,creator,uploader,album,track_number,release_year,upload_date,thumbnail';
+
+let availability: Promise<boolean> | null = null;
+
+const checkBinary = () => new Promise<boolean>((resolve) => {
+  const child = spawn(YTDLP_BIN, ['--version'], { stdio: 'ignore' });
+  child.on('error', () => resolve(false));
+  child.on('close', (code) => resolve(code === 0));
+});
+
+// Runs yt-dlp, feeding every stdout line to `onLine`; resolves once the process exits successfully
+const runYtDlp = (args: string[], signal: AbortSignal, onLine: (line: string) => void) =>
+  new Promise<void>((resolve, reject) => {
+    const child = spawn(YTDLP_BIN, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    let stderr = '';
+    let buffered = '';
+
+    const onAbort = () => child.kill('SIGTERM');
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    child.stdout.setEncoding('utf8');
+    child.stdout.on('data', (data: string) => {
+      buffered += data;
+      const lines = buffered.split(/\r?\n/);
+      buffered = lines.pop() ?? '';
+      lines.forEach(onLine);
+    });
+
+    child.stderr.setEncoding('utf8');
+    child.stderr.on('data', (data: string) => { stderr += data; });
+
+    child.on('error', (error) => {
+      signal.removeEventListener('abort', onAbort);
+      reject(error);
+    });
+
+    child.on('close', (code) => {
+      signal.removeEventListener('abort', onAbort);
+      if (buffered) onLine(buffered);
+      if (signal.aborted) {
+        reject(signal.reason ?? new Error('Operación cancelada'));
+      } else if (code !== 0) {
+        reject(new Error(stderr.trim().split('\n').pop() || `yt-dlp terminó con código ${code}`));
+      } else {
+        resolve();
+      }
+    });
+  });
+
+const VCODEC_PREFIXES: Record<VideoCodec, string[]> = {
+  h264: ['avc1', 'h264'],
+  vp9: ['vp09', 'vp9'],
+  av1: ['av01']
+};
+
+const toVideoCodec = (vcodec: string | undefined): VideoCodec | null => {
+  if (!vcodec || vcodec === 'none') return null;
+  const codec = (Object.keys(VCODEC_PREFIXES) as VideoCodec[])
+    .find(key => VCODEC_PREFIXES[key].some(prefix => vcodec.startsWith(prefix)));
+  return codec ?? null;
+};
+
+// Downloads are always converted or remuxed into this container, so it is the final extension
+const outputContainer = (type: 'video' | 'audio', format?: FormatSelection) =>
+  format?.container || (type === 'audio' ? 'mp3' : 'mp4');
+
+// Translates a format selection into yt-dlp's format filter and post-processing flags
+const buildFormatArgs = (type: 'video' | 'audio', format?: FormatSelection) => {
+  if (type === 'audio') {
+    const container = outputContainer(type, format);
+    return [
+      '-f', 'ba/b',
+      '-x', '--audio-format', container,
+      ...(format?.audioBitrate && container !== 'flac' ? ['--audio-quality', `${format.audioBitrate}K`] : [])
+    ];
+  }
+
+  const container = outputContainer(type, format);
+  const height = format?.maxHeight ? `[height<=${format.maxHeight}]` : '';
+  // yt-dlp has no OR inside a filter, so each codec prefix becomes an alternative
+  const preferred = format?.videoCodec
+    ? VCODEC_PREFIXES[format.videoCodec].map(prefix => `bv*${height}[vcodec^=${prefix}]+ba`).join('/') + '/'
+    : '';
+
+  return [
+    '-f', `${preferred}bv*${height}+ba/b${height}/bv*+ba/b`,
+    '--merge-output-format', container,
+    '--remux-video', container
+  ];
+};
+
+// Containers that take soft subtitles; anything else gets them as separate files
+const EMBED_CONTAINERS = ['mp4', 'mkv'];
+
+const shouldEmbed = (type: 'video' | 'audio', format: FormatSelection | undefined, subtitles: SubtitleSelection) =>
+  subtitles.mode === 'embed' && EMBED_CONTAINERS.includes(outputContainer(type, format));
+
+// Language codes are validated by the server, so they are safe inside --sub-langs (a list of regexes)
+const buildSubtitleArgs = (type: 'video' | 'audio', format?: FormatSelection, subtitles?: SubtitleSelection) => {
+  if (type !== 'video' || !subtitles?.tracks.length) return [];
+  const languages = [...new Set(subtitles.tracks.map(track => track.language))];
+  return [
+    '--sub-langs', languages.join(','),
+    '--sub-format', 'vtt/srt/ass/best',
+    ...(subtitles.tracks.some(track => !track.automatic) ? ['--write-subs'] : []),
+    ...(subtitles.tracks.some(track => track.automatic) ? ['--write-auto-subs'] : []),
+    // MP4 only holds mov_text, which yt-dlp converts to by itself; MKV keeps the chosen format
+    ...(shouldEmbed(type, format, subtitles)
+      ? ['--embed-subs', ...(outputContainer(type, format) === 'mkv' ? ['--convert-subs', subtitles.format] : [])]
+      : [])
+  ];
+};
+
+// yt-dlp's { language: [{ ext, url, name }] } maps; live chat replays are listed as subtitles too
+const toSubtitleTracks = (tracks: unknown, automatic: boolean): SubtitleTrack[] =>
+  Object.entries(asObject(tracks))
+    .filter(([language]) => language !== 'live_chat' && /^[\w-]+$/.test(language))
+    .map(([language, formats]) => ({
+      language,
+      name: asArray(formats).map(f => optionalString(asObject(f).name)).find(Boolean),
+      automatic
+    }));
+
+// Cuts are re-encoded at keyframes so the segment starts exactly where it was marked
+const buildClipArgs = (clip?: ClipRange) => clip
+  ? ['--download-sections', `*${clip.startSeconds}-${clip.endSeconds ?? 'inf'}`, '--force-keyframes-at-cuts']
+  : [];
+
+// A clip gets its own file name, so it doesn't overwrite (or resume) the full download
+const clipLabel = (clip?: ClipRange) => clip
+  ? ` (${Math.floor(clip.startSeconds)}-${clip.endSeconds !== undefined ? Math.ceil(clip.endSeconds) : 'end'})`
+  : '';
+
+const outputTemplate = (clip?: ClipRange) => `%(title)s [%(id)s]${clipLabel(clip)}.%(ext)s`;
+
+// A fixed path as an output template: "%" is yt-dlp's field marker
+const fixedTemplate = (filePath: string) =>
+  `${filePath.slice(0, filePath.length - path.extname(filePath).length).replace(/%/g, '%%')}.%(ext)s`;
+
+const toMetadata = (raw: unknown): MediaTags => {
+  const info = asObject(raw);
+  const year = optionalNumber(info.release_year) ?? Number(optionalString(info.upload_date)?.slice(0, 4));
+  return {
+    title: optionalString(info.track) ?? optionalString(info.title),
+    artist: optionalString(info.artist) ?? optionalString(info.creator) ?? optionalString(info.uploader),
+    album: optionalString(info.album),
+    track: optionalNumber(info.track_number),
+    year: Number.isInteger(year) && year > 0 ? year : undefined,
+    coverUrl: optionalString(info.thumbnail)
+  };
+};
+
+// Entries without a URL can't be downloaded and are left out
+const toPlaylistEntry = (entry: unknown, index: number): PlaylistEntry | null => {
+  const info = asObject(entry);
+  const url = optionalString(info.webpage_url) ?? optionalString(info.url);
+  if (!url) return null;
+  const duration = optionalNumber(info.duration);
+  return {
+    index,
+    url,
+    title: optionalString(info.title) ?? optionalString(info.id) ?? `#${index}`,
+    durationSeconds: duration !== undefined ? Math.round(duration) : null,
+    thumbnailUrl: optionalString(info.thumbnail) ?? optionalString(asObject(asArray(info.thumbnails).at(-1)).url)
+  };
+};
+
+// Delegates site-specific extraction (YouTube, TikTok, Instagram...) to a locally installed yt-dlp.
+export const ytDlpExtractor: Extractor = {
+  id: 'yt-dlp',
+
+  canHandle: (url) => url.protocol === 'http:' || url.protocol === 'https:',
+
+  isAvailable: () => {
+    if (!availability) availability = checkBinary();
+    return availability;
+  },
+
+  // yt-dlp resumes its own ".part" files when re-run with the same arguments after a pause
+  supportsClips: true,
+
+  extract: async ({ url, type, format, clip, outputDir, fileName, subtitles, signal, onProgress, state }) => {
+    await mkdir(outputDir, { recursive: true });
+
+    // Names from the app are settled before the first run, collisions included, so a resume reuses them
+    if (fileName && state.outputPath === undefined) {
+      state.outputPath = await resolveOutputPath(outputDir, fileName, `${clipLabel(clip)}.${outputContainer(type, format)}`);
+    }
+    const outputPath = typeof state.outputPath === 'string' ? state.outputPath : null;
+
+    const args = [
+      url,
+      '--no-playlist',
+      '--newline',
+      '--progress',
+      '--progress-template',
+      `download:${PROGRESS_PREFIX} %(progress.downloaded_bytes)s %(progress.total_bytes)s %(progress.total_bytes_estimate)s`,
+      '--print', `before_dl:${TARGET_PREFIX} %(filename)s`,
+      '--print', `after_move:${FILE_PREFIX} %(filepath)s`,
+      '--print', `after_move:${META_PREFIX} %(.{${META_FIELDS}})j`,
+      '-o', outputPath ? fixedTemplate(outputPath) : path.join(outputDir, outputTemplate(clip)),
+      ...buildFormatArgs(type, format),
+      ...buildClipArgs(clip),
+      ...buildSubtitleArgs(type, format, subtitles)
+    ];
+
+    let filePath = '';
+    let metadata: MediaTags | undefined;
+    await runYtDlp(args, signal, (line) => {
+      if (line.startsWith(PROGRESS_PREFIX)) {
+        const [downloaded, total, estimate] = line.slice(PROGRESS_PREFIX.length).trim().split(' ').map(Number);
+        const totalBytes = Number.isFinite(total) ? total : Number.isFinite(estimate) ? estimate : null;
+        onProgress({ downloadedBytes: Number.isFinite(downloaded) ? downloaded : 0, totalBytes });
+      } else if (line.startsWith(TARGET_PREFIX)) {
+        state.targetPath = line.slice(TARGET_PREFIX.length).trim();
+      } else if (line.startsWith(FILE_PREFIX)) {
+        filePath = line.slice(FILE_PREFIX.length).trim();
+      } else if (line.startsWith(META_PREFIX)) {
+        try {
+          metadata = toMetadata(JSON.parse(line.slice(META_PREFIX.length)));
+        } catch {
+          // Tags fall back to what the app sent
+        }
+      }
+    }).finally(() => {
+      // A paused job keeps its name until it is resumed or discarded
+      if (outputPath && !isPaused(signal)) releaseFilePath(outputPath);
+    });
+
+    if (!filePath) throw new Error('yt-dlp no informó el archivo generado');
+
+    // Embedded tracks leave no files behind; separate ones are converted to the format asked for
+    const wantsSidecars = type === 'video' && !!subtitles?.tracks.length && !shouldEmbed(type, format, subtitles);
+    const subtitleFiles = wantsSidecars
+      ? await Promise.all((await findSubtitleFiles(filePath)).map(file => convertSubtitleFile(file, subtitles!.format)))
+      : undefined;
+    return { filePath, mimeType: mimeTypeFor(filePath), metadata, subtitles: subtitleFiles };
+  },
+
+  discard: async (state) => {
+    if (typeof state.outputPath === 'string') releaseFilePath(state.outputPath);
+    if (typeof state.targetPath !== 'string') return;
+    await rm(`${state.targetPath}.part`, { force: true });
+    await rm(`${state.targetPath}.ytdl`, { force: true });
+  },
+
+  // A single progressive file: players can't merge separate video and audio streams
+  getPreview: async (url, signal) => {
+    let line = '';
+    await runYtDlp(
+      [url, '--no-playlist', '-f', 'b[ext=mp4]/b', '--print', `${PREVIEW_PREFIX} %(.{url,duration})j`],
+      signal,
+      (out) => { if (out.startsWith(PREVIEW_PREFIX)) line = out.slice(PREVIEW_PREFIX.length); }
+    );
+    const info = asObject(JSON.parse(line || '{}'));
+    const streamUrl = optionalString(info.url);
+    if (!streamUrl) throw new Error('yt-dlp no devolvió una URL reproducible');
+    return { streamUrl, durationSeconds: optionalNumber(info.duration) ?? null };
+  },
+
+  listSubtitles: async (url, signal) => {
+    let json = '';
+    await runYtDlp([url, '--no-playlist', '-J'], signal, (line) => { json += line; });
+    const info = asObject(JSON.parse(json));
+    const byLanguage = (a: SubtitleTrack, b: SubtitleTrack) => a.language.localeCompare(b.language);
+    // Original-language automatic captions ("en-orig") before the machine translations
+    const automatic = toSubtitleTracks(info.automatic_captions, true)
+      .sort((a, b) => Number(b.language.endsWith('-orig')) - Number(a.language.endsWith('-orig')) || byLanguage(a, b));
+    return [...toSubtitleTracks(info.subtitles, false).sort(byLanguage), ...automatic];
+  },
+
+  listFormats: async (url, signal) => {
+    let json = '';
+    await runYtDlp([url, '--no-playlist', '-J'], signal, (line) => { json += line; });
+
+    const formats = asArray(asObject(JSON.parse(json)).formats).filter(isObject);
+    const heights = new Set<number>();
+    const videoCodecs = new Set<VideoCodec>();
+    const audioBitrates = new Set<number>();
+
+    for (const f of formats) {
+      const vcodec = optionalString(f.vcodec);
+      const acodec = optionalString(f.acodec);
+      const height = optionalNumber(f.height);
+      const abr = optionalNumber(f.abr);
+      const codec = toVideoCodec(vcodec);
+      if (codec) videoCodecs.add(codec);
+      if (vcodec && vcodec !== 'none' && height !== undefined) heights.add(height);
+      if (acodec && acodec !== 'none' && (!vcodec || vcodec === 'none') && abr !== undefined) {
+        audioBitrates.add(Math.round(abr));
+      }
+    }
+
+    const descending = (a: number, b: number) => b - a;
+    return {
+      heights: [...heights].sort(descending),
+      videoCodecs: [...videoCodecs],
+      audioBitrates: [...audioBitrates].sort(descending)
+    };
+  },
+
+  listEntries: async ({ url, page, pageSize, signal }) => {
+    const first = (page - 1) * pageSize + 1;
+    const last = first + pageSize - 1;
+    let json = '';
+
+    await runYtDlp(
+      [url, '--yes-playlist', '--flat-playlist', '-J', '--playlist-items', `${first}:${last}`],
+      signal,
+      (line) => { json += line; }
+    );
+
+    const info = asObject(JSON.parse(json));
+    const listed = asArray(info.entries);
+    const entries = listed
+      .map((entry, i) => toPlaylistEntry(entry, first + i))
+      .filter((entry): entry is PlaylistEntry => entry !== null);
+    const total = optionalNumber(info.playlist_count) ?? null;
+
+    return {
+      title: optionalString(info.title) ?? null,
+      entries,
+      page,
+      pageSize,
+      total,
+      hasMore: total !== null ? last < total : listed.length === pageSize
+    };
+  }
+};
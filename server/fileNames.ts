@@ -0,0 +1,66 @@
+// File name rules shared by the companion and the browser (no Node imports here).
+// Names must be valid on Windows, macOS and Linux at once, whichever machine runs the companion.
+
+// Bytes, not characters: most file systems cap a name at 255 bytes. The margin leaves room
+// for " (n)" suffixes and the ".part"/".ytdl" files of downloads in progress.
+export const MAX_SEGMENT_BYTES = 180;
+export const MAX_PATH_DEPTH = 4;
+
+// Device names Windows refuses as a file name, with or without an extension
+const RESERVED_NAMES = /^(?:con|prn|aux|nul|com[0-9¹²³]|lpt[0-9¹²³])(?:\.|$)/i;
+
+const utf8Length = (text: string) => new TextEncoder().encode(text).length;
+
+// Cuts on character boundaries so multi-byte letters and emoji are never split
+const truncateBytes = (text: string, maxBytes: number) => {
+  let result = '';
+  let bytes = 0;
+  for (const char of text) {
+    bytes += utf8Length(char);
+    if (bytes > maxBytes) break;
+    result += char;
+  }
+  return result;
+};
+
+/** Extension of a file name including the dot, or '' (dotfiles and trailing dots have none). */
+export const extensionOf = (fileName: string) => {
+  const match = fileName.match(/(\.[^.\s]{1,10})$/);
+  return match && match.index ? match[1] : '';
+};
+
+/**
+ * One path segment made safe: forbidden and control characters become "_", leading
+ * dots (hidden files) and trailing dots or spaces (dropped by Windows) go away, Windows
+ * device names get a "_" prefix, and long names are cut before the extension.
+ * Returns '' when nothing usable is left.
+ */
+export const sanitizeSegment = (name: string) => {
+  let clean = name
+    .normalize('NFC')
+    .replace(/[<>:"/\\|?*\u0000-\u001f\u007f]/g, '_')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s.]+/, '')
+    .replace(/[. ]+$/, '');
+  if (!clean) return '';
+  if (RESERVED_NAMES.test(clean)) clean = `_${clean}`;
+
+  if (utf8Length(clean) > MAX_SEGMENT_BYTES) {
+    const ext = extensionOf(clean);
+    const stem = truncateBytes(clean.slice(0, clean.length - ext.length), MAX_SEGMENT_BYTES - utf8Length(ext));
+    clean = stem.replace(/[. ]+$/, '') + ext;
+  }
+  return clean;
+};
+
+/**
+ * A relative path ("folder/sub/name.ext") made safe segment by segment. "." and ".."
+ * sanitize to nothing and empty segments are dropped, so the result can never leave the
+ * output folder; only the first MAX_PATH_DEPTH folders are kept.
+ */
+export const sanitizeRelativePath = (relativePath: string) => {
+  const segments = relativePath.split(/[/\\]+/).map(sanitizeSegment).filter(Boolean);
+  if (segments.length === 0) return '';
+  const fileName = segments.pop()!;
+  return [...segments.slice(0, MAX_PATH_DEPTH), fileName].join('/');
+};
@@ -0,0 +1,76 @@
+import { access, mkdir } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { extensionOf, sanitizeRelativePath, sanitizeSegment } from './fileNames';
+
+const MIME_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.m4v': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mkv': 'video/x-matroska',
+  '.mov': 'video/quicktime',
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.aac': 'audio/aac',
+  '.ogg': 'audio/ogg',
+  '.opus': 'audio/opus',
+  '.flac': 'audio/flac',
+  '.wav': 'audio/wav'
+};
+
+export const defaultOutputDir = () =>
+  process.env.VORTEX_OUTPUT_DIR || path.join(os.homedir(), 'Downloads', 'VortexMedia');
+
+export const mimeTypeFor = (filePath: string) =>
+  MIME_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+
+export const sanitizeFileName = (name: string) => sanitizeSegment(name) || 'media';
+
+export const fileNameFromUrl = (url: string) => {
+  const base = path.basename(new URL(url).pathname);
+  return sanitizeFileName(decodeURIComponent(base || 'media'));
+};
+
+// Paths handed out to downloads that haven't created their file yet, so two jobs started
+// together with the same name don't both pick it
+const claimedPaths = new Set<string>();
+
+const exists = (filePath: string) => access(filePath).then(() => true, () => false);
+
+/**
+ * Returns a path inside `dir` that does not exist yet (nor its ".part" file), adding
+ * " (n)" before the extension if needed. The path stays claimed until `releaseFilePath`.
+ */
+export const uniqueFilePath = async (dir: string, fileName: string) => {
+  await mkdir(dir, { recursive: true });
+  const ext = extensionOf(fileName);
+  const stem = fileName.slice(0, fileName.length - ext.length);
+
+  for (let n = 0; ; n++) {
+    const candidate = path.join(dir, n === 0 ? fileName : `${stem} (${n})${ext}`);
+    if (claimedPaths.has(candidate)) continue;
+    claimedPaths.add(candidate);
+    if (!(await exists(candidate)) && !(await exists(`${candidate}.part`))) return candidate;
+    claimedPaths.delete(candidate);
+  }
+};
+
+export const releaseFilePath = (filePath: string) => {
+  claimedPaths.delete(filePath);
+};
+
+/**
+ * Unique, claimed path under `outputDir` for the name the app asked for, possibly with
+ * subfolders ("Playlist/01 - Title.mp3"). Its extension is replaced by `ending` (the real
+ * extension, maybe after a clip range) or kept when `ending` is empty. Null when nothing
+ * usable is left of the request.
+ */
+export const resolveOutputPath = async (outputDir: string, requested: string | undefined, ending: string) => {
+  const relative = requested ? sanitizeRelativePath(requested) : '';
+  if (!relative) return null;
+  const folder = path.dirname(relative);
+  const base = path.basename(relative);
+  const ext = extensionOf(base);
+  const stem = base.slice(0, base.length - ext.length) || 'media';
+  return uniqueFilePath(path.join(outputDir, folder), sanitizeFileName(`${stem}${ending || ext}`));
+};
@@ -0,0 +1,129 @@
+import http from 'http';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { mimeTypeFor } from './files';
+import { handleVeoStub } from './veoStub';
+
+// Local HTTP server that serves synthetic "media" files, so the download
+// pipeline can be exercised end to end without touching real platforms.
+//
+//   GET /media/<name>.<ext>?size=<bytes>&rate=<bytes per second>
+//   GET /playlists/<name>.m3u?count=<entries>&ext=<media extension>
+//   GET /status/<code>            -> responds with that HTTP status
+//   /veo/...                      -> stubbed Veo operations (see veoStub.ts)
+
+export const FIXTURE_PORT = 3002;
+
+const DEFAULT_SIZE = 5 * 1024 * 1024;
+const DEFAULT_RATE = 1024 * 1024;
+const TICK_MS = 100;
+
+// Deterministic content so checksums of downloaded fixtures are stable
+const fixtureByte = (offset: number) => (offset * 31 + 7) & 0xff;
+
+const fillChunk = (start: number, length: number) => {
+  const chunk = Buffer.allocUnsafe(length);
+  for (let i = 0; i < length; i++) chunk[i] = fixtureByte(start + i);
+  return chunk;
+};
+
+const parseRange = (header: string | undefined, size: number) => {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match) return null;
+  const start = match[1] ? Number(match[1]) : size - Number(match[2]);
+  const end = match[1] && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  return start <= end && start < size ? { start, end } : null;
+};
+
+const buildPlaylist = (name: string, count: number, ext: string) => {
+  const lines = ['#EXTM3U', `#PLAYLIST:${name}`];
+  for (let i = 1; i <= count; i++) {
+    lines.push(`#EXTINF:${60 + i},${name} - Pista ${i}`);
+    lines.push(`/media/${encodeURIComponent(name)}-${i}.${ext}`);
+  }
+  return lines.join('\n') + '\n';
+};
+
+const streamThrottled = (res: http.ServerResponse, start: number, end: number, rate: number) => {
+  const perTick = Math.max(1, Math.round(rate * TICK_MS / 1000));
+  let offset = start;
+
+  const timer = setInterval(() => {
+    const length = Math.min(perTick, end + 1 - offset);
+    res.write(fillChunk(offset, length));
+    offset += length;
+    if (offset > end) {
+      clearInterval(timer);
+      res.end();
+    }
+  }, TICK_MS);
+
+  res.on('close', () => clearInterval(timer));
+};
+
+export const createFixtureServer = () => http.createServer(async (req, res) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  if (await handleVeoStub(req, res, url)) return;
+
+  const status = url.pathname.match(/^\/status\/(\d{3})$/);
+
+  if (status) {
+    res.writeHead(Number(status[1])).end();
+    return;
+  }
+
+  const playlist = url.pathname.match(/^\/playlists\/([^/]+)\.m3u$/);
+  if (playlist) {
+    const count = Math.max(1, Number(url.searchParams.get('count')) || 10);
+    const ext = url.searchParams.get('ext') || 'mp4';
+    res.writeHead(200, { 'Content-Type': 'audio/x-mpegurl' });
+    res.end(buildPlaylist(decodeURIComponent(playlist[1]), count, ext));
+    return;
+  }
+
+  if (!url.pathname.startsWith('/media/')) {
+    res.writeHead(404).end();
+    return;
+  }
+
+  const size = Number(url.searchParams.get('size')) || DEFAULT_SIZE;
+  const rate = Number(url.searchParams.get('rate')) || DEFAULT_RATE;
+  const range = parseRange(req.headers.range, size);
+  const headers = {
+    'Content-Type': mimeTypeFor(path.basename(url.pathname)),
+    'Accept-Ranges': 'bytes',
+    // The browser fetches stubbed Veo results from here
+    'Access-Control-Allow-Origin': '*'
+  };
+
+  if (req.headers.range && !range) {
+    res.writeHead(416, { 'Content-Range': `bytes */${size}` }).end();
+    return;
+  }
+
+  const { start, end } = range ?? { start: 0, end: size - 1 };
+  res.writeHead(range ? 206 : 200, {
+    ...headers,
+    'Content-Length': end - start + 1,
+    ...(range ? { 'Content-Range': `bytes ${start}-${end}/${size}` } : {})
+  });
+
+  if (req.method === 'HEAD') {
+    res.end();
+    return;
+  }
+  streamThrottled(res, start, end, rate);
+});
+
+export const startFixtureServer = (port = FIXTURE_PORT) => new Promise<http.Server>((resolve, reject) => {
+  const server = createFixtureServer();
+  server.once('error', reject);
+  server.listen(port, '127.0.0.1', () => resolve(server));
+});
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.VORTEX_FIXTURE_PORT) || FIXTURE_PORT;
+  startFixtureServer(port).then(() => {
+    console.log(`[fixtures] serving sample media on http://127.0.0.1:${port}/media/sample.mp4`);
+  });
+}
@@ -0,0 +1,397 @@
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import http from 'http';
+import path from 'path';
+import { TOKEN_HEADER, canReceiveToken, createAccessPolicy, defaultAllowedOrigins, hasValidToken, isAllowedHost, isAllowedOrigin, loadInstallToken } from './auth';
+import { createBundleStore, writeBundle } from './bundles';
+import { createDownloadManager } from './downloads';
+import { classifyExtractorError } from './errors';
+import { resolveExtractor } from './extractors';
+import { isObject } from './json';
+import { defaultOutputDir } from './files';
+import { ClipRange, CreateBundleRequest, CreateDownloadRequest, SubtitleSelection, isSubtitleFormat, isTerminalPhase } from './protocol';
+import { sanitizeTags } from './tags';
+
+export interface CompanionOptions {
+  port?: number;
+  host?: string;
+  outputDir?: string;
+  token?: string; // Defaults to the per-install token file (see server/auth.ts)
+  allowedOrigins?: string[];
+}
+
+export const COMPANION_PORT = 3001;
+
+const MAX_BODY_BYTES = 64 * 1024;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const MAX_BUNDLE_ENTRIES = 500;
+const MAX_FILE_NAME_LENGTH = 1024;
+const MAX_SUBTITLE_TRACKS = 20;
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'X-Content-Type-Options': 'nosniff' });
+  res.end(JSON.stringify(body));
+};
+
+const readJson = (req: http.IncomingMessage) => new Promise<unknown>((resolve, reject) => {
+  let body = '';
+  req.setEncoding('utf8');
+  req.on('data', (chunk: string) => {
+    body += chunk;
+    if (body.length > MAX_BODY_BYTES) {
+      reject(new Error('Cuerpo demasiado grande'));
+      req.destroy();
+    }
+  });
+  req.on('end', () => {
+    try {
+      resolve(body ? JSON.parse(body) : {});
+    } catch (error) {
+      reject(error);
+    }
+  });
+  req.on('error', reject);
+});
+
+const isHttpUrl = (url: unknown): url is string => typeof url === 'string' && /^https?:\/\//i.test(url);
+
+const isSeconds = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isValidClip = (clip: unknown): clip is ClipRange =>
+  isObject(clip) && isSeconds(clip.startSeconds) &&
+  (clip.endSeconds === undefined || (isSeconds(clip.endSeconds) && clip.endSeconds > clip.startSeconds));
+
+// Language codes end up in yt-dlp's --sub-langs, a list of regexes: letters, digits and dashes only
+const isValidSubtitleTrack = (track: unknown) =>
+  isObject(track) && typeof track.language === 'string' && /^[\w-]{1,40}$/.test(track.language);
+
+const isValidSubtitles = (subtitles: unknown): subtitles is SubtitleSelection =>
+  isObject(subtitles) &&
+  Array.isArray(subtitles.tracks) && subtitles.tracks.length <= MAX_SUBTITLE_TRACKS &&
+  subtitles.tracks.every(isValidSubtitleTrack) &&
+  isSubtitleFormat(subtitles.format) &&
+  (subtitles.mode === 'sidecar' || subtitles.mode === 'embed');
+
+const isValidRequest = (body: unknown): body is CreateDownloadRequest =>
+  isObject(body) &&
+  isHttpUrl(body.url) &&
+  (body.type === 'video' || body.type === 'audio') &&
+  (body.format === undefined || (isObject(body.format) && typeof body.format.container === 'string')) &&
+  (body.tags === undefined || isObject(body.tags)) &&
+  (body.clip === undefined || isValidClip(body.clip)) &&
+  (body.fileName === undefined || (typeof body.fileName === 'string' && body.fileName.length <= MAX_FILE_NAME_LENGTH)) &&
+  (body.subtitles === undefined || isValidSubtitles(body.subtitles));
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+const isValidBundleEntry = (entry: unknown) =>
+  isObject(entry) &&
+  typeof entry.downloadId === 'string' && isHttpUrl(entry.url) &&
+  isOptionalString(entry.platform) && isOptionalString(entry.summary) && isOptionalString(entry.format) &&
+  (entry.durationSeconds === undefined || Number.isFinite(entry.durationSeconds));
+
+const isValidBundleRequest = (body: unknown): body is CreateBundleRequest =>
+  isObject(body) &&
+  isOptionalString(body.name) &&
+  Array.isArray(body.entries) && body.entries.length > 0 && body.entries.length <= MAX_BUNDLE_ENTRIES &&
+  body.entries.every(isValidBundleEntry);
+
+export const createCompanionServer = ({
+  outputDir = defaultOutputDir(),
+  token = loadInstallToken(),
+  allowedOrigins = defaultAllowedOrigins()
+}: CompanionOptions = {}) => {
+  const policy = createAccessPolicy(token, allowedOrigins);
+  const downloads = createDownloadManager(outputDir);
+  const bundles = createBundleStore();
+
+  // Finished files only; anything else is left out of bundles
+  const lookupFile = (downloadId: string) => {
+    const job = downloads.get(downloadId);
+    if (!job?.filePath || job.snapshot.phase !== 'completed') return null;
+    return { filePath: job.filePath, fileName: job.snapshot.fileName || path.basename(job.filePath) };
+  };
+
+  return http.createServer(async (req, res) => {
+    if (!isAllowedHost(req.headers.host, policy)) {
+      sendJson(res, 403, { error: 'Host no permitido', kind: 'auth' });
+      return;
+    }
+
+    // The hosted web app talks to this service from another origin; other sites get nothing
+    const origin = req.headers.origin;
+    if (origin !== undefined && !isAllowedOrigin(origin, policy)) {
+      sendJson(res, 403, { error: 'Origen no permitido', kind: 'auth' });
+      return;
+    }
+    if (origin) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Vary', 'Origin');
+    }
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', `Content-Type, ${TOKEN_HEADER}`);
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    let requestUrl: URL;
+    try {
+      requestUrl = new URL(req.url || '/', 'http://localhost');
+    } catch {
+      // "//host" paths are read as authorities, and a malformed one doesn't parse
+      sendJson(res, 400, { error: 'Ruta no válida', kind: 'invalid_request' });
+      return;
+    }
+    const { pathname, searchParams } = requestUrl;
+
+    if (pathname === '/api/session' && req.method === 'GET') {
+      if (!canReceiveToken(req, policy)) {
+        sendJson(res, 403, { error: 'Origen no permitido', kind: 'auth' });
+        return;
+      }
+      res.setHeader('Cache-Control', 'no-store');
+      sendJson(res, 200, { token: policy.token });
+      return;
+    }
+
+    if (!hasValidToken(req, searchParams, policy)) {
+      sendJson(res, 401, { error: 'Falta el token del servicio de descargas', kind: 'auth' });
+      return;
+    }
+
+    const match = pathname.match(/^\/api\/downloads\/([\w-]+)(\/events|\/file|\/pause|\/resume|\/tags|\/subtitles\/\d+)?$/);
+    const bundleMatch = pathname.match(/^\/api\/bundles\/([\w-]+)$/);
+
+    try {
+      if (pathname === '/api/health' && req.method === 'GET') {
+        sendJson(res, 200, { ok: true, outputDir });
+        return;
+      }
+
+      if (pathname === '/api/playlists' && req.method === 'GET') {
+        const url = searchParams.get('url') || '';
+        const page = Math.max(1, Number(searchParams.get('page')) || 1);
+        const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(searchParams.get('pageSize')) || DEFAULT_PAGE_SIZE));
+        const extractor = isHttpUrl(url) ? await resolveExtractor(url, { playlists: true }) : null;
+
+        if (!extractor?.listEntries) {
+          sendJson(res, 422, { error: 'Ningún extractor puede leer esta lista', kind: 'unsupported_platform' });
+          return;
+        }
+
+        // Stop the extractor if the browser gives up on the request
+        const controller = new AbortController();
+        res.on('close', () => controller.abort());
+        sendJson(res, 200, await extractor.listEntries({ url, page, pageSize, signal: controller.signal }));
+        return;
+      }
+
+      if (pathname === '/api/formats' && req.method === 'GET') {
+        const url = searchParams.get('url') || '';
+        const extractor = isHttpUrl(url) ? await resolveExtractor(url) : null;
+
+        if (!extractor) {
+          sendJson(res, 422, { error: 'Ningún extractor disponible para este enlace', kind: 'unsupported_platform' });
+          return;
+        }
+        if (!extractor.listFormats) {
+          // Direct files come in a single rendition
+          sendJson(res, 200, { heights: [], videoCodecs: [], audioBitrates: [] });
+          return;
+        }
+
+        const controller = new AbortController();
+        res.on('close', () => controller.abort());
+        sendJson(res, 200, await extractor.listFormats(url, controller.signal));
+        return;
+      }
+
+      if (pathname === '/api/subtitles' && req.method === 'GET') {
+        const url = searchParams.get('url') || '';
+        const extractor = isHttpUrl(url) ? await resolveExtractor(url, { subtitles: true }) : null;
+
+        // Nothing that can fetch captions for this link: it simply has none to offer
+        if (!extractor?.listSubtitles) {
+          sendJson(res, 200, { tracks: [] });
+          return;
+        }
+
+        const controller = new AbortController();
+        res.on('close', () => controller.abort());
+        sendJson(res, 200, { tracks: await extractor.listSubtitles(url, controller.signal) });
+        return;
+      }
+
+      if (pathname === '/api/preview' && req.method === 'GET') {
+        const url = searchParams.get('url') || '';
+        const extractor = isHttpUrl(url) ? await resolveExtractor(url) : null;
+
+        if (!extractor?.getPreview) {
+          sendJson(res, 422, { error: 'Ningún extractor puede previsualizar este enlace', kind: 'unsupported_platform' });
+          return;
+        }
+
+        const controller = new AbortController();
+        res.on('close', () => controller.abort());
+        sendJson(res, 200, await extractor.getPreview(url, controller.signal));
+        return;
+      }
+
+      if (pathname === '/api/downloads' && req.method === 'POST') {
+        const body = await readJson(req);
+        if (!isValidRequest(body)) {
+          sendJson(res, 400, { error: 'Se requiere una URL http(s) y un tipo video/audio' });
+          return;
+        }
+        sendJson(res, 201, downloads.create({
+          url: body.url,
+          type: body.type,
+          format: body.format,
+          tags: body.tags ? sanitizeTags(body.tags) : undefined,
+          clip: body.clip && { startSeconds: body.clip.startSeconds, endSeconds: body.clip.endSeconds },
+          fileName: body.fileName,
+          subtitles: body.subtitles && {
+            tracks: body.subtitles.tracks.map(({ language, automatic }) => ({ language, automatic: !!automatic })),
+            format: body.subtitles.format,
+            mode: body.subtitles.mode
+          }
+        }));
+        return;
+      }
+
+      if (pathname === '/api/bundles' && req.method === 'POST') {
+        const body = await readJson(req);
+        if (!isValidBundleRequest(body)) {
+          sendJson(res, 400, { error: 'Se requiere al menos una descarga con su URL', kind: 'invalid_request' });
+          return;
+        }
+        sendJson(res, 201, bundles.create({
+          name: body.name,
+          entries: body.entries.map(({ downloadId, url, platform, summary, format, durationSeconds }) =>
+            ({ downloadId, url, platform, summary, format, durationSeconds })),
+          playlist: !!body.playlist
+        }));
+        return;
+      }
+
+      if (bundleMatch && req.method === 'GET') {
+        const bundle = bundles.get(bundleMatch[1]);
+        if (!bundle) {
+          sendJson(res, 404, { error: 'Archivo ZIP no encontrado o caducado', kind: 'not_found' });
+          return;
+        }
+        if (!bundle.entries.some(entry => lookupFile(entry.downloadId))) {
+          sendJson(res, 409, { error: 'Ninguno de los archivos sigue disponible' });
+          return;
+        }
+        // No Content-Length: the archive is built while it is sent
+        res.writeHead(200, {
+          'Content-Type': 'application/zip',
+          'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(`${bundle.name}.zip`)}`
+        });
+        await writeBundle(res, bundle, lookupFile);
+        res.end();
+        return;
+      }
+
+      if (!match) {
+        sendJson(res, 404, { error: 'Ruta no encontrada', kind: 'not_found' });
+        return;
+      }
+
+      const [, id, action] = match;
+      const job = downloads.get(id);
+      if (!job) {
+        sendJson(res, 404, { error: 'Descarga no encontrada', kind: 'not_found' });
+        return;
+      }
+
+      if (!action && req.method === 'GET') {
+        sendJson(res, 200, job.snapshot);
+      } else if (!action && req.method === 'DELETE') {
+        await downloads.cancel(id);
+        sendJson(res, 202, { id });
+      } else if (action === '/pause' && req.method === 'POST') {
+        await downloads.pause(id);
+        sendJson(res, 200, job.snapshot);
+      } else if (action === '/resume' && req.method === 'POST') {
+        downloads.resume(id);
+        sendJson(res, 200, job.snapshot);
+      } else if (action === '/tags' && req.method === 'POST') {
+        const snapshot = await downloads.retag(id, sanitizeTags(await readJson(req)));
+        if (!snapshot) {
+          sendJson(res, 409, { error: 'El archivo todavía no está listo' });
+          return;
+        }
+        sendJson(res, 200, snapshot);
+      } else if (action === '/events' && req.method === 'GET') {
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive'
+        });
+
+        // subscribe() sends the current state before it returns, so a job that has already
+        // finished is closed below, once there is a listener to detach
+        let unsubscribe: (() => void) | null = null;
+        const close = () => {
+          unsubscribe?.();
+          res.end();
+        };
+        unsubscribe = downloads.subscribe(id, (snapshot) => {
+          res.write(`event: progress\ndata: ${JSON.stringify(snapshot)}\n\n`);
+          if (unsubscribe && isTerminalPhase(snapshot.phase)) close();
+        });
+        if (isTerminalPhase(job.snapshot.phase)) close();
+        req.on('close', () => unsubscribe?.());
+      } else if (action === '/file' && req.method === 'GET') {
+        if (!job.filePath || job.snapshot.phase !== 'completed') {
+          sendJson(res, 409, { error: 'El archivo todavía no está listo' });
+          return;
+        }
+        const { size } = await stat(job.filePath);
+        res.writeHead(200, {
+          'Content-Type': job.mimeType || 'application/octet-stream',
+          'Content-Length': size,
+          'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(job.snapshot.fileName || 'media')}`
+        });
+        createReadStream(job.filePath).pipe(res);
+      } else if (action?.startsWith('/subtitles/') && req.method === 'GET') {
+        const subtitlePath = job.snapshot.phase === 'completed' ? job.subtitlePaths?.[Number(action.slice('/subtitles/'.length))] : undefined;
+        const subtitle = subtitlePath ? await stat(subtitlePath).catch(() => null) : null;
+        if (!subtitlePath || !subtitle) {
+          sendJson(res, 404, { error: 'Subtítulo no encontrado', kind: 'not_found' });
+          return;
+        }
+        res.writeHead(200, {
+          'Content-Type': 'application/octet-stream',
+          'Content-Length': subtitle.size,
+          'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(path.basename(subtitlePath))}`
+        });
+        createReadStream(subtitlePath).pipe(res);
+      } else {
+        sendJson(res, 405, { error: 'Método no permitido' });
+      }
+    } catch (error) {
+      console.error('[companion] request failed', error);
+      if (!res.headersSent) sendJson(res, 500, { error: (error as Error).message, kind: classifyExtractorError(error) });
+      else res.end();
+    }
+  });
+};
+
+export const startCompanionServer = (options: CompanionOptions = {}) => {
+  const { port = COMPANION_PORT, host = '127.0.0.1' } = options;
+  const server = createCompanionServer(options);
+
+  return new Promise<http.Server>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      console.log(`[companion] listening on http://${host}:${port}`);
+      resolve(server);
+    });
+  });
+};
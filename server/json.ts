@@ -0,0 +1,16 @@
+// JSON from request bodies and from yt-dlp is `unknown` until each field has been checked
+
+export type JsonObject = Record<string, unknown>;
+
+export const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** `value` if it is an object, else an empty one, so its fields can be read and checked one by one. */
+export const asObject = (value: unknown): JsonObject => isObject(value) ? value : {};
+
+export const asArray = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+
+// Empty strings count as missing, as in yt-dlp's output they usually mean "unknown"
+export const optionalString = (value: unknown) => typeof value === 'string' && value ? value : undefined;
+
+export const optionalNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? value : undefined;
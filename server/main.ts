@@ -0,0 +1,9 @@
+import { startCompanionServer, COMPANION_PORT } from './index';
+
+startCompanionServer({
+  port: Number(process.env.VORTEX_COMPANION_PORT) || COMPANION_PORT,
+  host: process.env.VORTEX_COMPANION_HOST || '127.0.0.1'
+}).catch((error) => {
+  console.error('[companion] failed to start', error);
+  process.exit(1);
+});
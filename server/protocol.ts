@@ -0,0 +1,158 @@
+// Wire format shared by the companion service and the browser client.
+
+export type DownloadPhase = 'connecting' | 'downloading' | 'tagging' | 'paused' | 'completed' | 'error' | 'cancelled';
+
+// Error taxonomy shared by the companion and the browser (see services/errors.ts)
+export type ErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'quota'
+  | 'auth'
+  | 'unavailable'
+  | 'invalid_request'
+  | 'not_found'
+  | 'unsupported_platform'
+  | 'private_content'
+  | 'geo_blocked'
+  | 'safety_block'
+  | 'analysis_failed'
+  | 'download_failed'
+  | 'processing_failed'
+  | 'unknown';
+
+export type VideoContainer = 'mp4' | 'webm' | 'mkv';
+export type AudioContainer = 'mp3' | 'm4a' | 'opus' | 'flac';
+export type VideoCodec = 'h264' | 'vp9' | 'av1';
+
+// What the user wants the output to look like; unset fields mean "best available"
+export interface FormatSelection {
+  container: VideoContainer | AudioContainer;
+  maxHeight?: number;
+  videoCodec?: VideoCodec;
+  audioBitrate?: number; // kbps, lossy audio containers only
+}
+
+// What a source actually offers, summarised for the format picker
+export interface MediaFormatOptions {
+  heights: number[];
+  videoCodecs: VideoCodec[];
+  audioBitrates: number[];
+}
+
+// Metadata embedded in audio files (ID3v2 for MP3, iTunes atoms for M4A)
+export interface MediaTags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  track?: number;
+  year?: number;
+  coverUrl?: string; // JPEG or PNG, fetched by the companion
+}
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+// A caption track the source offers; `automatic` ones are generated by the platform (speech recognition, translation)
+export interface SubtitleTrack {
+  language: string; // As the source names it: "en", "pt-BR", "en-orig"...
+  name?: string;
+  automatic: boolean;
+}
+
+// Which tracks to fetch with the media and what to do with them
+export interface SubtitleSelection {
+  tracks: Pick<SubtitleTrack, 'language' | 'automatic'>[];
+  format: SubtitleFormat;
+  // Separate files next to the media, or soft subtitles inside MP4/MKV
+  mode: 'sidecar' | 'embed';
+}
+
+// A subtitle file saved next to a finished download
+export interface SavedSubtitle {
+  language: string;
+  fileName: string;
+}
+
+// Segment of the media to keep, in seconds; no end means "to the end"
+export interface ClipRange {
+  startSeconds: number;
+  endSeconds?: number;
+}
+
+// Something the browser can play to pick a clip before downloading
+export interface MediaPreview {
+  streamUrl: string;
+  durationSeconds: number | null;
+}
+
+export interface CreateDownloadRequest {
+  url: string;
+  type: 'video' | 'audio';
+  format?: FormatSelection;
+  // Values set in the app; they win over what the extractor knows about the media
+  tags?: MediaTags;
+  // Only this segment is downloaded
+  clip?: ClipRange;
+  // From the app's file name template, may include folders; the companion sanitizes it,
+  // sets the real extension and adds " (n)" if the name is taken
+  fileName?: string;
+  subtitles?: SubtitleSelection;
+}
+
+export interface DownloadSnapshot {
+  id: string;
+  url: string;
+  type: 'video' | 'audio';
+  phase: DownloadPhase;
+  extractor: string | null;
+  downloadedBytes: number;
+  totalBytes: number | null;
+  bytesPerSecond: number;
+  etaSeconds: number | null;
+  fileName?: string;
+  tags?: MediaTags; // What was actually written into the file
+  clip?: ClipRange;
+  subtitles?: SavedSubtitle[]; // Sidecar files, once completed
+  error?: string;
+  errorKind?: ErrorKind;
+}
+
+export interface PlaylistEntry {
+  index: number;
+  url: string;
+  title: string;
+  durationSeconds: number | null;
+  thumbnailUrl?: string;
+}
+
+export interface PlaylistPage {
+  title: string | null;
+  entries: PlaylistEntry[];
+  page: number;
+  pageSize: number;
+  total: number | null;
+  hasMore: boolean;
+}
+
+// One finished download in a ZIP bundle, with what the app knows about it for the manifest
+export interface BundleEntry {
+  downloadId: string;
+  url: string;
+  platform?: string;
+  summary?: string;
+  format?: string; // Readable, e.g. "MP4 · 1080p"
+  durationSeconds?: number;
+}
+
+export interface CreateBundleRequest {
+  name?: string; // Archive file name, without extension
+  entries: BundleEntry[]; // In queue order
+  playlist?: boolean; // Adds an M3U8 playlist of the entries (audio batches)
+}
+
+export const isTerminalPhase = (phase: DownloadPhase) =>
+  phase === 'completed' || phase === 'error' || phase === 'cancelled';
+
+export const SUBTITLE_FORMATS: SubtitleFormat[] = ['srt', 'vtt', 'ass'];
+
+export const isSubtitleFormat = (value: unknown): value is SubtitleFormat =>
+  SUBTITLE_FORMATS.includes(value as SubtitleFormat);
@@ -0,0 +1,209 @@
+import { readdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { SubtitleFormat, isSubtitleFormat } from './protocol';
+
+// Subtitle conversion between SRT, WebVTT and ASS. Cues keep their timing, line breaks
+// and <i>/<b>/<u> styling; positioning and ASS styles don't survive a round trip.
+
+export interface SubtitleCue {
+  start: number; // ms
+  end: number; // ms
+  text: string; // Lines separated by "\n", with <i>, <b> and <u> tags
+}
+
+// "01:02:03,456", "02:03.456" (VTT without hours) or "1:02:03.45" (ASS centiseconds)
+const parseTimestamp = (value: string) => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})[.,](\d{1,3})$/);
+  if (!match) return null;
+  const [, hours, minutes, seconds, fraction] = match;
+  const ms = Number(fraction.padEnd(3, '0'));
+  return ((Number(hours ?? 0) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000 + ms;
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const formatTimestamp = (ms: number, separator: ',' | '.') => {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor(total / 60000) % 60;
+  const seconds = Math.floor(total / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+};
+
+const formatAssTimestamp = (ms: number) => {
+  const total = Math.max(0, Math.round(ms / 10));
+  const hours = Math.floor(total / 360000);
+  const minutes = Math.floor(total / 6000) % 60;
+  const seconds = Math.floor(total / 100) % 60;
+  return `${hours}:${pad(minutes)}:${pad(seconds)}.${pad(total % 100)}`;
+};
+
+const TIMING_LINE = /^\s*([\d:.,]+)\s*-->\s*([\d:.,]+)/;
+
+const STYLE_TAGS = /<\/?[ibu]>/gi;
+
+// Everything but <i>, <b> and <u> goes: <font>, VTT voice and class spans, karaoke timestamps
+const cleanMarkup = (text: string) => text
+  .replace(/<(\/?)([ibu])(?:\.[\w.]+)?>/gi, (_match, close: string, tag: string) => `\u0000${close}${tag.toLowerCase()}\u0001`)
+  .replace(/<[^>]*>/g, '')
+  .replace(/\u0000/g, '<')
+  .replace(/\u0001/g, '>')
+  .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&');
+
+// Blocks of "timing line + text lines", the shape SRT and VTT share
+const parseTimedBlocks = (content: string) => {
+  const cues: SubtitleCue[] = [];
+  for (const block of content.replace(/\r\n?/g, '\n').split(/\n{2,}/)) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => TIMING_LINE.test(line));
+    if (timingIndex === -1) continue;
+    const [, from, to] = lines[timingIndex].match(TIMING_LINE)!;
+    const start = parseTimestamp(from);
+    const end = parseTimestamp(to);
+    if (start === null || end === null) continue;
+    const text = cleanMarkup(lines.slice(timingIndex + 1).join('\n')).trim();
+    if (text) cues.push({ start, end, text });
+  }
+  return cues;
+};
+
+/**
+ * Auto-generated captions (YouTube) repeat the previous line at the top of every cue so
+ * it scrolls; those repeats and the 10 ms "transition" cues are dropped.
+ */
+const collapseRollingCaptions = (cues: SubtitleCue[]) => {
+  const result: SubtitleCue[] = [];
+  for (const cue of cues) {
+    const previous = result[result.length - 1];
+    let lines = cue.text.split('\n');
+    if (previous) {
+      const previousLines = previous.text.split('\n');
+      while (lines.length > 0 && previousLines.includes(lines[0])) lines = lines.slice(1);
+    }
+    if (lines.length === 0) {
+      if (previous) previous.end = Math.max(previous.end, cue.end);
+      continue;
+    }
+    result.push({ ...cue, text: lines.join('\n') });
+  }
+  return result;
+};
+
+const parseVtt = (content: string) => {
+  // NOTE, STYLE and REGION blocks have no timing line and are skipped with the header
+  const cues = parseTimedBlocks(content.replace(/^\uFEFF?WEBVTT[^\n]*/, ''));
+  return /<\d{2}:\d{2}:\d{2}\.\d{3}>/.test(content) ? collapseRollingCaptions(cues) : cues;
+};
+
+// Override blocks that map to cue styling; every other {\...} block is dropped
+const ASS_TAGS: Record<string, string> = { '\\i1': '<i>', '\\i0': '</i>', '\\b1': '<b>', '\\b0': '</b>', '\\u1': '<u>', '\\u0': '</u>' };
+
+const parseAss = (content: string) => {
+  const cues: SubtitleCue[] = [];
+  let fields: string[] = [];
+  let inEvents = false;
+  for (const line of content.replace(/\r\n?/g, '\n').split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('[')) {
+      inEvents = trimmed.toLowerCase() === '[events]';
+    } else if (inEvents && /^format:/i.test(trimmed)) {
+      fields = trimmed.slice(7).split(',').map(field => field.trim().toLowerCase());
+    } else if (inEvents && /^dialogue:/i.test(trimmed) && fields.length > 0) {
+      // Text is the last field and may contain commas itself
+      const values = trimmed.slice(9).split(',');
+      const text = values.slice(fields.length - 1).join(',');
+      const start = parseTimestamp(values[fields.indexOf('start')] ?? '');
+      const end = parseTimestamp(values[fields.indexOf('end')] ?? '');
+      if (start === null || end === null) continue;
+      const clean = text
+        .replace(/\{([^}]*)\}/g, (_match, block: string) => (block.match(/\\[ibu][01]/g) ?? []).map(tag => ASS_TAGS[tag]).join(''))
+        .replace(/\\[Nn]/g, '\n')
+        .replace(/\\h/g, ' ')
+        .trim();
+      if (clean) cues.push({ start, end, text: clean });
+    }
+  }
+  return cues.sort((a, b) => a.start - b.start);
+};
+
+export const parseSubtitles = (content: string, format: SubtitleFormat): SubtitleCue[] =>
+  format === 'ass' ? parseAss(content) : format === 'vtt' ? parseVtt(content) : parseTimedBlocks(content);
+
+const toSrt = (cues: SubtitleCue[]) =>
+  cues.map((cue, index) =>
+    `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`
+  ).join('\n');
+
+// VTT is HTML-like: "&" and stray "<" must be escaped, the style tags must not
+const escapeVtt = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/<(?!\/?[ibu]>)/gi, '&lt;')
+  .replace(/(?<!<\/?[ibu])>/gi, '&gt;');
+
+const toVtt = (cues: SubtitleCue[]) =>
+  'WEBVTT\n\n' + cues.map(cue =>
+    `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${escapeVtt(cue.text)}\n`
+  ).join('\n');
+
+const ASS_HEADER = [
+  '[Script Info]',
+  'ScriptType: v4.00+',
+  'PlayResX: 384',
+  'PlayResY: 288',
+  'WrapStyle: 0',
+  '',
+  '[V4+ Styles]',
+  'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+  'Style: Default,Arial,16,&H00FFFFFF,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,1,0,2,10,10,10,1',
+  '',
+  '[Events]',
+  'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text'
+].join('\n');
+
+const toAssText = (text: string) => text
+  .replace(STYLE_TAGS, tag => `{\\${tag[1] === '/' ? tag[2].toLowerCase() + '0' : tag[1].toLowerCase() + '1'}}`)
+  .replace(/\n/g, '\\N');
+
+const toAss = (cues: SubtitleCue[]) =>
+  ASS_HEADER + '\n' + cues.map(cue =>
+    `Dialogue: 0,${formatAssTimestamp(cue.start)},${formatAssTimestamp(cue.end)},Default,,0,0,0,,${toAssText(cue.text)}`
+  ).join('\n') + '\n';
+
+export const formatSubtitles = (cues: SubtitleCue[], format: SubtitleFormat) =>
+  format === 'ass' ? toAss(cues) : format === 'vtt' ? toVtt(cues) : toSrt(cues);
+
+export const convertSubtitles = (content: string, from: SubtitleFormat, to: SubtitleFormat) =>
+  formatSubtitles(parseSubtitles(content, from), to);
+
+// A sidecar written next to the media: "<stem>.<language>.<ext>"
+export interface SubtitleFile {
+  language: string;
+  filePath: string;
+}
+
+/** Subtitle files written next to `mediaPath` by the extractor, in the folder's order. */
+export const findSubtitleFiles = async (mediaPath: string): Promise<SubtitleFile[]> => {
+  const dir = path.dirname(mediaPath);
+  const stem = path.basename(mediaPath, path.extname(mediaPath));
+  const names = await readdir(dir).catch(() => [] as string[]);
+  return names.flatMap(name => {
+    if (!name.startsWith(`${stem}.`)) return [];
+    const match = name.slice(stem.length).match(/^\.([\w-]+)\.(srt|vtt|ass|ssa|ttml|srv[123]|json3)$/i);
+    return match ? [{ language: match[1], filePath: path.join(dir, name) }] : [];
+  });
+};
+
+/**
+ * Rewrites a sidecar in `format`; the original is replaced. Formats the converter doesn't
+ * read (TTML, YouTube's srv/json3) are left as they are.
+ */
+export const convertSubtitleFile = async (file: SubtitleFile, format: SubtitleFormat): Promise<SubtitleFile> => {
+  const ext = path.extname(file.filePath).slice(1).toLowerCase();
+  const from = ext === 'ssa' ? 'ass' : ext;
+  if (!isSubtitleFormat(from) || from === format) return file;
+  const target = `${file.filePath.slice(0, -ext.length)}${format}`;
+  const content = await readFile(file.filePath, 'utf8');
+  await writeFile(target, convertSubtitles(content.replace(/^\uFEFF/, ''), from, format), 'utf8');
+  await rm(file.filePath, { force: true });
+  return { language: file.language, filePath: target };
+};
@@ -0,0 +1,69 @@
+import { FileHandle } from 'fs/promises';
+import { ResolvedTags, TagPatch } from './types';
+
+// ID3v2.3: the version every player and OS file browser reads
+const HEADER_SIZE = 10;
+const FOOTER_FLAG = 0x10;
+const PICTURE_FRONT_COVER = 0x03;
+const ENCODING_LATIN1 = 0x00;
+const ENCODING_UTF16 = 0x01;
+
+// Sizes in the tag header are "synchsafe": 7 bits per byte
+const encodeSynchsafe = (value: number) => Buffer.from([
+  (value >> 21) & 0x7f,
+  (value >> 14) & 0x7f,
+  (value >> 7) & 0x7f,
+  value & 0x7f
+]);
+
+const decodeSynchsafe = (bytes: Buffer) =>
+  (bytes[0] << 21) | (bytes[1] << 14) | (bytes[2] << 7) | bytes[3];
+
+const frame = (id: string, body: Buffer) => {
+  const header = Buffer.alloc(HEADER_SIZE);
+  header.write(id, 0, 'latin1');
+  header.writeUInt32BE(body.length, 4);
+  return Buffer.concat([header, body]);
+};
+
+// UTF-16 with a byte order mark, so any script survives
+const textFrame = (id: string, text: string) =>
+  frame(id, Buffer.concat([Buffer.from([ENCODING_UTF16]), Buffer.from(`\ufeff${text}`, 'utf16le')]));
+
+const buildTag = ({ title, artist, album, track, year, cover }: ResolvedTags) => {
+  const frames: Buffer[] = [];
+  if (title) frames.push(textFrame('TIT2', title));
+  if (artist) frames.push(textFrame('TPE1', artist));
+  if (album) frames.push(textFrame('TALB', album));
+  if (track) frames.push(textFrame('TRCK', String(track)));
+  if (year) frames.push(textFrame('TYER', String(year)));
+  if (cover) {
+    frames.push(frame('APIC', Buffer.concat([
+      Buffer.from([ENCODING_LATIN1]),
+      Buffer.from(`${cover.mimeType}\0`, 'latin1'),
+      Buffer.from([PICTURE_FRONT_COVER]),
+      Buffer.from([0]), // Empty description
+      cover.data
+    ])));
+  }
+
+  const body = Buffer.concat(frames);
+  const header = Buffer.concat([Buffer.from('ID3', 'latin1'), Buffer.from([3, 0, 0]), encodeSynchsafe(body.length)]);
+  return Buffer.concat([header, body]);
+};
+
+// Length of the ID3v2 tag at the start of the file, 0 when there is none
+const existingTagLength = async (file: FileHandle) => {
+  const header = Buffer.alloc(HEADER_SIZE);
+  const { bytesRead } = await file.read(header, 0, HEADER_SIZE, 0);
+  if (bytesRead < HEADER_SIZE || header.toString('latin1', 0, 3) !== 'ID3') return 0;
+  const footer = header[5] & FOOTER_FLAG ? HEADER_SIZE : 0;
+  return HEADER_SIZE + decodeSynchsafe(header.subarray(6, 10)) + footer;
+};
+
+/** Replaces whatever ID3v2 tag the MP3 starts with by one holding `tags`. */
+export const writeId3 = async (file: FileHandle, tags: ResolvedTags): Promise<TagPatch> => ({
+  start: 0,
+  end: await existingTagLength(file),
+  replacement: buildTag(tags)
+});
@@ -0,0 +1,112 @@
+import { createReadStream, createWriteStream } from 'fs';
+import { open, rename, rm, FileHandle } from 'fs/promises';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { asObject } from '../json';
+import { MediaTags } from '../protocol';
+import { writeId3 } from './id3';
+import { writeMp4Tags } from './mp4';
+import { CoverArt, ResolvedTags, TagPatch } from './types';
+
+const WRITERS: Record<string, (file: FileHandle, tags: ResolvedTags) => Promise<TagPatch>> = {
+  '.mp3': writeId3,
+  '.m4a': writeMp4Tags
+};
+
+const COVER_TIMEOUT_MS = 15000;
+const MAX_COVER_BYTES = 10 * 1024 * 1024;
+
+export const canTag = (filePath: string) => path.extname(filePath).toLowerCase() in WRITERS;
+
+const cleanText = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+const cleanNumber = (value: unknown) => Number.isInteger(value) && (value as number) > 0 ? value as number : undefined;
+
+/** Keeps only well-formed values, e.g. from a request body. */
+export const sanitizeTags = (raw: unknown): MediaTags => {
+  const tags = asObject(raw);
+  return {
+    title: cleanText(tags.title),
+    artist: cleanText(tags.artist),
+    album: cleanText(tags.album),
+    track: cleanNumber(tags.track),
+    year: cleanNumber(tags.year),
+    coverUrl: typeof tags.coverUrl === 'string' && /^https?:\/\//i.test(tags.coverUrl) ? tags.coverUrl : undefined
+  };
+};
+
+// Values set by the user win; the extractor fills in the rest
+export const mergeTags = (base: MediaTags | undefined, overrides: MediaTags | undefined): MediaTags => {
+  const merged = { ...sanitizeTags(base) };
+  for (const [key, value] of Object.entries(sanitizeTags(overrides))) {
+    if (value !== undefined) (merged as Record<string, unknown>)[key] = value;
+  }
+  return merged;
+};
+
+// Players only understand JPEG and PNG covers (YouTube often serves WebP)
+const detectImage = (data: Buffer): CoverArt['mimeType'] | null => {
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'image/jpeg';
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+  return null;
+};
+
+const fetchCover = async (url: string): Promise<CoverArt | null> => {
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(COVER_TIMEOUT_MS) });
+    if (!response.ok) return null;
+    const data = Buffer.from(await response.arrayBuffer());
+    const mimeType = data.length <= MAX_COVER_BYTES ? detectImage(data) : null;
+    return mimeType ? { data, mimeType } : null;
+  } catch (error) {
+    console.warn(`[companion] could not fetch cover ${url}`, error);
+    return null;
+  }
+};
+
+// Streams the file into a sibling with one region replaced, then swaps them
+const applyPatch = async (filePath: string, { start, end, replacement }: TagPatch) => {
+  const tempPath = `${filePath}.tagging`;
+  try {
+    await pipeline(
+      async function* () {
+        if (start > 0) yield* createReadStream(filePath, { start: 0, end: start - 1 });
+        yield replacement;
+        yield* createReadStream(filePath, { start: end });
+      },
+      createWriteStream(tempPath)
+    );
+    await rename(tempPath, filePath);
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    throw error;
+  }
+};
+
+/**
+ * Embeds `tags` into an MP3 or M4A, replacing any tag it already had. The
+ * first cover URL that yields a JPEG or PNG is used. Returns what was written.
+ */
+export const writeTags = async (filePath: string, tags: MediaTags, fallbackCoverUrl?: string): Promise<MediaTags> => {
+  const writer = WRITERS[path.extname(filePath).toLowerCase()];
+  if (!writer) throw new Error(`No se pueden etiquetar archivos ${path.extname(filePath)}`);
+
+  const { coverUrl, ...text } = sanitizeTags(tags);
+  let cover: CoverArt | null = null;
+  let usedCoverUrl: string | undefined;
+  for (const url of [coverUrl, fallbackCoverUrl]) {
+    if (!url || cover) continue;
+    cover = await fetchCover(url);
+    if (cover) usedCoverUrl = url;
+  }
+
+  const file = await open(filePath, 'r');
+  let patch: TagPatch;
+  try {
+    patch = await writer(file, { ...text, cover: cover ?? undefined });
+  } finally {
+    await file.close();
+  }
+  await applyPatch(filePath, patch);
+
+  return { ...text, coverUrl: usedCoverUrl };
+};
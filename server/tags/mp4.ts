@@ -0,0 +1,156 @@
+import { FileHandle } from 'fs/promises';
+import { ResolvedTags, TagPatch } from './types';
+
+// iTunes-style metadata: moov/udta/meta/ilst. Only the moov box is rewritten;
+// when it sits before the media data, chunk offsets are shifted to match.
+
+interface Box {
+  type: string;
+  start: number;
+  size: number;
+  headerSize: number;
+}
+
+const DATA_IMPLICIT = 0;
+const DATA_UTF8 = 1;
+const DATA_JPEG = 13;
+const DATA_PNG = 14;
+
+// Boxes on the path from moov to the chunk offset tables
+const CONTAINERS = ['trak', 'mdia', 'minf', 'stbl'];
+
+const u32 = (value: number) => {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(value);
+  return buffer;
+};
+
+const box = (type: string, ...payload: Buffer[]) => {
+  const body = Buffer.concat(payload);
+  return Buffer.concat([u32(body.length + 8), Buffer.from(type, 'latin1'), body]);
+};
+
+// `header` holds the first bytes of the box; `remaining` is what is left of its parent
+const readHeader = (header: Buffer, start: number, remaining: number): Box | null => {
+  if (header.length < 8) return null;
+  const type = header.toString('latin1', 4, 8);
+  const size32 = header.readUInt32BE(0);
+  if (size32 === 1) {
+    if (header.length < 16) return null;
+    return { type, start, size: Number(header.readBigUInt64BE(8)), headerSize: 16 };
+  }
+  // Size 0 means "up to the end"
+  return { type, start, size: size32 === 0 ? remaining : size32, headerSize: 8 };
+};
+
+const listFileBoxes = async (file: FileHandle) => {
+  const { size: fileSize } = await file.stat();
+  const boxes: Box[] = [];
+  const header = Buffer.alloc(16);
+
+  for (let offset = 0; offset < fileSize;) {
+    const { bytesRead } = await file.read(header, 0, 16, offset);
+    const found = readHeader(header.subarray(0, bytesRead), offset, fileSize - offset);
+    if (!found || found.size < found.headerSize || offset + found.size > fileSize) {
+      throw new Error('El archivo M4A está dañado o no es un MP4');
+    }
+    boxes.push(found);
+    offset += found.size;
+  }
+  return boxes;
+};
+
+// Children of a box already in memory; offsets are relative to `buffer`
+const listChildren = (buffer: Buffer, start: number, end: number) => {
+  const children: Box[] = [];
+  for (let offset = start; offset < end;) {
+    const found = readHeader(buffer.subarray(offset, Math.min(end, offset + 16)), offset, end - offset);
+    if (!found || found.size < found.headerSize || offset + found.size > end) {
+      throw new Error('El archivo M4A tiene una estructura que no se puede etiquetar');
+    }
+    children.push(found);
+    offset += found.size;
+  }
+  return children;
+};
+
+// Moves every chunk that lives after the moov box by `delta` bytes
+const shiftChunkOffsets = (moov: Buffer, parent: Box, after: number, delta: number) => {
+  for (const child of listChildren(moov, parent.start + parent.headerSize, parent.start + parent.size)) {
+    if (CONTAINERS.includes(child.type)) {
+      shiftChunkOffsets(moov, child, after, delta);
+    } else if (child.type === 'stco' || child.type === 'co64') {
+      const wide = child.type === 'co64';
+      const tableStart = child.start + child.headerSize + 4; // Skip version and flags
+      const count = moov.readUInt32BE(tableStart);
+      for (let i = 0; i < count; i++) {
+        const at = tableStart + 4 + i * (wide ? 8 : 4);
+        if (wide) {
+          const offset = moov.readBigUInt64BE(at);
+          if (offset > after) moov.writeBigUInt64BE(offset + BigInt(delta), at);
+        } else {
+          const offset = moov.readUInt32BE(at);
+          if (offset <= after) continue;
+          if (offset + delta > 0xffffffff) throw new Error('El archivo M4A es demasiado grande para añadir etiquetas');
+          moov.writeUInt32BE(offset + delta, at);
+        }
+      }
+    }
+  }
+};
+
+const dataItem = (name: string, type: number, value: Buffer) =>
+  box(name, box('data', u32(type), u32(0), value));
+
+const textItem = (name: string, text: string) => dataItem(name, DATA_UTF8, Buffer.from(text, 'utf8'));
+
+const buildMeta = ({ title, artist, album, track, year, cover }: ResolvedTags) => {
+  const items: Buffer[] = [];
+  if (title) items.push(textItem('©nam', title));
+  if (artist) items.push(textItem('©ART', artist));
+  if (album) items.push(textItem('©alb', album));
+  if (track) {
+    const value = Buffer.alloc(8);
+    value.writeUInt16BE(track, 2);
+    items.push(dataItem('trkn', DATA_IMPLICIT, value));
+  }
+  if (year) items.push(textItem('©day', String(year)));
+  if (cover) items.push(dataItem('covr', cover.mimeType === 'image/png' ? DATA_PNG : DATA_JPEG, cover.data));
+
+  const handler = box('hdlr', Buffer.alloc(8), Buffer.from('mdirappl', 'latin1'), Buffer.alloc(9));
+  return box('meta', Buffer.alloc(4), handler, box('ilst', ...items));
+};
+
+/** Rebuilds the M4A's moov box with a fresh ilst holding `tags`. */
+export const writeMp4Tags = async (file: FileHandle, tags: ResolvedTags): Promise<TagPatch> => {
+  const boxes = await listFileBoxes(file);
+  if (boxes[0]?.type !== 'ftyp') throw new Error('El archivo no es un MP4/M4A');
+  const moovBox = boxes.find(b => b.type === 'moov');
+  if (!moovBox) throw new Error('El archivo M4A no tiene índice (moov)');
+  // Fragments address their data relative to themselves; not worth handling for audio
+  if (boxes.some(b => b.type === 'moof')) throw new Error('Los M4A fragmentados no se pueden etiquetar');
+
+  const moov = Buffer.alloc(moovBox.size);
+  await file.read(moov, 0, moovBox.size, moovBox.start);
+  const root: Box = { ...moovBox, start: 0 };
+  const children = listChildren(moov, root.headerSize, root.size);
+  const slice = (b: Box) => moov.subarray(b.start, b.start + b.size);
+
+  // Other udta entries (chapters, copyright...) are kept; only meta is replaced
+  const udta = children.find(b => b.type === 'udta');
+  const kept = udta ? listChildren(moov, udta.start + udta.headerSize, udta.start + udta.size).filter(b => b.type !== 'meta') : [];
+  const newUdta = box('udta', ...kept.map(slice), buildMeta(tags));
+  const body = children.filter(b => b !== udta);
+  const delta = 8 + body.reduce((sum, b) => sum + b.size, 0) + newUdta.length - moovBox.size;
+
+  // Patched in place, before the slices are copied into the new box
+  if (delta !== 0 && boxes.some(b => b.type === 'mdat' && b.start > moovBox.start)) {
+    shiftChunkOffsets(moov, root, moovBox.start, delta);
+  }
+
+  return {
+    start: moovBox.start,
+    end: moovBox.start + moovBox.size,
+    replacement: box('moov', ...body.map(slice), newUdta)
+  };
+};
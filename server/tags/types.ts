@@ -0,0 +1,19 @@
+import type { MediaTags } from '../protocol';
+
+export interface CoverArt {
+  data: Buffer;
+  mimeType: 'image/jpeg' | 'image/png';
+}
+
+// Tags as they are written: text already trimmed, empty values dropped
+export type ResolvedTags = Omit<MediaTags, 'coverUrl'> & { cover?: CoverArt };
+
+/**
+ * A region of the file to replace. Writers only rewrite the metadata block,
+ * so the audio data itself is streamed through untouched.
+ */
+export interface TagPatch {
+  start: number;
+  end: number;
+  replacement: Buffer;
+}
@@ -0,0 +1,105 @@
+import http from 'http';
+import { randomUUID } from 'crypto';
+import { asArray, asObject, optionalString } from './json';
+
+// Minimal imitation of the Gemini API long-running operations used for Veo, so
+// the generation job manager can be exercised without a billed API key.
+// Point the app at it with VORTEX_GEMINI_BASE_URL=http://127.0.0.1:3002/veo
+//
+//   POST /veo/<version>/models/<model>:predictLongRunning -> { name }
+//   GET  /veo/<version>/models/<model>/operations/<id>    -> { name, done, response | error }
+//
+// Operations finish after VEO_STUB_SECONDS. Prompts containing "[fail]" end with
+// an error and prompts containing "[safety]" end filtered, like a blocked request.
+
+const STUB_SECONDS = Number(process.env.VEO_STUB_SECONDS) || 12;
+export const VEO_STUB_PREFIX = '/veo/';
+
+interface StubOperation {
+  name: string;
+  prompt: string;
+  createdAt: number;
+}
+
+const operations = new Map<string, StubOperation>();
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': '*'
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { ...corsHeaders, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: http.IncomingMessage) => new Promise<unknown>((resolve) => {
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(raw || '{}'));
+    } catch {
+      resolve({});
+    }
+  });
+});
+
+const describe = (operation: StubOperation, origin: string) => {
+  const done = Date.now() - operation.createdAt >= STUB_SECONDS * 1000;
+  if (!done) return { name: operation.name, done: false };
+
+  if (operation.prompt.includes('[fail]')) {
+    return { name: operation.name, done: true, error: { code: 500, message: 'Stubbed generation failure' } };
+  }
+
+  const id = operation.name.split('/').pop();
+  const response = operation.prompt.includes('[safety]')
+    ? { raiMediaFilteredCount: 1, raiMediaFilteredReasons: ['Stubbed safety filter'] }
+    : { generatedSamples: [{ video: { uri: `${origin}/media/veo-${id}.mp4?size=1048576&rate=4194304` } }] };
+
+  return {
+    name: operation.name,
+    done: true,
+    response: { '@type': 'type.googleapis.com/google.ai.generativelanguage.v1beta.PredictLongRunningResponse', generateVideoResponse: response }
+  };
+};
+
+/** Handles a request under /veo/. Returns false when the path isn't a stub route. */
+export const handleVeoStub = async (req: http.IncomingMessage, res: http.ServerResponse, url: URL) => {
+  if (!url.pathname.startsWith(VEO_STUB_PREFIX)) return false;
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders).end();
+    return true;
+  }
+
+  const origin = `http://${req.headers.host}`;
+  const start = url.pathname.match(/^\/veo\/[^/]+\/(models\/[^/:]+):predictLongRunning$/);
+  if (start && req.method === 'POST') {
+    const body = await readBody(req);
+    const operation = {
+      name: `${start[1]}/operations/${randomUUID()}`,
+      prompt: optionalString(asObject(asArray(asObject(body).instances)[0]).prompt) ?? '',
+      createdAt: Date.now()
+    };
+    operations.set(operation.name, operation);
+    sendJson(res, 200, { name: operation.name });
+    return true;
+  }
+
+  const poll = url.pathname.match(/^\/veo\/[^/]+\/(models\/[^/]+\/operations\/[^/]+)$/);
+  if (poll && req.method === 'GET') {
+    const operation = operations.get(poll[1]);
+    if (!operation) {
+      sendJson(res, 404, { error: { code: 404, message: 'Requested entity was not found.', status: 'NOT_FOUND' } });
+    } else {
+      sendJson(res, 200, describe(operation, origin));
+    }
+    return true;
+  }
+
+  sendJson(res, 404, { error: { code: 404, message: 'Unknown stub route', status: 'NOT_FOUND' } });
+  return true;
+};
@@ -0,0 +1,191 @@
+import { createHash } from 'crypto';
+import { Writable } from 'stream';
+import { crc32 } from 'zlib';
+
+// Streaming ZIP writer. Entries are stored (media doesn't compress) and written as they
+// are read, with CRC and sizes in a trailing data descriptor, so nothing is buffered
+// beyond one chunk. ZIP64 records kick in for entries or archives past 4 GiB.
+
+export interface ZipEntryResult {
+  size: number;
+  sha256: string;
+}
+
+interface CentralRecord {
+  name: Buffer;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+  zip64: boolean;
+}
+
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+// General purpose flags: sizes follow the data (bit 3), names are UTF-8 (bit 11)
+const FLAGS = 0x0808;
+const VERSION = 20;
+const VERSION_ZIP64 = 45;
+
+// MS-DOS date and time, in local time as archivers expect
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: (Math.max(0, date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+export const createZipWriter = (output: Writable) => {
+  const records: CentralRecord[] = [];
+  let offset = 0;
+
+  // Waits for the reader to catch up; a closed connection ends the wait too
+  const drained = () => new Promise<void>(resolve => {
+    const done = () => {
+      output.off('drain', done);
+      output.off('close', done);
+      resolve();
+    };
+    output.on('drain', done);
+    output.on('close', done);
+  });
+
+  const write = async (chunk: Buffer) => {
+    if (output.destroyed) throw new Error('La descarga del archivo se interrumpió');
+    offset += chunk.length;
+    if (!output.write(chunk)) await drained();
+  };
+
+  const localHeader = (name: Buffer, modified: Date, zip64: boolean) => {
+    const { time, date } = dosDateTime(modified);
+    const extra = zip64 ? Buffer.alloc(20) : Buffer.alloc(0);
+    if (zip64) {
+      // Sizes are unknown here; the zip64 descriptor after the data carries them
+      extra.writeUInt16LE(0x0001, 0);
+      extra.writeUInt16LE(16, 2);
+    }
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(zip64 ? VERSION_ZIP64 : VERSION, 4);
+    header.writeUInt16LE(FLAGS, 6);
+    header.writeUInt16LE(0, 8); // Stored
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt32LE(0, 14);
+    header.writeUInt32LE(zip64 ? MAX_32 : 0, 18);
+    header.writeUInt32LE(zip64 ? MAX_32 : 0, 22);
+    header.writeUInt16LE(name.length, 26);
+    header.writeUInt16LE(extra.length, 28);
+    return { buffer: Buffer.concat([header, name, extra]), time, date };
+  };
+
+  const dataDescriptor = (crc: number, size: number, zip64: boolean) => {
+    const buffer = Buffer.alloc(zip64 ? 24 : 16);
+    buffer.writeUInt32LE(0x08074b50, 0);
+    buffer.writeUInt32LE(crc, 4);
+    if (zip64) {
+      buffer.writeBigUInt64LE(BigInt(size), 8);
+      buffer.writeBigUInt64LE(BigInt(size), 16);
+    } else {
+      buffer.writeUInt32LE(size, 8);
+      buffer.writeUInt32LE(size, 12);
+    }
+    return buffer;
+  };
+
+  /**
+   * Adds one entry from a stream of chunks. `expectedSize`, when known, decides up front
+   * whether the entry needs ZIP64 sizes.
+   */
+  const addEntry = async (
+    fileName: string,
+    chunks: AsyncIterable<Buffer> | Iterable<Buffer>,
+    { modified = new Date(), expectedSize = 0 }: { modified?: Date; expectedSize?: number } = {}
+  ): Promise<ZipEntryResult> => {
+    const name = Buffer.from(fileName, 'utf8');
+    const zip64 = expectedSize >= MAX_32;
+    const start = offset;
+    const header = localHeader(name, modified, zip64);
+    await write(header.buffer);
+
+    const hash = createHash('sha256');
+    let crc = 0;
+    let size = 0;
+    for await (const chunk of chunks) {
+      crc = crc32(chunk, crc);
+      hash.update(chunk);
+      size += chunk.length;
+      await write(chunk);
+    }
+    if (size >= MAX_32 && !zip64) throw new Error(`${fileName} creció por encima de 4 GiB durante la lectura`);
+
+    await write(dataDescriptor(crc, size, zip64));
+    records.push({ name, crc, size, offset: start, time: header.time, date: header.date, zip64: zip64 || start >= MAX_32 });
+    return { size, sha256: hash.digest('hex') };
+  };
+
+  const addBuffer = (fileName: string, data: Buffer | string) =>
+    addEntry(fileName, [typeof data === 'string' ? Buffer.from(data, 'utf8') : data]);
+
+  const centralRecord = (record: CentralRecord) => {
+    const extra = record.zip64 ? Buffer.alloc(28) : Buffer.alloc(0);
+    if (record.zip64) {
+      extra.writeUInt16LE(0x0001, 0);
+      extra.writeUInt16LE(24, 2);
+      extra.writeBigUInt64LE(BigInt(record.size), 4);
+      extra.writeBigUInt64LE(BigInt(record.size), 12);
+      extra.writeBigUInt64LE(BigInt(record.offset), 20);
+    }
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(VERSION_ZIP64, 4);
+    header.writeUInt16LE(record.zip64 ? VERSION_ZIP64 : VERSION, 6);
+    header.writeUInt16LE(FLAGS, 8);
+    header.writeUInt16LE(0, 10);
+    header.writeUInt16LE(record.time, 12);
+    header.writeUInt16LE(record.date, 14);
+    header.writeUInt32LE(record.crc, 16);
+    header.writeUInt32LE(record.zip64 ? MAX_32 : record.size, 20);
+    header.writeUInt32LE(record.zip64 ? MAX_32 : record.size, 24);
+    header.writeUInt16LE(record.name.length, 28);
+    header.writeUInt16LE(extra.length, 30);
+    // Comment length, disk number, attributes: all zero
+    header.writeUInt32LE(record.zip64 ? MAX_32 : record.offset, 42);
+    return Buffer.concat([header, record.name, extra]);
+  };
+
+  /** Writes the central directory; the output is left open for the caller to end. */
+  const finish = async () => {
+    const directoryOffset = offset;
+    for (const record of records) await write(centralRecord(record));
+    const directorySize = offset - directoryOffset;
+    const zip64 = records.length >= MAX_16 || directoryOffset >= MAX_32 || directorySize >= MAX_32;
+
+    if (zip64) {
+      const recordOffset = offset;
+      const record = Buffer.alloc(56);
+      record.writeUInt32LE(0x06064b50, 0);
+      record.writeBigUInt64LE(44n, 4);
+      record.writeUInt16LE(VERSION_ZIP64, 12);
+      record.writeUInt16LE(VERSION_ZIP64, 14);
+      record.writeBigUInt64LE(BigInt(records.length), 24);
+      record.writeBigUInt64LE(BigInt(records.length), 32);
+      record.writeBigUInt64LE(BigInt(directorySize), 40);
+      record.writeBigUInt64LE(BigInt(directoryOffset), 48);
+      const locator = Buffer.alloc(20);
+      locator.writeUInt32LE(0x07064b50, 0);
+      locator.writeBigUInt64LE(BigInt(recordOffset), 8);
+      locator.writeUInt32LE(1, 16);
+      await write(Buffer.concat([record, locator]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(Math.min(records.length, MAX_16), 8);
+    end.writeUInt16LE(Math.min(records.length, MAX_16), 10);
+    end.writeUInt32LE(Math.min(directorySize, MAX_32), 12);
+    end.writeUInt32LE(Math.min(directoryOffset, MAX_32), 16);
+    await write(end);
+  };
+
+  return { addEntry, addBuffer, finish };
+};
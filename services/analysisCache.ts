@@ -0,0 +1,173 @@
+import { AnalysisResult } from '../types';
+import { openDb, promisifyRequest, transactionDone } from './db';
+import { analyzeLink } from './gemini';
+import { abortError } from './geminiClient';
+import { findHistoryEntry, historyToResult } from './history';
+import { fetchSubtitleTracks } from './subtitles';
+
+const STORE = 'analysis';
+const TTL_KEY = 'vortex_media_analysis_ttl_hours';
+const STATS_KEY = 'vortex_media_analysis_stats';
+
+export const TTL_OPTIONS_HOURS = [1, 24, 24 * 7, 24 * 30];
+const DEFAULT_TTL_HOURS = 24;
+
+interface CachedAnalysis {
+  url: string;
+  result: AnalysisResult;
+  analyzedAt: number;
+}
+
+export interface AnalysisCacheStats {
+  hits: number; // Answered from the cache or the download history
+  misses: number; // Sent to Gemini
+  deduplicated: number; // Joined an analysis of the same link already in flight
+}
+
+interface InFlightAnalysis {
+  promise: Promise<AnalysisResult>;
+  controller: AbortController;
+  waiters: number; // Callers that haven't cancelled yet
+  forced: boolean; // Bypasses the cache, so re-analyze requests may share it
+}
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+// One request per link, shared by everyone asking while it runs
+const inFlight = new Map<string, InFlightAnalysis>();
+
+const EMPTY_STATS: AnalysisCacheStats = { hits: 0, misses: 0, deduplicated: 0 };
+
+export const loadTtlHours = (): number => {
+  const stored = Number(localStorage.getItem(TTL_KEY));
+  return TTL_OPTIONS_HOURS.includes(stored) ? stored : DEFAULT_TTL_HOURS;
+};
+
+export const saveTtlHours = (hours: number) => localStorage.setItem(TTL_KEY, String(hours));
+
+export const getCacheStats = (): AnalysisCacheStats => {
+  try {
+    return { ...EMPTY_STATS, ...JSON.parse(localStorage.getItem(STATS_KEY) || '{}') };
+  } catch {
+    return EMPTY_STATS;
+  }
+};
+
+const countStat = (stat: keyof AnalysisCacheStats) => {
+  const stats = getCacheStats();
+  localStorage.setItem(STATS_KEY, JSON.stringify({ ...stats, [stat]: stats[stat] + 1 }));
+  listeners.forEach(listener => listener());
+};
+
+export const resetCacheStats = () => {
+  localStorage.removeItem(STATS_KEY);
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeAnalysisCache = (listener: Listener) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const isFresh = (analyzedAt: number) => Date.now() - analyzedAt < loadTtlHours() * 60 * 60 * 1000;
+
+const readCached = async (url: string): Promise<AnalysisResult | null> => {
+  const db = await openDb();
+  const entry = await promisifyRequest<CachedAnalysis | undefined>(
+    db.transaction(STORE, 'readonly').objectStore(STORE).get(url)
+  );
+  if (entry && isFresh(entry.analyzedAt)) return entry.result;
+
+  // Links downloaded recently don't need a new analysis either
+  const downloaded = await findHistoryEntry(url);
+  return downloaded && isFresh(downloaded.timestamp) ? historyToResult(downloaded) : null;
+};
+
+const writeCached = async (url: string, result: AnalysisResult) => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).put({ url, result, analyzedAt: Date.now() } satisfies CachedAnalysis);
+  await transactionDone(tx);
+  listeners.forEach(listener => listener());
+};
+
+const runAnalysis = async (url: string, force: boolean, signal: AbortSignal): Promise<AnalysisResult> => {
+  if (!force) {
+    // A broken cache only costs a request, it never blocks the analysis
+    const cached = await readCached(url).catch(e => {
+      console.error('Failed to read analysis cache', e);
+      return null;
+    });
+    if (cached) {
+      countStat('hits');
+      return cached;
+    }
+  }
+
+  if (signal.aborted) throw abortError();
+  countStat('misses');
+  const result = await analyzeLink(url, signal);
+  if (result.isValid && result.contentType === 'video' && !result.isPlaylist) {
+    // Without the companion or yt-dlp the item simply has no tracks to pick yet
+    result.subtitles = await fetchSubtitleTracks(url, signal).catch(() => undefined);
+  }
+  writeCached(url, result).catch(e => console.error('Failed to write analysis cache', e));
+  return result;
+};
+
+// Each caller can walk away on its own; the shared request is only aborted
+// once nobody is waiting for it any more
+const waitFor = (entry: InFlightAnalysis, signal?: AbortSignal): Promise<AnalysisResult> => {
+  if (!signal) return entry.promise;
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      reject(abortError());
+      if (--entry.waiters === 0) entry.controller.abort();
+    };
+    if (signal.aborted) return onAbort();
+    signal.addEventListener('abort', onAbort, { once: true });
+    entry.promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+/**
+ * Cached `analyzeLink`. Failed analyses are not cached; `force` skips the
+ * lookup (re-analyze) and refreshes the stored result. `signal` cancels this
+ * caller's wait, and the Gemini request itself when no one else shares it.
+ */
+export const analyzeCached = (
+  url: string,
+  { force = false, signal }: { force?: boolean; signal?: AbortSignal } = {}
+): Promise<AnalysisResult> => {
+  let entry = inFlight.get(url);
+  // A re-analyze can't join a run that may be answering from the cache
+  if (entry && !entry.controller.signal.aborted && (entry.forced || !force)) {
+    countStat('deduplicated');
+  } else {
+    const controller = new AbortController();
+    const promise = runAnalysis(url, force, controller.signal).finally(() => {
+      if (inFlight.get(url) === entry) inFlight.delete(url);
+    });
+    entry = { promise, controller, waiters: 0, forced: force };
+    inFlight.set(url, entry);
+  }
+
+  entry.waiters++;
+  return waitFor(entry, signal);
+};
+
+export const countCachedAnalyses = async (): Promise<number> => {
+  const db = await openDb();
+  return promisifyRequest<number>(db.transaction(STORE, 'readonly').objectStore(STORE).count());
+};
+
+export const clearAnalysisCache = async () => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).clear();
+  await transactionDone(tx);
+  listeners.forEach(listener => listener());
+};
@@ -0,0 +1,39 @@
+import { companionJson } from './companion';
+import type { ClipRange, MediaPreview } from '../server/protocol';
+
+export type { ClipRange, MediaPreview } from '../server/protocol';
+
+/** Parses "83", "1:23" or "1:01:23" into seconds; undefined for blank or invalid text. */
+export const parseTimecode = (text: string): number | undefined => {
+  const parts = text.trim().split(':');
+  if (!text.trim() || parts.length > 3 || parts.some(part => !/^\d+(\.\d+)?$/.test(part))) return undefined;
+  return parts.reduce((total, part) => total * 60 + Number(part), 0);
+};
+
+export const formatTimecode = (seconds: number) => {
+  const whole = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(whole / 3600);
+  const m = Math.floor((whole % 3600) / 60);
+  const s = String(whole % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+export const describeClip = ({ startSeconds, endSeconds }: ClipRange) =>
+  `${formatTimecode(startSeconds)}–${endSeconds !== undefined ? formatTimecode(endSeconds) : '…'}`;
+
+/**
+ * Drops markers that select the whole media: a start at 0 and an end at (or
+ * past) the known duration. Returns undefined when nothing is cut.
+ */
+export const normalizeClip = (clip: ClipRange, durationSeconds?: number | null): ClipRange | undefined => {
+  const startSeconds = Math.max(0, clip.startSeconds);
+  const endSeconds = clip.endSeconds !== undefined && (!durationSeconds || clip.endSeconds < durationSeconds)
+    ? clip.endSeconds
+    : undefined;
+  if (startSeconds === 0 && endSeconds === undefined) return undefined;
+  return endSeconds !== undefined ? { startSeconds, endSeconds } : { startSeconds };
+};
+
+// Platform pages are resolved by the companion into a stream the <video> element can play
+export const fetchPreview = (url: string, signal?: AbortSignal) =>
+  companionJson<MediaPreview>(`/preview?${new URLSearchParams({ url })}`, { signal });
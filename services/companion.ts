@@ -0,0 +1,98 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { AppError } from './errors';
+
+// Relative by default so the Vite dev proxy reaches the local companion service
+export const COMPANION_URL = `${process.env.COMPANION_URL || ''}/api`;
+
+// Must match server/auth.ts
+const TOKEN_HEADER = 'X-Vortex-Token';
+const TOKEN_PARAM = 'token';
+
+// The companion only answers requests that carry its per-install token, which it hands to
+// the app's own origins through /api/session
+let token: string | null = null;
+let tokenRequest: Promise<string> | null = null;
+const tokenListeners = new Set<() => void>();
+
+const unreachable = (cause: unknown) =>
+  new AppError('network', { detail: 'El servicio de descargas local no responde', cause });
+
+export const loadCompanionToken = () => {
+  tokenRequest ??= (async () => {
+    let response: Response;
+    try {
+      response = await fetch(`${COMPANION_URL}/session`);
+    } catch (error) {
+      throw unreachable(error);
+    }
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new AppError(body?.kind || 'auth', {
+        detail: body?.error || `El servicio de descargas respondió ${response.status}`,
+        status: response.status
+      });
+    }
+    const { token: received } = await response.json();
+    token = received;
+    tokenListeners.forEach(listener => listener());
+    return received as string;
+  })().catch(error => {
+    // Asked again next time, e.g. once the companion is started
+    tokenRequest = null;
+    throw error;
+  });
+  return tokenRequest;
+};
+
+const forgetToken = () => {
+  token = null;
+  tokenRequest = null;
+};
+
+/** `url` with the token as a parameter, for what the browser loads itself (links, EventSource). */
+export const withCompanionToken = (url: string) =>
+  token ? `${url}${url.includes('?') ? '&' : '?'}${TOKEN_PARAM}=${encodeURIComponent(token)}` : url;
+
+export const companionUrl = async (path: string) => {
+  await loadCompanionToken();
+  return withCompanionToken(`${COMPANION_URL}${path}`);
+};
+
+const subscribeToken = (listener: () => void) => {
+  tokenListeners.add(listener);
+  return () => { tokenListeners.delete(listener); };
+};
+
+/** The token once known, so links to companion files re-render with it. */
+export const useCompanionToken = () => {
+  useEffect(() => {
+    loadCompanionToken().catch(() => undefined);
+  }, []);
+  return useSyncExternalStore(subscribeToken, () => token);
+};
+
+// Fetches JSON from the companion, surfacing its `{ error, kind }` body as an AppError
+export const companionJson = async <T>(path: string, init?: RequestInit, retried = false): Promise<T> => {
+  let response: Response;
+  try {
+    const headers = new Headers(init?.headers);
+    headers.set(TOKEN_HEADER, await loadCompanionToken());
+    response = await fetch(`${COMPANION_URL}${path}`, { ...init, headers });
+  } catch (error) {
+    if (init?.signal?.aborted) throw error;
+    throw error instanceof AppError ? error : unreachable(error);
+  }
+  // The token file was replaced since it was fetched: ask once more
+  if (response.status === 401 && !retried) {
+    forgetToken();
+    return companionJson<T>(path, init, true);
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new AppError(body?.kind || 'download_failed', {
+      detail: body?.error || `El servicio de descargas respondió ${response.status}`,
+      status: response.status
+    });
+  }
+  return response.json();
+};
@@ -0,0 +1,93 @@
+import { isObject } from '../server/json';
+
+const DB_NAME = 'vortex_media';
+
+// Each entry upgrades the database by one version. Never edit a shipped
+// migration; append a new one instead.
+const migrations: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  // v1: persistent download queue
+  (db) => {
+    db.createObjectStore('queue', { keyPath: 'id' });
+  },
+  // v2: Veo generation jobs
+  (db) => {
+    db.createObjectStore('generations', { keyPath: 'id' });
+  },
+  // v3: library of generated videos, with their blobs
+  (db) => {
+    db.createObjectStore('library', { keyPath: 'id' });
+  },
+  // v4: unlimited download history, seeded with the old localStorage list
+  (db) => {
+    const store = db.createObjectStore('history', { keyPath: 'id' });
+    store.createIndex('timestamp', 'timestamp');
+    store.createIndex('url', 'url');
+    try {
+      const legacy: unknown = JSON.parse(localStorage.getItem('vortex_media_history') || '[]');
+      if (Array.isArray(legacy)) {
+        legacy
+          .filter(item => isObject(item) && typeof item.id === 'string' && typeof item.url === 'string')
+          .forEach(item => store.put({ type: 'video', ...item }));
+      }
+      localStorage.removeItem('vortex_media_history');
+    } catch (e) {
+      console.error('Failed to migrate history', e);
+    }
+  },
+  // v5: analysis results cached by URL
+  (db) => {
+    db.createObjectStore('analysis', { keyPath: 'url' });
+  }
+];
+
+export const DB_VERSION = migrations.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+      reject(new Error('IndexedDB no está disponible en este navegador'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        migrations[version](db, tx);
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema: let it proceed and reopen lazily
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => console.warn('IndexedDB upgrade blocked by another tab');
+  });
+
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+export const promisifyRequest = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
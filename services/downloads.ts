@@ -0,0 +1,122 @@
+import type { CreateBundleRequest, CreateDownloadRequest, DownloadSnapshot } from '../server/protocol';
+import { isTerminalPhase } from '../server/protocol';
+import { COMPANION_URL, companionJson, companionUrl, withCompanionToken } from './companion';
+
+export type { DownloadSnapshot } from '../server/protocol';
+export { isTerminalPhase };
+
+export interface DownloadHandle {
+  id: string;
+  pause: () => Promise<void>;
+  resume: () => Promise<void>;
+  cancel: () => Promise<void>;
+  // Stops following the job without affecting it on the companion
+  detach: () => void;
+}
+
+// Stored with the queue item; links add the token when rendered (withCompanionToken)
+export const getFileUrl = (downloadId: string) => `${COMPANION_URL}/downloads/${downloadId}/file`;
+
+/**
+ * Registers a ZIP of finished downloads on the companion and returns the URL that streams
+ * it. The archive is built while it is fetched, so the URL should be opened right away.
+ */
+export const createBundle = async (request: CreateBundleRequest) => {
+  const { id } = await companionJson<{ id: string }>('/bundles', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request)
+  });
+  return companionUrl(`/bundles/${id}`);
+};
+
+// Best effort: a job the companion no longer has is as good as cancelled
+export const cancelServerDownload = (downloadId: string) =>
+  companionJson(`/downloads/${downloadId}`, { method: 'DELETE' }).then(() => undefined, () => undefined);
+
+// Follows an existing companion job over SSE until it reaches a terminal phase. Callers have
+// already asked the companion for the job, so its token is known.
+export const attachServerDownload = (
+  snapshot: DownloadSnapshot,
+  onUpdate: (snapshot: DownloadSnapshot) => void
+): DownloadHandle => {
+  let latest = snapshot;
+  onUpdate(snapshot);
+
+  const events = new EventSource(withCompanionToken(`${COMPANION_URL}/downloads/${snapshot.id}/events`));
+
+  events.addEventListener('progress', (event) => {
+    latest = JSON.parse((event as MessageEvent).data);
+    onUpdate(latest);
+    if (isTerminalPhase(latest.phase)) events.close();
+  });
+
+  events.onerror = () => {
+    // The server closes the stream after a terminal event; anything else is a lost connection
+    if (isTerminalPhase(latest.phase)) return;
+    events.close();
+    onUpdate({ ...latest, phase: 'error', error: 'Se perdió la conexión con el servicio de descargas' });
+  };
+
+  const post = (action: string) =>
+    companionJson<DownloadSnapshot>(`/downloads/${snapshot.id}/${action}`, { method: 'POST' }).then(() => undefined);
+
+  return {
+    id: snapshot.id,
+    pause: () => post('pause'),
+    resume: () => post('resume'),
+    cancel: async () => {
+      events.close();
+      await cancelServerDownload(snapshot.id);
+    },
+    detach: () => events.close()
+  };
+};
+
+export const startServerDownload = async (
+  request: CreateDownloadRequest,
+  onUpdate: (snapshot: DownloadSnapshot) => void
+): Promise<DownloadHandle> => {
+  const created = await companionJson<DownloadSnapshot>('/downloads', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request)
+  });
+  return attachServerDownload(created, onUpdate);
+};
+
+// Returns null when the companion no longer knows the job (e.g. it was restarted)
+export const getServerDownload = async (downloadId: string): Promise<DownloadSnapshot | null> => {
+  try {
+    return await companionJson<DownloadSnapshot>(`/downloads/${downloadId}`);
+  } catch {
+    return null;
+  }
+};
+
+export const formatSpeed = (bytesPerSecond: number) => {
+  if (bytesPerSecond >= 1024 * 1024) return `${(bytesPerSecond / (1024 * 1024)).toFixed(1)} MB/s`;
+  if (bytesPerSecond >= 1024) return `${(bytesPerSecond / 1024).toFixed(0)} KB/s`;
+  return `${Math.round(bytesPerSecond)} B/s`;
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${bytes} B`;
+};
+
+export const formatTimeLeft = (seconds: number | null) => {
+  if (seconds === null) return '--';
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+export const getProgressPercent = ({ downloadedBytes, totalBytes, phase }: DownloadSnapshot) => {
+  if (phase === 'completed') return 100;
+  if (!totalBytes) return 0;
+  return Math.min(99, Math.round((downloadedBytes / totalBytes) * 100));
+};
@@ -0,0 +1,100 @@
+import type { ErrorKind } from '../server/protocol';
+import { ErrorInfo } from '../types';
+import { t } from './i18n';
+
+export type { ErrorKind };
+
+const README_URL = 'https://github.com/SamuelMorenoCmps/VortexMedia#download-companion';
+
+// Messages and suggestions live in the locale catalogs under error.<kind>.*
+const HELP_LINKS: Record<ErrorKind, string> = {
+  network: README_URL,
+  timeout: 'https://ai.google.dev/gemini-api/docs/troubleshooting',
+  quota: 'https://ai.google.dev/gemini-api/docs/rate-limits',
+  auth: 'https://ai.google.dev/gemini-api/docs/api-key',
+  unavailable: 'https://aistudio.google.com/status',
+  invalid_request: 'https://ai.google.dev/gemini-api/docs/troubleshooting',
+  not_found: README_URL,
+  unsupported_platform: 'https://github.com/yt-dlp/yt-dlp/blob/master/supportedsites.md',
+  private_content: 'https://github.com/yt-dlp/yt-dlp/wiki/FAQ#how-do-i-pass-cookies-to-yt-dlp',
+  geo_blocked: 'https://github.com/yt-dlp/yt-dlp#geo-restriction',
+  safety_block: 'https://ai.google.dev/gemini-api/docs/safety-settings',
+  analysis_failed: 'https://ai.google.dev/gemini-api/docs/troubleshooting',
+  download_failed: 'https://github.com/yt-dlp/yt-dlp/wiki/FAQ',
+  processing_failed: 'https://ffmpegwasm.netlify.app/docs/faq',
+  unknown: 'https://github.com/SamuelMorenoCmps/VortexMedia/issues'
+};
+
+// Failures that retrying with the same input won't fix
+const PERMANENT_KINDS: ErrorKind[] = ['auth', 'invalid_request', 'unsupported_platform', 'private_content', 'geo_blocked', 'safety_block'];
+
+export class AppError extends Error {
+  readonly kind: ErrorKind;
+  readonly status?: number;
+  readonly detail?: string;
+
+  constructor(kind: ErrorKind, options: { detail?: string; status?: number; cause?: unknown } = {}) {
+    super(t(`error.${kind}.message`), { cause: options.cause });
+    this.name = 'AppError';
+    this.kind = kind;
+    this.status = options.status;
+    this.detail = options.detail;
+  }
+
+  toInfo(): ErrorInfo {
+    return getErrorInfo(this.kind, this.detail);
+  }
+}
+
+export const getErrorInfo = (kind: ErrorKind, detail?: string): ErrorInfo => ({
+  kind,
+  message: t(`error.${kind}.message`),
+  suggestion: t(`error.${kind}.suggestion`),
+  helpLink: HELP_LINKS[kind],
+  detail
+});
+
+export const isRetryable = (kind: ErrorKind) => !PERMANENT_KINDS.includes(kind);
+
+const kindFromStatus = (status: number | undefined): ErrorKind | null => {
+  switch (status) {
+    case 400: return 'invalid_request';
+    case 401:
+    case 403: return 'auth';
+    // The companion forgets jobs, bundles and files when it restarts or they expire
+    case 404: return 'not_found';
+    case 408: return 'timeout';
+    case 429: return 'quota';
+    case 500:
+    case 502:
+    case 503:
+    case 504: return 'unavailable';
+    default: return null;
+  }
+};
+
+/**
+ * Maps anything thrown by the Gemini SDK, fetch or the companion onto the
+ * taxonomy. `fallback` is used when nothing more specific can be told.
+ */
+export const classifyError = (error: unknown, fallback: ErrorKind = 'unknown'): AppError => {
+  if (error instanceof AppError) return error;
+
+  const err = error as { message?: string; status?: number; code?: number; response?: { status?: number } } | undefined;
+  const message = String(err?.message || '');
+  const status = err?.status ?? err?.response?.status ?? (typeof err?.code === 'number' ? err.code : undefined);
+  const options = { detail: message || undefined, status, cause: error };
+
+  if (message.includes('SAFETY') || /blocked.*safety|raiMediaFiltered/i.test(message)) return new AppError('safety_block', options);
+  if (message.includes('RESOURCE_EXHAUSTED')) return new AppError('quota', options);
+  if (message.includes('PERMISSION_DENIED') || message.includes('API_KEY_INVALID') || message.includes('Requested entity was not found')) {
+    return new AppError('auth', options);
+  }
+  if (message.includes('UNAVAILABLE')) return new AppError('unavailable', options);
+  if (message.includes('INVALID_ARGUMENT')) return new AppError('invalid_request', options);
+  if (message.includes('DEADLINE_EXCEEDED') || (error as Error)?.name === 'TimeoutError') return new AppError('timeout', options);
+  // fetch() rejects with a TypeError when the request never reached the server
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) return new AppError('network', options);
+
+  return new AppError(kindFromStatus(status) ?? fallback, options);
+};
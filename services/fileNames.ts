@@ -0,0 +1,120 @@
+import { sanitizeRelativePath, sanitizeSegment } from '../server/fileNames';
+import { getContentId, getPlatformName } from './urls';
+import { getDefaultFormat } from './formats';
+import { BatchItem, GeneratedVideo } from '../types';
+
+// What a template can refer to; anything missing renders as empty
+export interface FileNameValues {
+  title?: string;
+  artist?: string;
+  album?: string;
+  platform?: string;
+  id?: string;
+  playlist?: string;
+  index?: number;
+  type?: string;
+  date?: string; // YYYY-MM-DD
+  ext: string;
+}
+
+export type FileNamePlaceholder = keyof FileNameValues;
+
+export const FILE_NAME_PLACEHOLDERS: FileNamePlaceholder[] = [
+  'title', 'artist', 'album', 'platform', 'id', 'playlist', 'index', 'type', 'date', 'ext'
+];
+
+export const DEFAULT_FILE_NAME_TEMPLATE = '{title} [{id}].{ext}';
+
+const TEMPLATE_KEY = 'vortex_media_filename_template';
+// Analysis summaries can run long; {title:N} overrides this
+const DEFAULT_TITLE_LENGTH = 100;
+
+// {name}, {name:02} (zero-padded number) or {name:40} (text cut to 40 characters)
+const PLACEHOLDER_PATTERN = /\{(\w+)(?::(\d+))?\}/g;
+
+export const loadFileNameTemplate = () => localStorage.getItem(TEMPLATE_KEY) || DEFAULT_FILE_NAME_TEMPLATE;
+
+export const saveFileNameTemplate = (template: string) => {
+  if (template.trim() && template !== DEFAULT_FILE_NAME_TEMPLATE) localStorage.setItem(TEMPLATE_KEY, template);
+  else localStorage.removeItem(TEMPLATE_KEY);
+};
+
+/** Placeholders in `template` that don't exist, to point them out in settings. */
+export const findUnknownPlaceholders = (template: string) =>
+  [...template.matchAll(PLACEHOLDER_PATTERN)]
+    .map(([, name]) => name)
+    .filter(name => !FILE_NAME_PLACEHOLDERS.includes(name as FileNamePlaceholder));
+
+const formatValue = (name: FileNamePlaceholder, value: string | number | undefined, spec?: string) => {
+  if (value === undefined || value === '') return '';
+  if (typeof value === 'number') return spec?.startsWith('0') ? String(value).padStart(spec.length, '0') : String(value);
+  const limit = spec ? Number(spec) : name === 'title' ? DEFAULT_TITLE_LENGTH : 0;
+  const text = limit > 0 && [...value].length > limit ? [...value].slice(0, limit).join('').trimEnd() : value;
+  // Values never create folders: "AC/DC" stays one name
+  return text.replace(/[/\\]/g, '_').replace(/\s+/g, ' ');
+};
+
+// What missing values leave behind: "[]", "()", and dangling separators like " - " at either end
+const tidySegment = (segment: string) => segment
+  .replace(/\[\s*\]|\(\s*\)|\{\s*\}/g, '')
+  .replace(/\s+/g, ' ')
+  .replace(/^[\s\-_–—·]+/, '')
+  .replace(/[\s\-_–—·]+(?=\.[^.\s]+$)/, '')
+  .replace(/[\s\-_–—·]+$/, '');
+
+/**
+ * Fills a template into a relative path ("YouTube/Title [id].mp4"): "/" in the template
+ * makes folders, every segment is made valid on Windows, macOS and Linux, and the name
+ * always ends in the real extension. Duplicates are the companion's job, which adds " (n)".
+ */
+export const renderFileName = (template: string, values: FileNameValues) => {
+  const filled = template.replace(PLACEHOLDER_PATTERN, (match, name: string, spec?: string) =>
+    FILE_NAME_PLACEHOLDERS.includes(name as FileNamePlaceholder)
+      ? formatValue(name as FileNamePlaceholder, values[name as FileNamePlaceholder], spec)
+      : match
+  );
+  const segments = filled.split(/[/\\]/).map(tidySegment);
+  const suffix = `.${values.ext}`;
+  const name = segments.pop() || '';
+  // Checked before sanitizing, which would turn a bare ".mp4" into a stem "mp4"
+  const stem = sanitizeSegment(name.toLowerCase().endsWith(suffix.toLowerCase()) ? name.slice(0, -suffix.length) : name);
+  const folders = segments.map(sanitizeSegment).filter(Boolean);
+  // Once more for the name with its extension, and to cap the folder depth
+  return sanitizeRelativePath([...folders, `${stem || 'media'}${suffix}`].join('/'));
+};
+
+/** Browser downloads can't create folders: the path becomes one name, "Folder - Name.ext". */
+export const flattenFileName = (relativePath: string) =>
+  sanitizeSegment(relativePath.split('/').join(' - ')) || 'media';
+
+// YYYY-MM-DD in local time, the day the user sees on their calendar
+const localDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const getItemFileNameValues = (item: BatchItem): FileNameValues => ({
+  title: item.tags?.title || item.result?.summary,
+  artist: item.tags?.artist,
+  album: item.tags?.album || item.playlist?.title || undefined,
+  platform: item.result?.platform || getPlatformName(item.url),
+  id: getContentId(item.url),
+  playlist: item.playlist?.title || undefined,
+  index: item.playlist?.index,
+  type: item.type,
+  date: localDate(new Date()),
+  ext: item.format?.container || getDefaultFormat(item.type).container
+});
+
+/** Name requested from the companion for a queue item, from the saved template. */
+export const getItemFileName = (item: BatchItem, template = loadFileNameTemplate()) =>
+  renderFileName(template, getItemFileNameValues(item));
+
+/** Name for saving a generated video from the browser. */
+export const getGeneratedFileName = (video: Pick<GeneratedVideo, 'id' | 'prompt' | 'createdAt'>, template = loadFileNameTemplate()) =>
+  flattenFileName(renderFileName(template, {
+    title: video.prompt,
+    platform: 'Veo',
+    id: video.id.slice(0, 8),
+    type: 'video',
+    date: localDate(new Date(video.createdAt)),
+    ext: 'mp4'
+  }));
@@ -0,0 +1,108 @@
+import type { AudioContainer, FormatSelection, MediaFormatOptions, VideoCodec, VideoContainer } from '../server/protocol';
+import { companionJson } from './companion';
+import { t } from './i18n';
+
+export type { AudioContainer, FormatSelection, MediaFormatOptions, VideoCodec, VideoContainer } from '../server/protocol';
+
+export interface FormatPreset {
+  id: string;
+  name: string;
+  type: 'video' | 'audio';
+  format: FormatSelection;
+  builtIn?: boolean;
+}
+
+export const VIDEO_CONTAINERS: VideoContainer[] = ['mp4', 'webm', 'mkv'];
+export const AUDIO_CONTAINERS: AudioContainer[] = ['mp3', 'm4a', 'opus', 'flac'];
+export const RESOLUTIONS = [2160, 1440, 1080, 720, 480, 360];
+export const AUDIO_BITRATES = [320, 256, 192, 128];
+export const VIDEO_CODECS: VideoCodec[] = ['h264', 'vp9', 'av1'];
+
+export const CODEC_LABELS: Record<VideoCodec, string> = { h264: 'H.264', vp9: 'VP9', av1: 'AV1' };
+
+// WebM can only carry VP9/AV1; H.264 would need a re-encode
+export const isCodecAllowed = (container: string, codec: VideoCodec) => container !== 'webm' || codec !== 'h264';
+
+const PRESETS_KEY = 'vortex_media_format_presets';
+const LAST_FORMAT_KEY = 'vortex_media_last_format';
+
+export const BUILT_IN_PRESETS: FormatPreset[] = [
+  { id: 'builtin-video-1080', name: 'Video 1080p MP4', type: 'video', format: { container: 'mp4', maxHeight: 1080, videoCodec: 'h264' }, builtIn: true },
+  { id: 'builtin-video-4k', name: 'Video 4K MKV', type: 'video', format: { container: 'mkv', maxHeight: 2160 }, builtIn: true },
+  { id: 'builtin-audio-mp3', name: 'Audio MP3 320', type: 'audio', format: { container: 'mp3', audioBitrate: 320 }, builtIn: true },
+  { id: 'builtin-audio-flac', name: 'Audio FLAC', type: 'audio', format: { container: 'flac' }, builtIn: true }
+];
+
+export const resolutionLabel = (height: number) => {
+  if (height >= 2160) return '4K';
+  if (height >= 1440) return '2K';
+  return `${height}p`;
+};
+
+export const describeFormat = (type: 'video' | 'audio', format?: FormatSelection) => {
+  const f = format || getDefaultFormat(type);
+  const parts = [f.container.toUpperCase()];
+  if (type === 'video') {
+    parts.unshift(f.maxHeight ? resolutionLabel(f.maxHeight) : t('format.max'));
+    if (f.videoCodec) parts.push(CODEC_LABELS[f.videoCodec]);
+  } else if (f.container !== 'flac' && f.audioBitrate) {
+    parts.push(`${f.audioBitrate}k`);
+  }
+  return parts.join(' · ');
+};
+
+// Standard resolutions the source can actually deliver; everything when unknown
+export const getOfferedResolutions = (options?: MediaFormatOptions) => {
+  if (!options || options.heights.length === 0) return RESOLUTIONS;
+  const best = Math.max(...options.heights);
+  return RESOLUTIONS.filter(r => r <= best * 1.05);
+};
+
+export const getOfferedCodecs = (options?: MediaFormatOptions) =>
+  options && options.videoCodecs.length > 0 ? VIDEO_CODECS.filter(c => options.videoCodecs.includes(c)) : VIDEO_CODECS;
+
+export const getOfferedBitrates = (options?: MediaFormatOptions) => {
+  if (!options || options.audioBitrates.length === 0) return AUDIO_BITRATES;
+  // Re-encoding above the best source stream only wastes space
+  const best = Math.max(...options.audioBitrates);
+  const offered = AUDIO_BITRATES.filter(b => b <= best * 1.25);
+  return offered.length > 0 ? offered : [AUDIO_BITRATES[AUDIO_BITRATES.length - 1]];
+};
+
+export const fetchFormatOptions = (url: string) =>
+  companionJson<MediaFormatOptions>(`/formats?${new URLSearchParams({ url })}`);
+
+export const getDefaultFormat = (type: 'video' | 'audio'): FormatSelection => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LAST_FORMAT_KEY) || '{}');
+    if (stored[type]?.container) return stored[type];
+  } catch (e) {
+    console.error("Failed to read last format", e);
+  }
+  return type === 'audio' ? { container: 'mp3', audioBitrate: 320 } : { container: 'mp4', maxHeight: 1080 };
+};
+
+// New queue items start with whatever was picked last for their type
+export const rememberFormat = (type: 'video' | 'audio', format: FormatSelection) => {
+  let stored: Record<string, FormatSelection> = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(LAST_FORMAT_KEY) || '{}');
+  } catch {
+    // Corrupt value, start over
+  }
+  localStorage.setItem(LAST_FORMAT_KEY, JSON.stringify({ ...stored, [type]: format }));
+};
+
+export const loadPresets = (): FormatPreset[] => {
+  try {
+    const stored: FormatPreset[] = JSON.parse(localStorage.getItem(PRESETS_KEY) || '[]');
+    return [...BUILT_IN_PRESETS, ...stored];
+  } catch (e) {
+    console.error("Failed to load presets", e);
+    return BUILT_IN_PRESETS;
+  }
+};
+
+export const savePresets = (presets: FormatPreset[]) => {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets.filter(p => !p.builtIn)));
+};
@@ -1,27 +1,33 @@
-import { GoogleGenAI, Type } from "@google/genai";
+import { GenerateVideosOperation, Type } from "@google/genai";
 import { AnalysisResult } from "../types";
+import { classifyError } from "./errors";
+import { geminiRequest, isAbortError } from "./geminiClient";
+import { getLocale, LOCALES } from "./i18n";
 
-// Helper to get AI instance - creates new instance to ensure key is fresh
-const getAI = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+const ANALYSIS_MODEL = 'gemini-3-flash-preview';
 
-export const analyzeLink = async (url: string): Promise<AnalysisResult> => {
+// Resolves with `isValid: false` when the platform isn't supported and rejects
+// with an AppError when the link couldn't be analyzed at all (or with an
+// AbortError when `signal` cancels it)
+export const analyzeLink = async (url: string, signal?: AbortSignal): Promise<AnalysisResult> => {
   try {
-    const ai = getAI();
+    const language = LOCALES.find(l => l.id === getLocale())?.name;
     const prompt = `
       Analiza la siguiente URL: "${url}".
       1. Identifica la plataforma (YouTube, Instagram, TikTok, Spotify, etc.).
       2. Determina si es un enlace a un contenido individual O a una PLAYLIST/Álbum/Lista.
          (Pistas: 'list=', 'album/', 'playlist/', 'set/').
-      3. Genera un resumen breve.
+      3. Genera un resumen breve, escrito en ${language}.
       4. Si es YouTube, intenta construir la miniatura (hqdefault.jpg).
 
       Responde SOLO con JSON.
     `;
 
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
+    const response = await geminiRequest((ai, abortSignal) => ai.models.generateContent({
+      model: ANALYSIS_MODEL,
       contents: prompt,
       config: {
+        abortSignal,
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
@@ -36,52 +42,76 @@ export const analyzeLink = async (url: string): Promise<AnalysisResult> => {
           required: ["platform", "isValid", "summary", "contentType", "isPlaylist"]
         }
       }
-    });
+    }), { operation: 'analyzeLink', model: ANALYSIS_MODEL, signal, usage: response => response.usageMetadata });
 
     if (response.text) {
       return JSON.parse(response.text) as AnalysisResult;
     }
     throw new Error("No response text");
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error("Error analyzing link:", error);
-    return {
-      platform: "Desconocida",
-      isValid: false,
-      summary: "No pudimos identificar este enlace.",
-      contentType: "unknown",
-      isPlaylist: false
-    };
+    throw classifyError(error, 'analysis_failed');
   }
 };
 
-export const generateVideo = async (prompt: string, resolution: string = '720p', aspectRatio: string = '16:9'): Promise<string | null> => {
-  try {
-    const ai = getAI();
-    
-    // Check for polling loop
-    let operation = await ai.models.generateVideos({
-      model: 'veo-3.1-fast-generate-preview',
-      prompt: prompt,
-      config: {
-        numberOfVideos: 1,
-        resolution: resolution,
-        aspectRatio: aspectRatio
-      }
-    });
+export interface VideoGenerationRequest {
+  prompt: string;
+  resolution: string;
+  aspectRatio: string;
+}
 
-    while (!operation.done) {
-      await new Promise(resolve => setTimeout(resolve, 5000));
-      operation = await ai.operations.getVideosOperation({ operation: operation });
-    }
+export interface VideoOperationStatus {
+  done: boolean;
+  videoUri?: string;
+  error?: { message: string; status?: number };
+}
+
+const VEO_MODEL = 'veo-3.1-fast-generate-preview';
 
-    const uri = operation.response?.generatedVideos?.[0]?.video?.uri;
-    if (uri) {
-        // Append API Key as per documentation requirements for download
-        return `${uri}&key=${process.env.API_KEY}`;
+// Submits a Veo generation and returns the long-running operation name, which
+// is all that is needed to poll it again later (even after a reload)
+export const startVideoGeneration = async (request: VideoGenerationRequest, signal?: AbortSignal): Promise<string> => {
+  const operation = await geminiRequest((ai, abortSignal) => ai.models.generateVideos({
+    model: VEO_MODEL,
+    prompt: request.prompt,
+    config: {
+      numberOfVideos: 1,
+      resolution: request.resolution,
+      aspectRatio: request.aspectRatio,
+      abortSignal
     }
-    return null;
-  } catch (error) {
-    console.error("Error generating video:", error);
-    throw error;
+  }), { operation: 'generateVideos', model: VEO_MODEL, signal, timeoutMs: 60000 });
+  if (!operation.name) throw new Error('La operación de video no devolvió un identificador');
+  return operation.name;
+};
+
+export const getVideoGeneration = async (operationName: string, signal?: AbortSignal): Promise<VideoOperationStatus> => {
+  const pending = new GenerateVideosOperation();
+  pending.name = operationName;
+  const operation = await geminiRequest(
+    (ai, abortSignal) => ai.operations.getVideosOperation({ operation: pending, config: { abortSignal } }),
+    { operation: 'getVideosOperation', model: VEO_MODEL, signal }
+  );
+
+  if (!operation.done) return { done: false };
+  if (operation.error) {
+    const code = operation.error.code;
+    return {
+      done: true,
+      error: {
+        message: String(operation.error.message || 'La generación falló'),
+        status: typeof code === 'number' ? code : undefined
+      }
+    };
   }
-};
\ No newline at end of file
+
+  const uri = operation.response?.generatedVideos?.[0]?.video?.uri;
+  if (uri) return { done: true, videoUri: uri };
+
+  const filtered = operation.response?.raiMediaFilteredReasons?.join(' ');
+  return { done: true, error: { message: filtered ? `SAFETY: ${filtered}` : 'La operación terminó sin video' } };
+};
+
+// Generated video URIs must carry the API key to be downloaded
+export const withApiKey = (uri: string) => `${uri}${uri.includes('?') ? '&' : '?'}key=${process.env.API_KEY}`;
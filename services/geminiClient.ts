@@ -0,0 +1,215 @@
+import { GoogleGenAI } from "@google/genai";
+import { AppError, ErrorKind, classifyError } from "./errors";
+
+/**
+ * Single entry point for every Gemini call. Requests wait in a queue so only
+ * `MAX_CONCURRENT` run at once, transient failures (429/503, timeouts) are
+ * retried with jittered backoff, and each call can be cancelled through an
+ * AbortSignal. Every call leaves a record with its latency and token usage.
+ */
+
+const MAX_CONCURRENT = 4;
+const MAX_ATTEMPTS = 4;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 20000;
+const DEFAULT_TIMEOUT_MS = 30000;
+const MAX_RECORDS = 200;
+
+const TRANSIENT_KINDS: ErrorKind[] = ['quota', 'unavailable', 'timeout', 'network'];
+
+export interface GeminiCallRecord {
+  id: string;
+  operation: string;
+  model?: string;
+  startedAt: number;
+  latencyMs: number;
+  attempts: number;
+  outcome: 'ok' | 'error' | 'aborted';
+  errorKind?: ErrorKind;
+  promptTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+}
+
+export interface GeminiUsage {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+export interface GeminiRequestOptions<T> {
+  operation: string; // Shown in the call log, e.g. 'analyzeLink'
+  model?: string;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  // Pulls token counts out of the response, when the endpoint reports them
+  usage?: (result: T) => GeminiUsage | undefined;
+}
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+const notify = () => listeners.forEach(listener => listener());
+
+let records: GeminiCallRecord[] = [];
+let active = 0;
+const waiting: Array<() => void> = [];
+
+// The key can change at runtime (AI Studio key picker), so the client is
+// rebuilt whenever it differs from the one it was created with.
+// GEMINI_BASE_URL points the client at a stub (see server/veoStub.ts).
+let client: GoogleGenAI | null = null;
+let clientKey: string | undefined;
+
+const getClient = () => {
+  if (!client || clientKey !== process.env.API_KEY) {
+    clientKey = process.env.API_KEY;
+    client = new GoogleGenAI({
+      apiKey: clientKey,
+      httpOptions: process.env.GEMINI_BASE_URL ? { baseUrl: process.env.GEMINI_BASE_URL } : undefined
+    });
+  }
+  return client;
+};
+
+export const abortError = () => new DOMException('The Gemini request was cancelled', 'AbortError');
+
+export const isAbortError = (error: unknown) => (error as Error)?.name === 'AbortError';
+
+// Waits for a free slot; leaving the line through `signal` never takes one
+const acquireSlot = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  if (active < MAX_CONCURRENT) {
+    active++;
+    notify();
+    return resolve();
+  }
+  const grant = () => {
+    signal?.removeEventListener('abort', onAbort);
+    active++;
+    resolve();
+  };
+  const onAbort = () => {
+    waiting.splice(waiting.indexOf(grant), 1);
+    notify();
+    reject(abortError());
+  };
+  waiting.push(grant);
+  notify();
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const releaseSlot = () => {
+  active--;
+  waiting.shift()?.();
+  notify();
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Full jitter: a random wait up to the exponential cap, so a burst of 429s
+// doesn't come back as another burst
+const backoffDelay = (attempt: number) =>
+  Math.random() * Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (attempt - 1));
+
+// One attempt with its own timeout; the SDK gets a signal that fires on
+// either the caller's cancellation or the timeout
+const attemptCall = async <T>(
+  call: (ai: GoogleGenAI, signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<T> => {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  try {
+    return await call(getClient(), controller.signal);
+  } catch (error) {
+    if (signal?.aborted) throw abortError();
+    if (timedOut) throw new AppError('timeout', { detail: `No response after ${timeoutMs / 1000}s`, cause: error });
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+const addRecord = (record: GeminiCallRecord) => {
+  records = [record, ...records].slice(0, MAX_RECORDS);
+  notify();
+};
+
+/**
+ * Runs `call` through the shared queue. Rejects with the last error once
+ * retries are exhausted, or with an AbortError when `signal` fires (while queued,
+ * running or waiting to retry).
+ */
+export const geminiRequest = async <T>(
+  call: (ai: GoogleGenAI, signal: AbortSignal) => Promise<T>,
+  { operation, model, signal, timeoutMs = DEFAULT_TIMEOUT_MS, usage }: GeminiRequestOptions<T>
+): Promise<T> => {
+  const startedAt = Date.now();
+  let attempts = 0;
+  const record = (fields: Pick<GeminiCallRecord, 'outcome'> & Partial<GeminiCallRecord>) => addRecord({
+    id: crypto.randomUUID(), operation, model, startedAt, latencyMs: Date.now() - startedAt, attempts, ...fields
+  });
+
+  try {
+    while (true) {
+      await acquireSlot(signal);
+      attempts++;
+      try {
+        const result = await attemptCall(call, timeoutMs, signal);
+        const tokens = usage?.(result);
+        record({
+          outcome: 'ok',
+          promptTokens: tokens?.promptTokenCount,
+          outputTokens: tokens?.candidatesTokenCount,
+          totalTokens: tokens?.totalTokenCount
+        });
+        return result;
+      } catch (error) {
+        // Callers classify what they get back, with their own fallback kind
+        if (isAbortError(error) || attempts >= MAX_ATTEMPTS || !TRANSIENT_KINDS.includes(classifyError(error).kind)) throw error;
+      } finally {
+        releaseSlot();
+      }
+      // The slot is free while backing off so other requests keep moving
+      await sleep(backoffDelay(attempts), signal);
+    }
+  } catch (error) {
+    if (isAbortError(error)) record({ outcome: 'aborted' });
+    else record({ outcome: 'error', errorKind: classifyError(error).kind });
+    throw error;
+  }
+};
+
+export const getGeminiCalls = () => records;
+
+export const clearGeminiCalls = () => {
+  records = [];
+  notify();
+};
+
+export const getGeminiQueueState = () => ({ active, waiting: waiting.length });
+
+export const subscribeGeminiCalls = (listener: Listener) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
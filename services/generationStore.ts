@@ -0,0 +1,26 @@
+import { GenerationJob } from '../types';
+import { openDb, promisifyRequest, transactionDone } from './db';
+
+const STORE = 'generations';
+
+export const loadGenerations = async (): Promise<GenerationJob[]> => {
+  const db = await openDb();
+  const records = await promisifyRequest<GenerationJob[]>(
+    db.transaction(STORE, 'readonly').objectStore(STORE).getAll()
+  );
+  return records.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveGeneration = async (job: GenerationJob) => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).put(job);
+  await transactionDone(tx);
+};
+
+export const deleteGeneration = async (id: string) => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).delete(id);
+  await transactionDone(tx);
+};
@@ -0,0 +1,227 @@
+import { AppMode, ErrorInfo, GenerationJob } from '../types';
+import { AppError, classifyError } from './errors';
+import { startVideoGeneration, getVideoGeneration, VideoGenerationRequest, VideoOperationStatus } from './gemini';
+import { loadGenerations, saveGeneration, deleteGeneration } from './generationStore';
+import { archiveGeneration } from './library';
+import { notify } from './notifications';
+
+// Transport for Veo long-running operations. The default one talks to the
+// Gemini API; tests can pass a stub (or point GEMINI_BASE_URL at server/veoStub.ts).
+export interface VeoClient {
+  start: (request: VideoGenerationRequest, signal: AbortSignal) => Promise<string>;
+  poll: (operationName: string, signal: AbortSignal) => Promise<VideoOperationStatus>;
+}
+
+export interface GenerationStore {
+  load: () => Promise<GenerationJob[]>;
+  save: (job: GenerationJob) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+export interface GenerationManagerOptions {
+  client: VeoClient;
+  store?: GenerationStore;
+  pollIntervalMs?: number;
+  timeoutMs?: number;
+  onSettled?: (job: GenerationJob) => void;
+}
+
+type Listener = (jobs: GenerationJob[]) => void;
+
+const POLL_INTERVAL_MS = 5000;
+// Veo usually answers within a few minutes; anything past this is given up on
+const TIMEOUT_MS = 15 * 60 * 1000;
+// Consecutive polling failures (network blips) tolerated before the job fails
+const MAX_POLL_FAILURES = 3;
+
+export const isActiveGeneration = (job: GenerationJob) => job.state === 'submitting' || job.state === 'running';
+
+export const getElapsedMs = (job: GenerationJob, now = Date.now()) => (job.finishedAt ?? now) - job.createdAt;
+
+export const formatElapsed = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const sleep = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  };
+  const timer = setTimeout(() => {
+    signal.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal.addEventListener('abort', onAbort, { once: true });
+});
+
+export const createGenerationManager = ({
+  client,
+  store,
+  pollIntervalMs = POLL_INTERVAL_MS,
+  timeoutMs = TIMEOUT_MS,
+  onSettled
+}: GenerationManagerOptions) => {
+  let jobs: GenerationJob[] = [];
+  const controllers = new Map<string, AbortController>();
+  const listeners = new Set<Listener>();
+  let restored: Promise<void> | null = null;
+
+  const emit = () => {
+    const snapshot = [...jobs];
+    listeners.forEach(listener => listener(snapshot));
+  };
+
+  const persist = (job: GenerationJob) => {
+    store?.save(job).catch(err => console.error('Failed to save generation', err));
+  };
+
+  const update = (id: string, updates: Partial<GenerationJob>) => {
+    let updated: GenerationJob | undefined;
+    jobs = jobs.map(job => {
+      if (job.id !== id) return job;
+      updated = { ...job, ...updates };
+      return updated;
+    });
+    if (!updated) return;
+    persist(updated);
+    emit();
+    if (!isActiveGeneration(updated)) onSettled?.(updated);
+  };
+
+  const fail = (id: string, error: ErrorInfo) => {
+    update(id, { state: 'failed', error, finishedAt: Date.now() });
+  };
+
+  const run = async (job: GenerationJob) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    const { signal } = controller;
+
+    try {
+      let operationName = job.operationName;
+      if (!operationName) {
+        operationName = await client.start(job, signal);
+        update(job.id, { state: 'running', operationName });
+      }
+
+      // Counted from when this run started polling, so a job restored after a long absence
+      // is checked before it can time out
+      const deadline = Date.now() + timeoutMs;
+      let failures = 0;
+      while (true) {
+        let status: VideoOperationStatus | null = null;
+        try {
+          status = await client.poll(operationName, signal);
+          failures = 0;
+        } catch (err) {
+          if (signal.aborted || ++failures >= MAX_POLL_FAILURES) throw err;
+          console.warn('Polling generation failed, retrying', err);
+        }
+
+        if (status?.done) {
+          if (status.videoUri) {
+            update(job.id, { state: 'completed', videoUri: status.videoUri, finishedAt: Date.now() });
+          } else {
+            fail(job.id, classifyError(status.error ?? new Error('La operación terminó sin video')).toInfo());
+          }
+          return;
+        }
+
+        if (Date.now() > deadline) {
+          fail(job.id, new AppError('timeout', { detail: 'La generación superó el tiempo máximo de espera' }).toInfo());
+          return;
+        }
+
+        await sleep(pollIntervalMs, signal);
+      }
+    } catch (err) {
+      // Cancelled jobs were already marked as such by cancel()
+      if (signal.aborted) return;
+      console.error('Generation failed', err);
+      fail(job.id, classifyError(err).toInfo());
+    } finally {
+      controllers.delete(job.id);
+    }
+  };
+
+  return {
+    /** Loads saved jobs and resumes polling the ones that were still running. */
+    restore: () => {
+      restored ??= (async () => {
+        const saved = store ? await store.load() : [];
+        jobs = [...saved, ...jobs.filter(job => !saved.some(s => s.id === job.id))];
+        emit();
+        saved.filter(isActiveGeneration).forEach(job => {
+          if (job.operationName) {
+            run(job);
+          } else {
+            // Interrupted before Veo accepted it, so there is nothing to resume
+            fail(job.id, new AppError('unknown', { detail: 'La página se cerró antes de enviar la solicitud' }).toInfo());
+          }
+        });
+      })().catch(err => console.error('Failed to restore generations', err));
+      return restored;
+    },
+
+    start: (request: VideoGenerationRequest): GenerationJob => {
+      const job: GenerationJob = {
+        id: crypto.randomUUID(),
+        prompt: request.prompt,
+        resolution: request.resolution,
+        aspectRatio: request.aspectRatio,
+        state: 'submitting',
+        createdAt: Date.now()
+      };
+      jobs = [...jobs, job];
+      persist(job);
+      emit();
+      run(job);
+      return job;
+    },
+
+    /**
+     * Stops tracking an active job. Veo has no cancel endpoint on the Gemini
+     * API, so the operation may still finish server-side; its result is dropped.
+     */
+    cancel: (id: string) => {
+      const job = jobs.find(j => j.id === id);
+      if (!job || !isActiveGeneration(job)) return;
+      controllers.get(id)?.abort();
+      update(id, { state: 'cancelled', finishedAt: Date.now() });
+    },
+
+    remove: (id: string) => {
+      controllers.get(id)?.abort();
+      jobs = jobs.filter(job => job.id !== id);
+      store?.remove(id).catch(err => console.error('Failed to delete generation', err));
+      emit();
+    },
+
+    getJobs: () => [...jobs],
+
+    subscribe: (listener: Listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    }
+  };
+};
+
+export type GenerationManager = ReturnType<typeof createGenerationManager>;
+
+// App-wide manager: jobs keep polling while the user is in another mode.
+// Finished videos move to the local library, which replaces the job card.
+export const generationManager = createGenerationManager({
+  client: { start: startVideoGeneration, poll: getVideoGeneration },
+  store: { load: loadGenerations, save: saveGeneration, remove: deleteGeneration },
+  onSettled: (job) => {
+    if (job.state === 'failed') {
+      notify({ event: 'error', title: 'notification.generationFailed.title', body: 'notification.generationFailed.body', mode: AppMode.GENERATOR });
+    }
+    if (job.state !== 'completed') return;
+    notify({ event: 'generationCompleted', title: 'notification.generation.title', body: 'notification.generation.body', mode: AppMode.GENERATOR });
+    archiveGeneration(job)
+      .then(() => generationManager.remove(job.id))
+      .catch(err => console.error('Failed to archive generation', err));
+  }
+});
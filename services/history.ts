@@ -0,0 +1,235 @@
+import type { ClipRange, FormatSelection } from '../server/protocol';
+import { AnalysisResult, BatchItem, HistoryFilter, HistoryItem } from '../types';
+import { openDb, promisifyRequest, transactionDone } from './db';
+import { toCsv, parseCsvRecords } from './csv';
+import { AUDIO_CONTAINERS, VIDEO_CODECS, VIDEO_CONTAINERS } from './formats';
+import { JsonObject, isObject, optionalNumber, optionalString } from '../server/json';
+
+const STORE = 'history';
+export const HISTORY_PAGE_SIZE = 25;
+
+const CSV_COLUMNS = ['id', 'url', 'platform', 'timestamp', 'summary', 'type', 'contentType', 'thumbnailUrl', 'format', 'clip', 'fileName', 'fileSize'] as const;
+
+export interface HistoryPage {
+  items: HistoryItem[];
+  total: number;
+  hasMore: boolean;
+}
+
+// Case- and accent-insensitive, so "cancion" finds "Canción"
+const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const matches = (item: HistoryItem, filter: HistoryFilter, terms: string[]) => {
+  if (filter.platform && item.platform !== filter.platform) return false;
+  if (filter.type && item.type !== filter.type) return false;
+  if (terms.length === 0) return true;
+  const haystack = normalize(`${item.summary} ${item.url} ${item.platform}`);
+  return terms.every(term => haystack.includes(term));
+};
+
+/** Newest first; text terms must all appear in the summary, URL or platform. */
+export const queryHistory = async (filter: HistoryFilter, page: number, pageSize = HISTORY_PAGE_SIZE): Promise<HistoryPage> => {
+  const db = await openDb();
+  const index = db.transaction(STORE, 'readonly').objectStore(STORE).index('timestamp');
+  const range = filter.from !== undefined || filter.to !== undefined
+    ? IDBKeyRange.bound(filter.from ?? 0, filter.to ?? Number.MAX_SAFE_INTEGER)
+    : undefined;
+  const terms = normalize(filter.text || '').split(/\s+/).filter(Boolean);
+  const start = (page - 1) * pageSize;
+
+  const items: HistoryItem[] = [];
+  let total = 0;
+
+  await new Promise<void>((resolve, reject) => {
+    const request = index.openCursor(range, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      const item = cursor.value as HistoryItem;
+      if (matches(item, filter, terms)) {
+        if (total >= start && items.length < pageSize) items.push(item);
+        total++;
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+  return { items, total, hasMore: start + items.length < total };
+};
+
+// History entries were valid single items when they were downloaded
+export const historyToResult = (entry: HistoryItem): AnalysisResult => ({
+  platform: entry.platform,
+  isValid: true,
+  summary: entry.summary,
+  contentType: entry.contentType ?? entry.type,
+  thumbnailUrl: entry.thumbnailUrl,
+  isPlaylist: false
+});
+
+/** Most recent entry for a link, if it was ever downloaded. */
+export const findHistoryEntry = async (url: string): Promise<HistoryItem | undefined> => {
+  const db = await openDb();
+  const entries = await promisifyRequest<HistoryItem[]>(
+    db.transaction(STORE, 'readonly').objectStore(STORE).index('url').getAll(url)
+  );
+  return entries.sort((a, b) => b.timestamp - a.timestamp)[0];
+};
+
+export const getHistoryPlatforms = async (): Promise<string[]> => {
+  const db = await openDb();
+  const items = await promisifyRequest<HistoryItem[]>(db.transaction(STORE, 'readonly').objectStore(STORE).getAll());
+  return Array.from(new Set(items.map(item => item.platform))).sort();
+};
+
+// One entry per URL: downloading a link again moves it to the top
+const putEntries = async (entries: HistoryItem[]) => {
+  const latest = new Map<string, HistoryItem>();
+  entries.forEach(entry => {
+    const current = latest.get(entry.url);
+    if (!current || current.timestamp < entry.timestamp) latest.set(entry.url, entry);
+  });
+
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  latest.forEach(entry => {
+    const request = store.index('url').getAll(entry.url);
+    request.onsuccess = () => {
+      const others = (request.result as HistoryItem[]).filter(existing => existing.id !== entry.id);
+      // An imported entry never replaces a more recent download of the same link
+      if (others.some(existing => existing.timestamp > entry.timestamp)) return;
+      others.forEach(existing => store.delete(existing.id));
+      store.put(entry);
+    };
+  });
+  await transactionDone(tx);
+};
+
+/** Records a finished download under the name and size of the file it produced. */
+export const addToHistory = async (item: BatchItem, file: { fileName?: string; fileSize?: number | null } = {}) => {
+  const result = item.result;
+  if (!result?.isValid) return;
+
+  await putEntries([{
+    id: crypto.randomUUID(),
+    url: item.url,
+    platform: result.platform,
+    timestamp: Date.now(),
+    summary: result.summary,
+    type: item.type,
+    format: item.format,
+    clip: item.clip,
+    contentType: result.contentType,
+    thumbnailUrl: result.thumbnailUrl,
+    fileName: file.fileName,
+    fileSize: file.fileSize ?? undefined
+  }]);
+};
+
+export const deleteHistoryItem = async (id: string) => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).delete(id);
+  await transactionDone(tx);
+};
+
+export const clearHistory = async () => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).clear();
+  await transactionDone(tx);
+};
+
+export const exportHistory = async (format: 'json' | 'csv'): Promise<Blob> => {
+  const db = await openDb();
+  const items = await promisifyRequest<HistoryItem[]>(db.transaction(STORE, 'readonly').objectStore(STORE).getAll());
+  items.sort((a, b) => b.timestamp - a.timestamp);
+
+  if (format === 'json') {
+    return new Blob([JSON.stringify(items, null, 2)], { type: 'application/json' });
+  }
+
+  const rows = items.map(item => CSV_COLUMNS.map(column => {
+    if (column === 'timestamp') return new Date(item.timestamp).toISOString();
+    if (column === 'format' || column === 'clip') return item[column] ? JSON.stringify(item[column]) : '';
+    return item[column];
+  }));
+  return new Blob([toCsv([...CSV_COLUMNS], rows)], { type: 'text/csv' });
+};
+
+const parseTimestamp = (value: unknown) => {
+  const time = typeof value === 'number' ? value : Date.parse(String(value));
+  return Number.isFinite(time) ? time : Date.now();
+};
+
+// CSV exports hold objects as JSON text
+const parseJsonField = (value: unknown) => {
+  if (typeof value !== 'string') return value || undefined;
+  try {
+    return value ? JSON.parse(value) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const CONTAINERS = [...VIDEO_CONTAINERS, ...AUDIO_CONTAINERS];
+const CONTENT_TYPES = ['video', 'audio', 'image', 'unknown'] as const;
+
+// History renders every stored format, so one it can't describe would break the whole list
+const toFormat = (value: unknown): FormatSelection | undefined => {
+  if (!isObject(value)) return undefined;
+  const container = CONTAINERS.find(known => known === value.container);
+  if (!container) return undefined;
+  const videoCodec = VIDEO_CODECS.find(codec => codec === value.videoCodec);
+  return {
+    container,
+    maxHeight: optionalNumber(value.maxHeight),
+    audioBitrate: optionalNumber(value.audioBitrate),
+    ...(videoCodec ? { videoCodec } : {})
+  };
+};
+
+const toClip = (value: unknown): ClipRange | undefined => {
+  if (!isObject(value)) return undefined;
+  const startSeconds = optionalNumber(value.startSeconds);
+  if (startSeconds === undefined) return undefined;
+  return { startSeconds, endSeconds: optionalNumber(value.endSeconds) };
+};
+
+// Exported entries and CSV rows come from outside; anything unexpected is left out
+const toEntry = (raw: JsonObject): HistoryItem | null => {
+  const url = optionalString(raw.url);
+  if (!url || !/^https?:\/\//.test(url)) return null;
+  const fileSize = Number(raw.fileSize);
+  return {
+    id: optionalString(raw.id) ?? crypto.randomUUID(),
+    url,
+    platform: optionalString(raw.platform) ?? 'Desconocida',
+    timestamp: parseTimestamp(raw.timestamp),
+    summary: optionalString(raw.summary) ?? '',
+    type: raw.type === 'audio' ? 'audio' : 'video',
+    format: toFormat(parseJsonField(raw.format)),
+    clip: toClip(parseJsonField(raw.clip)),
+    contentType: CONTENT_TYPES.find(type => type === raw.contentType),
+    thumbnailUrl: optionalString(raw.thumbnailUrl),
+    fileName: optionalString(raw.fileName),
+    fileSize: fileSize > 0 ? fileSize : undefined
+  };
+};
+
+/** Merges a JSON or CSV export into the history. Returns how many entries were imported. */
+export const importHistory = async (file: File): Promise<number> => {
+  const text = await file.text();
+  const isJson = file.name.toLowerCase().endsWith('.json') || text.trimStart().startsWith('[');
+  const records: unknown = isJson ? JSON.parse(text) : parseCsvRecords(text);
+  if (!Array.isArray(records)) throw new Error('El archivo no contiene una lista de entradas');
+
+  const entries = records.filter(isObject).map(toEntry).filter((entry): entry is HistoryItem => entry !== null);
+  await putEntries(entries);
+  return entries.length;
+};
@@ -0,0 +1,87 @@
+import { useSyncExternalStore } from 'react';
+import { es } from '../locales/es';
+import { en } from '../locales/en';
+
+export type Locale = 'es' | 'en';
+export type MessageKey = keyof typeof es;
+
+// Plural entries are picked with Intl.PluralRules from the `count` param
+export interface PluralMessage {
+  zero?: string;
+  one: string;
+  other: string;
+}
+
+export type Message = string | PluralMessage;
+export type Catalog = Record<MessageKey, Message>;
+type Params = Record<string, string | number>;
+
+export const LOCALES: { id: Locale; name: string }[] = [
+  { id: 'es', name: 'Español' },
+  { id: 'en', name: 'English' }
+];
+
+const CATALOGS: Record<Locale, Catalog> = { es, en };
+const LOCALE_KEY = 'vortex_media_locale';
+
+const isLocale = (value: unknown): value is Locale => LOCALES.some(l => l.id === value);
+
+const detectLocale = (): Locale => {
+  const stored = localStorage.getItem(LOCALE_KEY);
+  if (isLocale(stored)) return stored;
+  const preferred = (navigator.languages || [navigator.language]).map(lang => lang.slice(0, 2));
+  return preferred.find(isLocale) ?? 'es';
+};
+
+let currentLocale: Locale = detectLocale();
+const listeners = new Set<() => void>();
+
+document.documentElement.lang = currentLocale;
+
+export const getLocale = () => currentLocale;
+
+export const setLocale = (locale: Locale) => {
+  if (locale === currentLocale) return;
+  currentLocale = locale;
+  localStorage.setItem(LOCALE_KEY, locale);
+  document.documentElement.lang = locale;
+  listeners.forEach(listener => listener());
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const interpolate = (text: string, params?: Params) =>
+  params ? text.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match) : text;
+
+export const t = (key: MessageKey, params?: Params): string => {
+  const message: Message = CATALOGS[currentLocale][key] ?? es[key] ?? key;
+  if (typeof message === 'string') return interpolate(message, params);
+
+  const count = Number(params?.count ?? 0);
+  const form = count === 0 && message.zero !== undefined
+    ? message.zero
+    : new Intl.PluralRules(currentLocale).select(count) === 'one' ? message.one : message.other;
+  return interpolate(form, params);
+};
+
+// Translates values that may be a catalog key or plain text stored before a key existed
+export const translateStored = (value: string | undefined, params?: Params) =>
+  value && value in es ? t(value as MessageKey, params) : value ?? '';
+
+export const formatDate = (value: number | Date, options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }) =>
+  new Intl.DateTimeFormat(currentLocale, options).format(value);
+
+export const formatDateTime = (value: number | Date) =>
+  formatDate(value, { dateStyle: 'medium', timeStyle: 'short' });
+
+export const formatNumber = (value: number, options?: Intl.NumberFormatOptions) =>
+  new Intl.NumberFormat(currentLocale, options).format(value);
+
+/** Re-renders the component when the locale changes. */
+export const useI18n = () => {
+  const locale = useSyncExternalStore(subscribe, getLocale);
+  return { locale, t, setLocale, formatDate, formatDateTime, formatNumber };
+};
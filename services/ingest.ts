@@ -0,0 +1,95 @@
+/** Links handed to the app from outside: a shared link, `?add=`, a `web+vortex:` link or the bookmarklet. */
+export interface IncomingLinks {
+  text: string; // Free text; the downloader extracts the URLs from it
+  type?: 'video' | 'audio';
+  autoStart?: boolean; // Queue for download as soon as the analysis succeeds
+}
+
+export interface IngestPrefs {
+  autoStart: boolean; // Default for links that don't say (`start=1` / `start=0` overrides it)
+}
+
+export const PROTOCOL_SCHEME = 'web+vortex';
+
+const PREFS_KEY = 'vortex_media_ingest_prefs';
+const DEFAULT_PREFS: IngestPrefs = { autoStart: false };
+
+// Parameters the Web Share Target in public/manifest.webmanifest sends
+const SHARE_PARAMS = ['title', 'text', 'url'];
+
+export const loadIngestPrefs = (): IngestPrefs => {
+  try {
+    return { ...DEFAULT_PREFS, ...JSON.parse(localStorage.getItem(PREFS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_PREFS;
+  }
+};
+
+export const saveIngestPrefs = (prefs: IngestPrefs) => {
+  localStorage.setItem(PREFS_KEY, JSON.stringify(prefs));
+};
+
+const parseFlag = (value: string | null) => value === null ? undefined : value === '1' || value === 'true';
+
+const parseType = (value: string | null) => value === 'audio' || value === 'video' ? value : undefined;
+
+/**
+ * `web+vortex:` links carry either a bare URL (`web+vortex:https://youtu.be/...`) or the
+ * same parameters as `?add=` (`web+vortex://add?url=...&type=audio&start=1`).
+ */
+export const parseProtocolLink = (link: string): IncomingLinks | undefined => {
+  const rest = link.trim().replace(new RegExp(`^${PROTOCOL_SCHEME.replace('+', '\\+')}:`, 'i'), '');
+  const command = rest.match(/^(?:\/\/)?add\/?\?(.*)$/i);
+  if (!command) return rest ? { text: rest } : undefined;
+  const params = new URLSearchParams(command[1]);
+  const text = [...params.getAll('url'), ...params.getAll('add')].join('\n');
+  if (!text) return undefined;
+  return { text, type: parseType(params.get('type')), autoStart: parseFlag(params.get('start')) };
+};
+
+/** Reads incoming links from the page's query string. */
+export const parseIncomingLinks = (search: string): IncomingLinks | undefined => {
+  const params = new URLSearchParams(search);
+
+  const protocolLink = params.get('protocol');
+  if (protocolLink) return parseProtocolLink(protocolLink);
+
+  const type = parseType(params.get('type'));
+  const autoStart = parseFlag(params.get('start'));
+
+  // ?add=<url> may be repeated
+  const added = params.getAll('add').map(value => value.trim()).filter(Boolean);
+  if (added.length > 0) return { text: added.join('\n'), type, autoStart };
+
+  // Apps put the shared link in any of the three share fields, so they are kept together
+  const shared = SHARE_PARAMS.map(name => params.get(name)?.trim()).filter(Boolean);
+  if (shared.length > 0) return { text: shared.join('\n'), type, autoStart };
+
+  return undefined;
+};
+
+/**
+ * Takes the incoming links of the current page load and cleans them from the
+ * address bar, so a reload doesn't add them again.
+ */
+export const takeIncomingLinks = (): IncomingLinks | undefined => {
+  const incoming = parseIncomingLinks(window.location.search);
+  if (incoming) window.history.replaceState(null, '', `${window.location.pathname}${window.location.hash}`);
+  return incoming;
+};
+
+/** Where the bookmarklet and protocol handler point: this page without query or hash. */
+export const getAppUrl = () => `${window.location.origin}${window.location.pathname}`;
+
+export const canRegisterProtocol = () => typeof navigator.registerProtocolHandler === 'function';
+
+/** Asks the browser to open `web+vortex:` links with this app; the browser shows its own prompt. */
+export const registerProtocol = () => {
+  navigator.registerProtocolHandler(PROTOCOL_SCHEME, `${getAppUrl()}?protocol=%s`);
+};
+
+/** Bookmarklet that opens the app with the page being viewed added to the queue. */
+export const buildBookmarklet = (appUrl: string, { type, autoStart }: Omit<IncomingLinks, 'text'> = {}) => {
+  const extra = [type && `&type=${type}`, autoStart && '&start=1'].filter(Boolean).join('');
+  return `javascript:(()=>{window.open(${JSON.stringify(`${appUrl}?add=`)}+encodeURIComponent(location.href)+${JSON.stringify(extra)},'_blank')})()`;
+};
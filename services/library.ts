@@ -0,0 +1,94 @@
+import { GeneratedVideo, GenerationJob } from '../types';
+import { openDb, promisifyRequest, transactionDone } from './db';
+import { withApiKey } from './gemini';
+
+const STORE = 'library';
+
+// Files produced by Veo are kept by the Gemini API for two days
+export const REMOTE_RETENTION_MS = 48 * 60 * 60 * 1000;
+// Remote-only videos start warning this long before their link expires
+export const EXPIRY_WARNING_MS = 12 * 60 * 60 * 1000;
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const subscribeLibrary = (listener: Listener) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const loadLibrary = async (): Promise<GeneratedVideo[]> => {
+  const db = await openDb();
+  const records = await promisifyRequest<GeneratedVideo[]>(
+    db.transaction(STORE, 'readonly').objectStore(STORE).getAll()
+  );
+  return records.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+const putVideo = async (video: GeneratedVideo) => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).put(video);
+  await transactionDone(tx);
+  notify();
+};
+
+export const deleteFromLibrary = async (id: string) => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).delete(id);
+  await transactionDone(tx);
+  notify();
+};
+
+const fetchVideoBlob = async (uri: string) => {
+  const response = await fetch(withApiKey(uri));
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return response.blob();
+};
+
+/**
+ * Stores a finished generation in the library. The record is kept even if the
+ * file can't be fetched, so the user can retry before the remote link expires.
+ */
+export const archiveGeneration = async (job: GenerationJob): Promise<GeneratedVideo> => {
+  const video: GeneratedVideo = {
+    id: job.id,
+    uri: job.videoUri!,
+    expiry: new Date((job.finishedAt ?? Date.now()) + REMOTE_RETENTION_MS).toISOString(),
+    prompt: job.prompt,
+    resolution: job.resolution,
+    aspectRatio: job.aspectRatio,
+    createdAt: job.finishedAt ?? Date.now()
+  };
+
+  try {
+    video.blob = await fetchVideoBlob(video.uri);
+  } catch (err) {
+    console.error('Failed to fetch generated video', err);
+  }
+  await putVideo(video);
+  return video;
+};
+
+/** Retries fetching the local copy of a remote-only video. */
+export const saveLocalCopy = async (video: GeneratedVideo) => {
+  const blob = await fetchVideoBlob(video.uri);
+  await putVideo({ ...video, blob });
+};
+
+export const isRemoteExpired = (video: GeneratedVideo, now = Date.now()) =>
+  !!video.expiry && new Date(video.expiry).getTime() <= now;
+
+// Only videos without a local copy depend on the remote link
+export const isExpiringSoon = (video: GeneratedVideo, now = Date.now()) =>
+  !video.blob && !!video.expiry && !isRemoteExpired(video, now) &&
+  new Date(video.expiry).getTime() - now <= EXPIRY_WARNING_MS;
+
+export const formatTimeUntil = (iso: string, now = Date.now()) => {
+  const minutes = Math.max(0, Math.round((new Date(iso).getTime() - now) / 60000));
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.round(minutes / 60)} h`;
+};
@@ -0,0 +1,121 @@
+import { parseCsv } from './csv';
+import { extractUrls, canonicalizeUrl, getContentKey } from './urls';
+
+export interface ImportedLink {
+  url: string;
+  title?: string;
+  fileName: string; // File the link was found in
+}
+
+export type LinkFileFormat = 'text' | 'csv' | 'm3u' | 'opml' | 'bookmarks';
+
+// What the file picker offers; anything else dropped is read as plain text
+export const LINK_FILE_ACCEPT = '.txt,.csv,.tsv,.m3u,.m3u8,.opml,.xml,.html,.htm';
+
+// Spreadsheet columns that hold a readable name for the link
+const TITLE_COLUMNS = ['title', 'name', 'titulo', 'título', 'nombre', 'text'];
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decodeEntities = (text: string) => text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+  if (entity[0] === '#') {
+    const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+  }
+  return ENTITIES[entity.toLowerCase()] ?? match;
+});
+
+const readAttributes = (tag: string) => {
+  const attributes: Record<string, string> = {};
+  for (const [, name, double, single] of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[name.toLowerCase()] = decodeEntities(double ?? single ?? '');
+  }
+  return attributes;
+};
+
+const stripTags = (html: string) => decodeEntities(html.replace(/<[^>]*>/g, '')).trim();
+
+const isWebUrl = (value: string | undefined): value is string => !!value && /^https?:\/\//i.test(value.trim());
+
+export const detectLinkFileFormat = (fileName: string, content: string): LinkFileFormat => {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  const head = content.slice(0, 1000).toLowerCase();
+  if (extension === 'm3u' || extension === 'm3u8' || head.startsWith('#extm3u')) return 'm3u';
+  if (extension === 'opml' || head.includes('<opml')) return 'opml';
+  if (head.includes('netscape-bookmark-file') || ((extension === 'html' || extension === 'htm') && /<a\s/i.test(content))) return 'bookmarks';
+  if (extension === 'csv' || extension === 'tsv') return 'csv';
+  return 'text';
+};
+
+// #EXTINF:<duration>,<title> names the entry on the next line
+const parseM3u = (content: string) => {
+  const links: Omit<ImportedLink, 'fileName'>[] = [];
+  let title: string | undefined;
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (line.toUpperCase().startsWith('#EXTINF')) {
+      title = line.slice(line.indexOf(',') + 1).trim() || undefined;
+    } else if (line && !line.startsWith('#')) {
+      if (isWebUrl(line)) links.push({ url: line, title });
+      title = undefined;
+    }
+  }
+  return links;
+};
+
+// Podcast exports list feeds as xmlUrl; other outlines point to pages with htmlUrl or url
+const parseOpml = (content: string) =>
+  [...content.matchAll(/<outline\b([^>]*)>/gi)].flatMap(([, tag]) => {
+    const attributes = readAttributes(tag);
+    const url = [attributes.xmlurl, attributes.url, attributes.htmlurl].find(isWebUrl);
+    return url ? [{ url, title: attributes.title || attributes.text || undefined }] : [];
+  });
+
+// Netscape bookmark files (what every browser exports) and any other page of links
+const parseBookmarks = (content: string) =>
+  [...content.matchAll(/<a\b([^>]*)>([\s\S]*?)<\/a>/gi)].flatMap(([, tag, label]) => {
+    const { href } = readAttributes(tag);
+    return isWebUrl(href) ? [{ url: href, title: stripTags(label) || undefined }] : [];
+  });
+
+// Spreadsheets in many locales export with semicolons; tabs for .tsv
+const detectSeparator = (fileName: string, content: string) => {
+  if (fileName.toLowerCase().endsWith('.tsv')) return '\t';
+  const [firstLine] = content.split(/\r?\n/, 1);
+  return (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+};
+
+// Any cell may hold the link; a title-like column in the header row names it
+const parseCsvLinks = (fileName: string, content: string) => {
+  const rows = parseCsv(content, detectSeparator(fileName, content));
+  const header = rows[0]?.map(cell => cell.trim().toLowerCase()) ?? [];
+  const titleColumn = header.findIndex(cell => TITLE_COLUMNS.includes(cell));
+  return rows.flatMap(row => {
+    const url = row.map(cell => extractUrls(cell)[0]).find(Boolean);
+    return url ? [{ url, title: titleColumn >= 0 ? row[titleColumn]?.trim() || undefined : undefined }] : [];
+  });
+};
+
+/** Finds the links in one imported file, in file order. */
+export const parseLinkFile = (fileName: string, content: string): ImportedLink[] => {
+  const text = content.replace(/^\uFEFF/, '');
+  const format = detectLinkFileFormat(fileName, text);
+  const links = format === 'm3u' ? parseM3u(text)
+    : format === 'opml' ? parseOpml(text)
+    : format === 'bookmarks' ? parseBookmarks(text)
+    : format === 'csv' ? parseCsvLinks(fileName, text)
+    : extractUrls(text).map(url => ({ url }));
+  return links.map(link => ({ ...link, fileName }));
+};
+
+/** Reads dropped or picked files; links are canonicalized and the same content is kept once. */
+export const readLinkFiles = async (files: File[]): Promise<ImportedLink[]> => {
+  const parsed = await Promise.all(files.map(async file => parseLinkFile(file.name, await file.text())));
+  const seen = new Set<string>();
+  return parsed.flat().map(link => ({ ...link, url: canonicalizeUrl(link.url) })).filter(link => {
+    const key = getContentKey(link.url);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
@@ -1,31 +1,202 @@
+import { useSyncExternalStore } from 'react';
+import { AppMode, AppNotification, NotificationEvent } from '../types';
+import { t, MessageKey } from './i18n';
+import { buildHash } from './router';
+
+export interface NotificationPrefs {
+  events: Record<NotificationEvent, boolean>;
+  desktop: boolean; // Also show a system notification while the tab is in the background
+  sound: boolean;
+}
+
+export interface NotifyOptions {
+  event: NotificationEvent;
+  title: MessageKey;
+  body: MessageKey;
+  params?: Record<string, string | number>;
+  mode?: AppMode; // Where clicking the notification leads
+}
+
+type Listener = () => void;
+
+const PREFS_KEY = 'vortex_media_notification_prefs';
+const HISTORY_KEY = 'vortex_media_notifications';
+const MAX_HISTORY = 50;
+const MAX_TOASTS = 4;
+const APP_ICON = '/icon.svg';
+
+export const NOTIFICATION_EVENTS: NotificationEvent[] = ['itemCompleted', 'batchCompleted', 'error', 'generationCompleted'];
+
+const DEFAULT_PREFS: NotificationPrefs = {
+  events: { itemCompleted: true, batchCompleted: true, error: true, generationCompleted: true },
+  desktop: true,
+  sound: false
+};
+
+const loadHistory = (): AppNotification[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(HISTORY_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+const listeners = new Set<Listener>();
+let history = loadHistory();
+// Shown in the corner until dismissed or timed out; not persisted
+let toasts: AppNotification[] = [];
+
+const emit = () => listeners.forEach(listener => listener());
+
+const saveHistory = (next: AppNotification[]) => {
+  history = next;
+  try {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+  } catch (e) {
+    console.error('Failed to save notifications', e);
+  }
+  emit();
+};
+
+export const loadNotificationPrefs = (): NotificationPrefs => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PREFS_KEY) || '{}');
+    return { ...DEFAULT_PREFS, ...stored, events: { ...DEFAULT_PREFS.events, ...stored.events } };
+  } catch {
+    return DEFAULT_PREFS;
+  }
+};
+
+export const saveNotificationPrefs = (prefs: NotificationPrefs) => {
+  localStorage.setItem(PREFS_KEY, JSON.stringify(prefs));
+};
+
+export const getDesktopPermission = (): NotificationPermission | 'unsupported' =>
+  'Notification' in window ? Notification.permission : 'unsupported';
+
 export const requestNotificationPermission = async (): Promise<boolean> => {
-  if (!("Notification" in window)) {
-    console.log("This browser does not support desktop notification");
+  if (!loadNotificationPrefs().desktop) return false;
+  if (!('Notification' in window)) {
+    console.log('This browser does not support desktop notification');
     return false;
   }
 
-  if (Notification.permission === "granted") {
+  if (Notification.permission === 'granted') {
     return true;
   }
 
-  if (Notification.permission !== "denied") {
+  if (Notification.permission !== 'denied') {
     const permission = await Notification.requestPermission();
-    return permission === "granted";
+    return permission === 'granted';
   }
 
   return false;
 };
 
-export const sendNotification = (title: string, body: string) => {
-  if (Notification.permission === "granted") {
-    try {
-      new Notification(title, {
-        body,
-        icon: 'https://www.google.com/favicon.ico', // Fallback icon or app icon
-        silent: false,
-      });
-    } catch (e) {
-      console.error("Error sending notification", e);
-    }
+let audioContext: AudioContext | null = null;
+
+// A short two-note chime, synthesized so no audio asset has to be shipped
+const playChime = () => {
+  try {
+    audioContext ??= new AudioContext();
+    const now = audioContext.currentTime;
+    [880, 1320].forEach((frequency, i) => {
+      const oscillator = audioContext!.createOscillator();
+      const gain = audioContext!.createGain();
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.0001, now + i * 0.12);
+      gain.gain.exponentialRampToValueAtTime(0.15, now + i * 0.12 + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.0001, now + i * 0.12 + 0.3);
+      oscillator.connect(gain).connect(audioContext!.destination);
+      oscillator.start(now + i * 0.12);
+      oscillator.stop(now + i * 0.12 + 0.3);
+    });
+  } catch (e) {
+    console.error('Failed to play notification sound', e);
+  }
+};
+
+/** Marks the notification as read and switches to the mode it points to. */
+export const openNotification = (notification: AppNotification) => {
+  markNotificationRead(notification.id);
+  dismissToast(notification.id);
+  if (notification.mode) {
+    const hash = buildHash(notification.mode);
+    if (window.location.hash !== hash) window.location.hash = hash;
+  }
+};
+
+// System notifications only while the tab is hidden; in view, the toast is enough
+const showDesktop = (notification: AppNotification, title: string, body: string) => {
+  if (!document.hidden || getDesktopPermission() !== 'granted') return;
+  try {
+    const desktop = new Notification(title, { body, icon: APP_ICON, tag: notification.id, silent: true });
+    desktop.onclick = () => {
+      window.focus();
+      openNotification(notification);
+      desktop.close();
+    };
+  } catch (e) {
+    console.error('Error sending notification', e);
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Records an app event: it goes to the notification center and a toast, and to
+ * a desktop notification when allowed. Events turned off in the preferences are dropped.
+ */
+export const notify = ({ event, title, body, params, mode }: NotifyOptions) => {
+  const prefs = loadNotificationPrefs();
+  if (!prefs.events[event]) return;
+
+  const notification: AppNotification = {
+    id: crypto.randomUUID(),
+    event,
+    title,
+    body,
+    params,
+    mode,
+    timestamp: Date.now(),
+    read: false
+  };
+
+  toasts = [...toasts, notification].slice(-MAX_TOASTS);
+  saveHistory([notification, ...history].slice(0, MAX_HISTORY));
+
+  if (prefs.desktop) showDesktop(notification, t(title, params), t(body, params));
+  if (prefs.sound) playChime();
+};
+
+export const getNotifications = () => history;
+export const getToasts = () => toasts;
+export const getUnreadCount = () => history.filter(n => !n.read).length;
+
+export const dismissToast = (id: string) => {
+  if (!toasts.some(n => n.id === id)) return;
+  toasts = toasts.filter(n => n.id !== id);
+  emit();
+};
+
+export const markNotificationRead = (id: string) => {
+  if (!history.some(n => n.id === id && !n.read)) return;
+  saveHistory(history.map(n => n.id === id ? { ...n, read: true } : n));
+};
+
+export const markAllNotificationsRead = () => {
+  if (history.every(n => n.read)) return;
+  saveHistory(history.map(n => n.read ? n : { ...n, read: true }));
+};
+
+export const clearNotifications = () => saveHistory([]);
+
+export const subscribeNotifications = (listener: Listener) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/** Notification history and visible toasts; both arrays are replaced on every change. */
+export const useNotifications = () => ({
+  notifications: useSyncExternalStore(subscribeNotifications, getNotifications),
+  toasts: useSyncExternalStore(subscribeNotifications, getToasts)
+});
@@ -0,0 +1,19 @@
+import type { PlaylistPage } from '../server/protocol';
+import { companionJson } from './companion';
+
+export type { PlaylistEntry, PlaylistPage } from '../server/protocol';
+
+export const PLAYLIST_PAGE_SIZE = 50;
+
+export const fetchPlaylistPage = (url: string, page: number, signal?: AbortSignal) => {
+  const params = new URLSearchParams({ url, page: String(page), pageSize: String(PLAYLIST_PAGE_SIZE) });
+  return companionJson<PlaylistPage>(`/playlists?${params}`, { signal });
+};
+
+export const formatDuration = (seconds: number | null | undefined) => {
+  if (seconds === null || seconds === undefined) return '--:--';
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
@@ -0,0 +1,274 @@
+import { useSyncExternalStore } from 'react';
+import { FFmpeg } from '@ffmpeg/ffmpeg';
+import { fetchFile, toBlobURL } from '@ffmpeg/util';
+import { ProcessingJob, ProcessingRequest } from '../types';
+import { AppError, classifyError } from './errors';
+import { AUDIO_CONTAINERS, VideoCodec } from './formats';
+import { describeClip } from './clips';
+
+export interface ProcessingSource {
+  id: string; // Queue item or library video the job belongs to
+  name: string; // File name of the source, used to name the output
+  load: () => Promise<Blob>;
+}
+
+export interface EngineRun {
+  input: Blob;
+  inputName: string;
+  outputName: string;
+  args: string[];
+  durationSeconds?: number; // Output length, when known, for a more accurate progress
+  onProgress: (ratio: number) => void;
+  signal: AbortSignal;
+}
+
+// Whatever runs ffmpeg; the default one is ffmpeg.wasm in a Web Worker
+export interface MediaEngine {
+  run: (run: EngineRun) => Promise<Blob>;
+}
+
+type Listener = (jobs: readonly ProcessingJob[]) => void;
+
+// Single-threaded core: no SharedArrayBuffer (and so no COOP/COEP headers) needed
+const CORE_URL = 'https://unpkg.com/@ffmpeg/core@0.12.10/dist/esm';
+
+// The wasm core ships encoders for these; AV1 would need libaom
+export const PROCESSING_CODECS: VideoCodec[] = ['h264', 'vp9'];
+
+const MIME_TYPES: Record<string, string> = {
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mkv: 'video/x-matroska',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  opus: 'audio/ogg',
+  flac: 'audio/flac'
+};
+
+const AUDIO_CODEC_ARGS: Record<string, string[]> = {
+  mp3: ['-c:a', 'libmp3lame'],
+  m4a: ['-c:a', 'aac'],
+  opus: ['-c:a', 'libopus'],
+  flac: ['-c:a', 'flac']
+};
+
+// Tuned for speed: everything runs on one CPU core in the browser
+const VIDEO_CODEC_ARGS: Record<string, string[]> = {
+  h264: ['-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23'],
+  vp9: ['-c:v', 'libvpx-vp9', '-b:v', '0', '-crf', '33', '-deadline', 'realtime', '-cpu-used', '8']
+};
+
+export const isAudioContainer = (container: string) => (AUDIO_CONTAINERS as string[]).includes(container);
+
+const extensionOf = (fileName: string) => fileName.split('.').pop()?.toLowerCase() ?? '';
+
+export const describeProcessing = ({ format, startSeconds, endSeconds }: ProcessingRequest) => {
+  const parts = [format.container.toUpperCase()];
+  if (format.maxHeight) parts.push(`${format.maxHeight}p`);
+  if (startSeconds !== undefined || endSeconds !== undefined) {
+    parts.push(describeClip({ startSeconds: startSeconds ?? 0, endSeconds }));
+  }
+  return parts.join(' • ');
+};
+
+export const getOutputName = (sourceName: string, { format }: ProcessingRequest) => {
+  const dot = sourceName.lastIndexOf('.');
+  const stem = dot > 0 ? sourceName.slice(0, dot) : sourceName || 'media';
+  // Never hand back a file with the very same name as the source
+  return extensionOf(sourceName) === format.container ? `${stem}-edit.${format.container}` : `${stem}.${format.container}`;
+};
+
+export const buildFfmpegArgs = (request: ProcessingRequest, inputName: string, outputName: string) => {
+  const { format, startSeconds, endSeconds } = request;
+  const { container, maxHeight, videoCodec, audioBitrate } = format;
+  const args: string[] = [];
+
+  if (startSeconds) args.push('-ss', String(startSeconds));
+  args.push('-i', inputName);
+  if (endSeconds !== undefined) args.push('-t', String(endSeconds - (startSeconds ?? 0)));
+
+  if (isAudioContainer(container)) {
+    args.push('-vn', ...AUDIO_CODEC_ARGS[container]);
+    if (audioBitrate && container !== 'flac') args.push('-b:a', `${audioBitrate}k`);
+  } else if (extensionOf(inputName) === container && !maxHeight && !videoCodec) {
+    // Same container and nothing to re-encode: a trim or remux copies the streams
+    args.push('-c', 'copy');
+  } else {
+    const codec = videoCodec ?? (container === 'webm' ? 'vp9' : 'h264');
+    if (!VIDEO_CODEC_ARGS[codec]) throw new AppError('invalid_request', { detail: `Códec no disponible en el navegador: ${codec}` });
+    args.push(...VIDEO_CODEC_ARGS[codec]);
+    // Never upscale; -2 keeps the width even, which the encoders require
+    if (maxHeight) args.push('-vf', `scale=-2:'min(ih,${maxHeight})'`);
+    args.push('-c:a', container === 'webm' ? 'libopus' : 'aac');
+    if (container === 'mp4') args.push('-movflags', '+faststart');
+  }
+
+  args.push(outputName);
+  return args;
+};
+
+/** ffmpeg.wasm, loaded on first use. Aborting a run kills the worker; the next run loads a fresh one. */
+export const createFFmpegEngine = (): MediaEngine => {
+  let instance: Promise<FFmpeg> | null = null;
+
+  const load = () => {
+    instance ??= (async () => {
+      const ffmpeg = new FFmpeg();
+      await ffmpeg.load({
+        coreURL: await toBlobURL(`${CORE_URL}/ffmpeg-core.js`, 'text/javascript'),
+        wasmURL: await toBlobURL(`${CORE_URL}/ffmpeg-core.wasm`, 'application/wasm')
+      });
+      return ffmpeg;
+    })();
+    instance.catch(() => { instance = null; });
+    return instance;
+  };
+
+  return {
+    run: async ({ input, inputName, outputName, args, durationSeconds, onProgress, signal }) => {
+      const ffmpeg = await load();
+      const logs: string[] = [];
+      const onLog = ({ message }: { message: string }) => {
+        logs.push(message);
+        if (logs.length > 20) logs.shift();
+      };
+      // `time` is in microseconds; ffmpeg's own ratio is relative to the whole input
+      const onTick = ({ progress, time }: { progress: number; time: number }) =>
+        onProgress(durationSeconds ? time / 1e6 / durationSeconds : progress);
+      const onAbort = () => {
+        ffmpeg.terminate();
+        instance = null;
+      };
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      ffmpeg.on('log', onLog);
+      ffmpeg.on('progress', onTick);
+      try {
+        await ffmpeg.writeFile(inputName, await fetchFile(input));
+        const code = await ffmpeg.exec(args);
+        if (code !== 0) throw new Error(logs.slice(-3).join('\n') || `ffmpeg terminó con código ${code}`);
+        const data = await ffmpeg.readFile(outputName);
+        return new Blob([data], { type: MIME_TYPES[extensionOf(outputName)] || 'application/octet-stream' });
+      } finally {
+        signal.removeEventListener('abort', onAbort);
+        if (!signal.aborted) {
+          ffmpeg.off('log', onLog);
+          ffmpeg.off('progress', onTick);
+          await ffmpeg.deleteFile(inputName).catch(() => undefined);
+          await ffmpeg.deleteFile(outputName).catch(() => undefined);
+        }
+      }
+    }
+  };
+};
+
+/** Loads a finished download or a stored video so it can be handed to ffmpeg. */
+export const fetchMedia = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new AppError('processing_failed', { status: response.status, detail: `HTTP ${response.status} al leer ${url}` });
+  return response.blob();
+};
+
+export const isActiveProcessing = (job: ProcessingJob) => job.state === 'queued' || job.state === 'running';
+
+export const createProcessingManager = (engine: MediaEngine) => {
+  let jobs: ProcessingJob[] = [];
+  const controllers = new Map<string, AbortController>();
+  const listeners = new Set<Listener>();
+  // One job at a time: a second ffmpeg would only compete for the same core
+  let tail: Promise<void> = Promise.resolve();
+
+  const emit = () => listeners.forEach(listener => listener(jobs));
+
+  const update = (id: string, updates: Partial<ProcessingJob>) => {
+    jobs = jobs.map(job => job.id === id ? { ...job, ...updates } : job);
+    emit();
+  };
+
+  const run = async (job: ProcessingJob, source: ProcessingSource) => {
+    const controller = controllers.get(job.id);
+    if (!controller || controller.signal.aborted) return;
+    const { signal } = controller;
+    update(job.id, { state: 'running', progress: 0 });
+
+    try {
+      const input = await source.load();
+      const inputName = `input.${extensionOf(source.name) || 'bin'}`;
+      const outputName = `output.${job.request.format.container}`;
+      const { startSeconds = 0, endSeconds } = job.request;
+
+      const output = await engine.run({
+        input,
+        inputName,
+        outputName,
+        args: buildFfmpegArgs(job.request, inputName, outputName),
+        durationSeconds: endSeconds !== undefined ? endSeconds - startSeconds : undefined,
+        signal,
+        onProgress: (ratio) => {
+          if (!signal.aborted) update(job.id, { progress: Math.round(Math.min(1, Math.max(0, ratio)) * 100) });
+        }
+      });
+      if (signal.aborted) return;
+      update(job.id, { state: 'completed', progress: 100, output, finishedAt: Date.now() });
+    } catch (err) {
+      if (signal.aborted) return;
+      console.error('Processing failed', err);
+      update(job.id, { state: 'failed', error: classifyError(err, 'processing_failed').toInfo(), finishedAt: Date.now() });
+    } finally {
+      controllers.delete(job.id);
+    }
+  };
+
+  return {
+    start: (source: ProcessingSource, request: ProcessingRequest): ProcessingJob => {
+      const job: ProcessingJob = {
+        id: crypto.randomUUID(),
+        sourceId: source.id,
+        outputName: getOutputName(source.name, request),
+        label: describeProcessing(request),
+        request,
+        state: 'queued',
+        progress: 0,
+        createdAt: Date.now()
+      };
+      controllers.set(job.id, new AbortController());
+      jobs = [...jobs, job];
+      emit();
+      tail = tail.then(() => run(job, source));
+      return job;
+    },
+
+    cancel: (id: string) => {
+      const job = jobs.find(j => j.id === id);
+      if (!job || !isActiveProcessing(job)) return;
+      controllers.get(id)?.abort();
+      update(id, { state: 'cancelled', finishedAt: Date.now() });
+    },
+
+    remove: (id: string) => {
+      controllers.get(id)?.abort();
+      jobs = jobs.filter(job => job.id !== id);
+      emit();
+    },
+
+    // Replaced on every change, so it can serve as an external store snapshot
+    getJobs: (): readonly ProcessingJob[] => jobs,
+
+    subscribe: (listener: Listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    }
+  };
+};
+
+export type ProcessingManager = ReturnType<typeof createProcessingManager>;
+
+// App-wide manager, so a conversion keeps going while the user switches modes.
+// Outputs stay in memory until they are saved or the page is closed.
+export const processingManager = createProcessingManager(createFFmpegEngine());
+
+/** Most recent job started on `sourceId`, if any. */
+export const useProcessingJob = (sourceId: string) => {
+  const jobs = useSyncExternalStore(processingManager.subscribe, processingManager.getJobs);
+  return [...jobs].reverse().find(job => job.sourceId === sourceId);
+};
@@ -0,0 +1,24 @@
+import { useSyncExternalStore } from 'react';
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+/** Registers the offline service worker (production builds only; in dev it would cache modules Vite serves). */
+export const registerServiceWorker = () => {
+  if (!process.env.SERVICE_WORKER || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(SERVICE_WORKER_URL)
+      .catch(err => console.error('Failed to register service worker', err));
+  });
+};
+
+const subscribeOnline = (listener: () => void) => {
+  window.addEventListener('online', listener);
+  window.addEventListener('offline', listener);
+  return () => {
+    window.removeEventListener('online', listener);
+    window.removeEventListener('offline', listener);
+  };
+};
+
+/** Whether the browser has a network connection; analysis and downloads need one, the shell doesn't. */
+export const useOnlineStatus = () => useSyncExternalStore(subscribeOnline, () => navigator.onLine);
@@ -0,0 +1,36 @@
+import { BatchItem } from '../types';
+import { openDb, promisifyRequest, transactionDone } from './db';
+
+const STORE = 'queue';
+
+type StoredBatchItem = BatchItem & { position: number };
+
+// Transfers that were running when the page went away go back to the scheduler,
+// which reattaches to (or resumes) their companion job
+const restoreItem = ({ position, ...item }: StoredBatchItem): BatchItem => {
+  if (item.status !== 'downloading') return item;
+  return {
+    ...item,
+    status: 'queued',
+    phase: 'phase.resuming',
+    speed: '0 MB/s',
+    timeLeft: '--'
+  };
+};
+
+export const loadQueue = async (): Promise<BatchItem[]> => {
+  const db = await openDb();
+  const records = await promisifyRequest<StoredBatchItem[]>(
+    db.transaction(STORE, 'readonly').objectStore(STORE).getAll()
+  );
+  return records.sort((a, b) => a.position - b.position).map(restoreItem);
+};
+
+export const saveQueue = async (items: BatchItem[]) => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  store.clear();
+  items.forEach((item, position) => store.put({ ...item, position }));
+  await transactionDone(tx);
+};
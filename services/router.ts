@@ -0,0 +1,56 @@
+import { useState, useEffect } from 'react';
+import { AppMode } from '../types';
+
+export interface Route {
+  mode: AppMode;
+  params: URLSearchParams;
+}
+
+const MODE_PATHS: Record<AppMode, string> = {
+  [AppMode.DOWNLOADER]: '/download',
+  [AppMode.GENERATOR]: '/generate',
+  [AppMode.HISTORY]: '/history'
+};
+
+export const parseHash = (hash: string): Route => {
+  const [path, query = ''] = hash.replace(/^#/, '').split('?');
+  const mode = (Object.keys(MODE_PATHS) as AppMode[]).find(m => MODE_PATHS[m] === path) ?? AppMode.DOWNLOADER;
+  return { mode, params: new URLSearchParams(query) };
+};
+
+export const buildHash = (mode: AppMode, params?: Record<string, string | undefined>) => {
+  const query = new URLSearchParams();
+  Object.entries(params || {}).forEach(([key, value]) => {
+    if (value) query.set(key, value);
+  });
+  const search = query.toString();
+  return `#${MODE_PATHS[mode]}${search ? `?${search}` : ''}`;
+};
+
+/**
+ * Hash-based routing. Switching mode pushes a history entry so back/forward
+ * work; `replace` is meant for keeping deep-link params in sync with state.
+ */
+export const useHashRoute = () => {
+  const [route, setRoute] = useState<Route>(() => parseHash(window.location.hash));
+
+  useEffect(() => {
+    const onHashChange = () => setRoute(parseHash(window.location.hash));
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  const navigate = (mode: AppMode, params?: Record<string, string | undefined>, { replace = false } = {}) => {
+    const hash = buildHash(mode, params);
+    if (hash === window.location.hash) return;
+    if (replace) {
+      // replaceState does not fire hashchange, so the route is updated by hand
+      window.history.replaceState(null, '', hash);
+      setRoute(parseHash(hash));
+    } else {
+      window.location.hash = hash;
+    }
+  };
+
+  return { route, navigate };
+};
@@ -0,0 +1,56 @@
+import { BatchItem, QueuePriority } from '../types';
+
+export const DEFAULT_MAX_PARALLEL = 3;
+export const MAX_PARALLEL_OPTIONS = [1, 2, 3, 4, 5];
+export const MAX_RETRIES = 3;
+
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 60000;
+const MAX_PARALLEL_KEY = 'vortex_media_max_parallel';
+
+const PRIORITY_RANK: Record<QueuePriority, number> = { high: 0, normal: 1, low: 2 };
+const PRIORITY_CYCLE: Record<QueuePriority, QueuePriority> = { normal: 'high', high: 'low', low: 'normal' };
+
+export const nextPriority = (priority: QueuePriority = 'normal') => PRIORITY_CYCLE[priority];
+
+// Exponential backoff with up to 25% jitter so failed items don't retry in lockstep
+export const getRetryDelay = (attempt: number) => {
+  const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** attempt);
+  return Math.round(delay + Math.random() * delay * 0.25);
+};
+
+const isWaiting = (item: BatchItem, now: number) =>
+  item.status === 'queued' && (!item.retryAt || item.retryAt <= now);
+
+// Queued items that may start right now: highest priority first, then queue order
+export const pickNextItems = (queue: BatchItem[], maxParallel: number, now = Date.now()) => {
+  const running = queue.filter(i => i.status === 'downloading').length;
+  const slots = maxParallel - running;
+  if (slots <= 0) return [];
+
+  return queue
+    .map((item, position) => ({ item, position }))
+    .filter(({ item }) => isWaiting(item, now))
+    .sort((a, b) =>
+      PRIORITY_RANK[a.item.priority || 'normal'] - PRIORITY_RANK[b.item.priority || 'normal'] || a.position - b.position
+    )
+    .slice(0, slots)
+    .map(({ item }) => item);
+};
+
+// Earliest pending retry, so the scheduler knows when to wake up again
+export const getNextRetryAt = (queue: BatchItem[]) => {
+  const pending = queue
+    .filter(i => i.status === 'queued' && i.retryAt && i.retryAt > Date.now())
+    .map(i => i.retryAt!);
+  return pending.length > 0 ? Math.min(...pending) : null;
+};
+
+export const loadMaxParallel = () => {
+  const stored = Number(localStorage.getItem(MAX_PARALLEL_KEY));
+  return MAX_PARALLEL_OPTIONS.includes(stored) ? stored : DEFAULT_MAX_PARALLEL;
+};
+
+export const saveMaxParallel = (value: number) => {
+  localStorage.setItem(MAX_PARALLEL_KEY, String(value));
+};
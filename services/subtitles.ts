@@ -0,0 +1,66 @@
+import type { SubtitleFormat, SubtitleSelection, SubtitleTrack } from '../server/protocol';
+import { COMPANION_URL, companionJson, withCompanionToken } from './companion';
+import { getDefaultFormat } from './formats';
+import { getLocale, t } from './i18n';
+import { BatchItem } from '../types';
+
+export type { SavedSubtitle, SubtitleFormat, SubtitleSelection, SubtitleTrack } from '../server/protocol';
+export { SUBTITLE_FORMATS } from '../server/protocol';
+
+export type SubtitleMode = SubtitleSelection['mode'];
+
+export interface SubtitlePrefs {
+  format: SubtitleFormat;
+  mode: SubtitleMode;
+}
+
+const PREFS_KEY = 'vortex_media_subtitle_prefs';
+const DEFAULT_PREFS: SubtitlePrefs = { format: 'srt', mode: 'sidecar' };
+
+// Containers the companion can put soft subtitles into
+const EMBED_CONTAINERS = ['mp4', 'mkv'];
+
+/** Caption tracks the source offers, manual ones first; empty when the companion can't tell. */
+export const fetchSubtitleTracks = async (url: string, signal?: AbortSignal) =>
+  (await companionJson<{ tracks: SubtitleTrack[] }>(`/subtitles?${new URLSearchParams({ url })}`, { signal })).tracks;
+
+export const getSubtitleUrl = (downloadId: string, index: number) =>
+  withCompanionToken(`${COMPANION_URL}/downloads/${downloadId}/subtitles/${index}`);
+
+// Format and mode of the last selection, the starting point for the next item
+export const loadSubtitlePrefs = (): SubtitlePrefs => {
+  try {
+    return { ...DEFAULT_PREFS, ...JSON.parse(localStorage.getItem(PREFS_KEY) || '{}') };
+  } catch (e) {
+    console.error('Failed to read subtitle preferences', e);
+    return DEFAULT_PREFS;
+  }
+};
+
+export const rememberSubtitlePrefs = ({ format, mode }: SubtitlePrefs) => {
+  localStorage.setItem(PREFS_KEY, JSON.stringify({ format, mode }));
+};
+
+export const canEmbedSubtitles = (item: BatchItem) =>
+  item.type === 'video' && EMBED_CONTAINERS.includes((item.format || getDefaultFormat('video')).container);
+
+export const isSameTrack = (a: Pick<SubtitleTrack, 'language' | 'automatic'>, b: Pick<SubtitleTrack, 'language' | 'automatic'>) =>
+  a.language === b.language && a.automatic === b.automatic;
+
+/** Readable name of a track's language in the app's locale; "en-orig" is the original-language transcript. */
+export const getLanguageName = (track: Pick<SubtitleTrack, 'language' | 'name'>) => {
+  const code = track.language.replace(/-orig$/, '');
+  try {
+    return new Intl.DisplayNames([getLocale()], { type: 'language' }).of(code) || track.name || code;
+  } catch {
+    // Codes that aren't BCP 47 ("zh-Hans-en" translations, platform-specific names)
+    return track.name || code;
+  }
+};
+
+// `embedded` is false when the output container can't take them and they'll be saved as files
+export const describeSubtitles = (selection: SubtitleSelection, embedded = selection.mode === 'embed') => {
+  const languages = [...new Set(selection.tracks.map(track => track.language.replace(/-orig$/, '').toUpperCase()))];
+  const shown = languages.length > 3 ? `${languages.slice(0, 2).join(', ')} +${languages.length - 2}` : languages.join(', ');
+  return `${shown} · ${embedded ? t('subtitles.mode.embed') : selection.format.toUpperCase()}`;
+};
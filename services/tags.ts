@@ -0,0 +1,30 @@
+import type { MediaTags } from '../server/protocol';
+import { BatchItem } from '../types';
+import { companionJson } from './companion';
+import { DownloadSnapshot } from './downloads';
+
+export type { MediaTags } from '../server/protocol';
+
+// Containers the companion can write tags into (ID3v2 and iTunes atoms)
+export const TAGGABLE_CONTAINERS = ['mp3', 'm4a'];
+
+export const supportsTags = (item: BatchItem) =>
+  item.type === 'audio' && !item.result?.isPlaylist && TAGGABLE_CONTAINERS.includes(item.format?.container || 'mp3');
+
+// What the app knows before the download: playlist entries bring their title,
+// album and position; the cover is the analysis thumbnail. The companion adds
+// whatever the extractor reports for the fields left empty.
+export const defaultTags = (item: BatchItem): MediaTags => ({
+  title: item.playlist ? item.result?.summary : undefined,
+  album: item.playlist?.title ?? undefined,
+  track: item.playlist?.index,
+  coverUrl: item.result?.thumbnailUrl
+});
+
+/** Rewrites the tags of a file the companion already finished. */
+export const retagDownload = (downloadId: string, tags: MediaTags) =>
+  companionJson<DownloadSnapshot>(`/downloads/${downloadId}/tags`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(tags)
+  });
@@ -0,0 +1,119 @@
+import { ThemeConfig } from '../types';
+
+export type ColorScheme = 'dark' | 'light';
+export type Appearance = ColorScheme | 'system';
+
+export const BUILT_IN_THEMES: ThemeConfig[] = [
+  { id: 'neon', name: 'Neon Cyber', primary: '#06b6d4', secondary: '#3b82f6', gradientFrom: '#22d3ee', gradientTo: '#2563eb', glow: '#06b6d4', builtIn: true },
+  { id: 'sunset', name: 'Sunset Drive', primary: '#d946ef', secondary: '#f97316', gradientFrom: '#d946ef', gradientTo: '#f97316', glow: '#d946ef', builtIn: true },
+  { id: 'forest', name: 'Forest Rain', primary: '#10b981', secondary: '#84cc16', gradientFrom: '#34d399', gradientTo: '#65a30d', glow: '#10b981', builtIn: true },
+  { id: 'royal', name: 'Royal Velvet', primary: '#8b5cf6', secondary: '#f43f5e', gradientFrom: '#8b5cf6', gradientTo: '#f43f5e', glow: '#8b5cf6', builtIn: true },
+  { id: 'ocean', name: 'Ocean Deep', primary: '#3b82f6', secondary: '#14b8a6', gradientFrom: '#3b82f6', gradientTo: '#2dd4bf', glow: '#3b82f6', builtIn: true },
+  { id: 'cosmic', name: 'Cosmic Dust', primary: '#a855f7', secondary: '#ec4899', gradientFrom: '#a855f7', gradientTo: '#ec4899', glow: '#a855f7', builtIn: true }
+];
+
+export const THEME_COLORS = ['primary', 'secondary', 'gradientFrom', 'gradientTo', 'glow'] as const;
+export type ThemeColor = typeof THEME_COLORS[number];
+
+const CUSTOM_THEMES_KEY = 'vortex_media_custom_themes';
+const THEME_KEY = 'vortex_media_theme';
+const APPEARANCE_KEY = 'vortex_media_appearance';
+
+export const isHexColor = (value: unknown): value is string =>
+  typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+export const loadThemes = (): ThemeConfig[] => {
+  try {
+    const stored: ThemeConfig[] = JSON.parse(localStorage.getItem(CUSTOM_THEMES_KEY) || '[]');
+    return [...BUILT_IN_THEMES, ...stored];
+  } catch (e) {
+    console.error("Failed to load themes", e);
+    return BUILT_IN_THEMES;
+  }
+};
+
+export const saveThemes = (themes: ThemeConfig[]) => {
+  localStorage.setItem(CUSTOM_THEMES_KEY, JSON.stringify(themes.filter(t => !t.builtIn)));
+};
+
+export const loadThemeId = () => localStorage.getItem(THEME_KEY) || BUILT_IN_THEMES[0].id;
+
+export const saveThemeId = (id: string) => localStorage.setItem(THEME_KEY, id);
+
+export const loadAppearance = (): Appearance => {
+  const stored = localStorage.getItem(APPEARANCE_KEY);
+  return stored === 'dark' || stored === 'light' ? stored : 'system';
+};
+
+export const saveAppearance = (appearance: Appearance) => localStorage.setItem(APPEARANCE_KEY, appearance);
+
+const lightQuery = () => window.matchMedia('(prefers-color-scheme: light)');
+
+export const resolveScheme = (appearance: Appearance): ColorScheme =>
+  appearance === 'system' ? (lightQuery().matches ? 'light' : 'dark') : appearance;
+
+/** Calls `listener` when the OS switches between light and dark. */
+export const subscribeSystemScheme = (listener: () => void) => {
+  const query = lightQuery();
+  query.addEventListener('change', listener);
+  return () => query.removeEventListener('change', listener);
+};
+
+const toChannels = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+
+// Positive amounts mix towards white, negative towards black
+const shade = (hex: string, amount: number) => toChannels(hex)
+  .map(c => Math.round(amount >= 0 ? c + (255 - c) * amount : c * (1 + amount)))
+  .join(' ');
+
+// Tailwind's 300/400 steps are used for text and icons: lighter on dark
+// surfaces, darker on light ones so they keep their contrast
+const SHADES: Record<ColorScheme, Record<number, number>> = {
+  dark: { 300: 0.4, 400: 0.2, 500: 0, 600: -0.15 },
+  light: { 300: -0.35, 400: -0.25, 500: 0, 600: -0.15 }
+};
+
+/**
+ * Writes the theme as RGB channel variables on the root element. The Tailwind
+ * config in index.html maps `primary-*`, `secondary-*`, `gradient-*` and `glow`
+ * onto them, so class names stay static and any hex color works.
+ */
+export const applyTheme = (theme: ThemeConfig, scheme: ColorScheme, root = document.documentElement) => {
+  Object.entries(SHADES[scheme]).forEach(([step, amount]) => {
+    root.style.setProperty(`--theme-primary-${step}`, shade(theme.primary, amount));
+    root.style.setProperty(`--theme-secondary-${step}`, shade(theme.secondary, amount));
+  });
+  root.style.setProperty('--theme-gradient-start', shade(theme.gradientFrom, 0));
+  root.style.setProperty('--theme-gradient-end', shade(theme.gradientTo, 0));
+  root.style.setProperty('--theme-glow', shade(theme.glow, 0));
+  root.dataset.scheme = scheme;
+  root.style.colorScheme = scheme;
+};
+
+export const createCustomTheme = (base: ThemeConfig, name: string): ThemeConfig => ({
+  ...base,
+  id: `custom-${crypto.randomUUID()}`,
+  name,
+  builtIn: undefined
+});
+
+export const exportThemes = (themes: ThemeConfig[]): Blob => {
+  const plain = themes.map(({ builtIn, ...theme }) => theme);
+  return new Blob([JSON.stringify(plain, null, 2)], { type: 'application/json' });
+};
+
+const toTheme = (raw: Record<string, unknown>): ThemeConfig | null => {
+  if (!raw || typeof raw.name !== 'string' || !THEME_COLORS.every(key => isHexColor(raw[key]))) return null;
+  const colors = Object.fromEntries(THEME_COLORS.map(key => [key, String(raw[key]).toLowerCase()])) as Record<ThemeColor, string>;
+  // Imported themes always get fresh ids so they never overwrite a built-in or existing one
+  return { id: `custom-${crypto.randomUUID()}`, name: raw.name.trim() || 'Tema', ...colors };
+};
+
+/** Reads a file with one theme or a list of themes. Returns the valid ones. */
+export const importThemes = async (file: File): Promise<ThemeConfig[]> => {
+  const parsed = JSON.parse(await file.text());
+  const records: Record<string, unknown>[] = Array.isArray(parsed) ? parsed : [parsed];
+  const themes = records.map(toTheme).filter((theme): theme is ThemeConfig => theme !== null);
+  if (themes.length === 0) throw new Error('El archivo no contiene temas válidos');
+  return themes;
+};
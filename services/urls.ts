@@ -0,0 +1,202 @@
+const PLATFORMS: { name: string; hosts: string[] }[] = [
+  { name: 'YouTube', hosts: ['youtube.com', 'youtu.be', 'youtube-nocookie.com'] },
+  { name: 'TikTok', hosts: ['tiktok.com'] },
+  { name: 'Instagram', hosts: ['instagram.com'] },
+  { name: 'X', hosts: ['x.com', 'twitter.com'] },
+  { name: 'Facebook', hosts: ['facebook.com', 'fb.watch'] },
+  { name: 'SoundCloud', hosts: ['soundcloud.com'] },
+  { name: 'Spotify', hosts: ['spotify.com'] },
+  { name: 'Vimeo', hosts: ['vimeo.com'] },
+  { name: 'Twitch', hosts: ['twitch.tv'] },
+  { name: 'Reddit', hosts: ['reddit.com', 'redd.it'] },
+  { name: 'Dailymotion', hosts: ['dailymotion.com', 'dai.ly'] }
+];
+
+const KNOWN_HOSTS = PLATFORMS.flatMap(p => p.hosts);
+
+// Sites whose canonical host keeps the www. prefix
+const WWW_HOSTS = ['youtube.com', 'facebook.com', 'instagram.com', 'tiktok.com', 'reddit.com', 'dailymotion.com'];
+
+// Query parameters that only track who shared what; never part of the content
+const TRACKING_PARAMS = [
+  'si', 'igshid', 'igsh', 'fbclid', 'gclid', 'dclid', 'msclkid', 'mc_cid', 'mc_eid', 'feature', 'pp',
+  'ref', 'ref_src', 'ref_url', 'share_id', 'is_from_webapp', 'sender_device', 'sender_web_id', 'utm_id', 'spm', '_r', '_t'
+];
+
+// Tracking on these hosts only: `t` is a timestamp on YouTube but a share token on X
+const HOST_TRACKING_PARAMS: Record<string, string[]> = {
+  'x.com': ['s', 't'],
+  'twitter.com': ['s', 't'],
+  'open.spotify.com': ['context', 'nd']
+};
+
+// Anything up to whitespace, quotes or angle brackets (HTML attributes, <autolinks>), or up to
+// the "](" between a Markdown link's text and its target when the text is a link too
+const URL_BODY = `(?:(?!\\]\\()[^\\s"'<>\`])+`;
+const HOST_ALTERNATIVES = KNOWN_HOSTS.map(host => host.replace(/\./g, '\\.')).join('|');
+// Links with a scheme, `www.` links, and bare links to the platforms we know (youtu.be/abc, m.tiktok.com/...)
+const URL_PATTERN = new RegExp(
+  `\\bhttps?:\\/\\/${URL_BODY}|\\bwww\\.[a-z0-9-]+\\.${URL_BODY}|(?<![\\w./@-])(?:[a-z0-9-]+\\.)*(?:${HOST_ALTERNATIVES})\\/${URL_BODY}`,
+  'gi'
+);
+
+// Closing brackets only belong to the link when it opened them too: "(see https://a.com/x)", [text](url)
+const trimUnbalanced = (url: string, open: string, close: string) => {
+  while (url.endsWith(close) && url.split(open).length < url.split(close).length) url = url.slice(0, -1);
+  return url;
+};
+
+const trimMatch = (raw: string) => {
+  let url = raw;
+  let previous;
+  do {
+    previous = url;
+    url = url.replace(/[.,;:!?¡¿…]+$/, '');
+    url = trimUnbalanced(url, '(', ')');
+    url = trimUnbalanced(url, '[', ']');
+    url = trimUnbalanced(url, '{', '}');
+  } while (url !== previous);
+  // Copied from HTML source: href="...&amp;t=10"
+  return url.replace(/&amp;/g, '&');
+};
+
+/** Every link in free text (prose, Markdown, HTML), in order, with a scheme and without trailing punctuation. */
+export const extractUrls = (text: string) =>
+  [...text.matchAll(URL_PATTERN)]
+    .map(([match]) => trimMatch(match))
+    .filter(url => url.length > 0)
+    .map(url => /^https?:\/\//i.test(url) ? url : `https://${url}`);
+
+const hostOf = (url: URL) => url.hostname.toLowerCase().replace(/^(?:www|m|mobile)\./, '');
+
+const isHost = (host: string, domain: string) => host === domain || host.endsWith(`.${domain}`);
+
+const isKnownHost = (host: string) => KNOWN_HOSTS.some(known => isHost(host, known));
+
+/**
+ * One spelling per link: for the platforms we know, https, canonical host (no m./mobile./music.
+ * variants), short forms expanded (youtu.be → youtube.com/watch) and fragments dropped; other
+ * sites keep their scheme and host (plain-http and LAN servers, www.example.org). Tracking
+ * parameters are dropped everywhere. Anything that isn't a valid URL is returned unchanged.
+ */
+export const canonicalizeUrl = (input: string) => {
+  let url: URL;
+  try {
+    url = new URL(input);
+  } catch {
+    return input;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return input;
+
+  let host = hostOf(url);
+  const known = isKnownHost(host);
+  if (known) {
+    url.protocol = 'https:';
+    url.hash = '';
+    url.username = '';
+    url.password = '';
+  }
+
+  if (host === 'youtu.be') {
+    const id = url.pathname.slice(1).split('/')[0];
+    url.pathname = '/watch';
+    if (id) url.searchParams.set('v', id);
+    host = 'youtube.com';
+  } else if (host === 'music.youtube.com' || host === 'youtube-nocookie.com') {
+    host = 'youtube.com';
+  }
+
+  if (host === 'youtube.com') {
+    // /embed/ID, /v/ID and /live/ID are the same video as /watch?v=ID; /shorts/ID is kept as is
+    const [, kind, id] = url.pathname.match(/^\/(embed|v|live)\/([\w-]+)/) ?? [];
+    if (kind && id) {
+      url.pathname = '/watch';
+      url.searchParams.set('v', id);
+    }
+  }
+
+  if (host === 'twitter.com') host = 'x.com';
+  if (known) url.hostname = WWW_HOSTS.includes(host) ? `www.${host}` : host;
+
+  for (const name of [...url.searchParams.keys()]) {
+    const hostParams = HOST_TRACKING_PARAMS[host] ?? [];
+    if (name.startsWith('utm_') || TRACKING_PARAMS.includes(name) || hostParams.includes(name)) {
+      url.searchParams.delete(name);
+    }
+  }
+
+  if (known && url.pathname.length > 1) url.pathname = url.pathname.replace(/\/+$/, '');
+  return url.toString();
+};
+
+/**
+ * Identity of the content a link points to, so the same video reached through
+ * different URLs (watch page, short link, shorts, embeds) counts once. Sites we
+ * don't know fall back to the canonical URL.
+ */
+export const getContentKey = (input: string) => {
+  const canonical = canonicalizeUrl(input);
+  let url: URL;
+  try {
+    url = new URL(canonical);
+  } catch {
+    return canonical;
+  }
+  const host = hostOf(url);
+  const path = url.pathname;
+  let match: RegExpMatchArray | null;
+
+  if (isHost(host, 'youtube.com')) {
+    const list = url.searchParams.get('list');
+    const video = url.searchParams.get('v') ?? path.match(/^\/shorts\/([\w-]+)/)?.[1];
+    // A video opened from a playlist and the playlist itself are different things to download
+    if (video) return `youtube:${video}${list ? `:${list}` : ''}`;
+    if (list) return `youtube-list:${list}`;
+  } else if (isHost(host, 'tiktok.com') && (match = path.match(/\/video\/(\d+)/))) {
+    return `tiktok:${match[1]}`;
+  } else if (isHost(host, 'instagram.com') && (match = path.match(/\/(?:p|reels?|tv)\/([\w-]+)/))) {
+    return `instagram:${match[1]}`;
+  } else if (host === 'x.com' && (match = path.match(/\/status(?:es)?\/(\d+)/))) {
+    return `x:${match[1]}`;
+  } else if (host === 'vimeo.com' && (match = path.match(/^\/(?:.*\/)?(\d+)$/))) {
+    return `vimeo:${match[1]}`;
+  } else if (host === 'open.spotify.com' && (match = path.match(/\/(track|album|playlist|episode|show)\/(\w+)/))) {
+    return `spotify:${match[1]}:${match[2]}`;
+  } else if (host === 'soundcloud.com') {
+    return `soundcloud:${path.toLowerCase()}`;
+  }
+  return canonical;
+};
+
+/** The site's own ID for the content (video, post, track...); undefined for sites we don't know. */
+export const getContentId = (input: string) => {
+  const key = getContentKey(input);
+  if (/^https?:/.test(key)) return undefined;
+  const [site, ...parts] = key.split(':');
+  if (site === 'spotify') return parts[1];
+  if (site === 'soundcloud') return parts.join(':').split('/').filter(Boolean).pop();
+  return parts[0];
+};
+
+/** Canonical links found in `text`, one per piece of content, in order of appearance. */
+export const extractLinks = (text: string) => {
+  const seen = new Set<string>();
+  return extractUrls(text).map(canonicalizeUrl).filter(url => {
+    const key = getContentKey(url);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/** Platform a link belongs to, from its host alone (no analysis); unknown sites give their host name. */
+export const getPlatformName = (url: string) => {
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+  const platform = PLATFORMS.find(p => p.hosts.some(h => isHost(host, h)));
+  return platform ? platform.name : host;
+};
@@ -1,8 +1,10 @@
 import React from 'react';
+import type { ClipRange, ErrorKind, FormatSelection, MediaFormatOptions, MediaTags, SavedSubtitle, SubtitleSelection, SubtitleTrack } from './server/protocol';
 
 export enum AppMode {
   DOWNLOADER = 'DOWNLOADER',
-  GENERATOR = 'GENERATOR'
+  GENERATOR = 'GENERATOR',
+  HISTORY = 'HISTORY'
 }
 
 export interface AnalysisResult {
@@ -12,11 +14,113 @@ export interface AnalysisResult {
   contentType: 'video' | 'audio' | 'image' | 'unknown';
   thumbnailUrl?: string;
   isPlaylist?: boolean;
+  durationSeconds?: number;
+  subtitles?: SubtitleTrack[]; // Caption tracks the source offers, when the companion could tell
+}
+
+// What the UI shows for a failure (see services/errors.ts)
+export interface ErrorInfo {
+  kind: ErrorKind;
+  message: string;
+  suggestion: string;
+  helpLink: string;
+  detail?: string; // Raw message from the API or extractor, for the tooltip
+}
+
+export type QueuePriority = 'high' | 'normal' | 'low';
+
+export interface BatchItem {
+  id: string;
+  url: string;
+  status: 'idle' | 'analyzing' | 'ready' | 'queued' | 'downloading' | 'paused' | 'completed' | 'cancelled' | 'error';
+  progress: number;
+  speed: string;
+  phase: string; // Catalog key (phase.*); older queues may hold plain text
+  timeLeft: string;
+  result: AnalysisResult | null;
+  errorMsg?: string;
+  errorKind?: ErrorKind;
+  suggestion?: string;
+  helpLink?: string;
+  type: 'video' | 'audio';
+  format?: FormatSelection;
+  formatOptions?: MediaFormatOptions; // What the source offers, once asked
+  tags?: MediaTags; // Edited by the user, or as written into the finished file
+  clip?: ClipRange; // Segment picked in the preview player; only that part is downloaded
+  subtitles?: SubtitleSelection; // Caption tracks to fetch with a video
+  autoStart?: boolean; // Added from outside with auto-start: queued for download once analyzed
+  priority?: QueuePriority;
+  retries?: number;
+  retryAt?: number; // Epoch ms before which a failed item is not retried
+  downloadId?: string; // Companion job, kept so a reload can reattach to it
+  fileUrl?: string;
+  fileName?: string;
+  subtitleFiles?: SavedSubtitle[]; // Caption files saved next to the finished video
+  playlist?: { title: string | null; index: number };
 }
 
 export interface GeneratedVideo {
-  uri: string;
-  expiry?: string;
+  id: string; // Same as the generation job it came from
+  uri: string; // Remote Veo file, only downloadable until `expiry`
+  expiry?: string; // ISO date
+  prompt: string;
+  resolution: string;
+  aspectRatio: string;
+  createdAt: number;
+  blob?: Blob; // Local copy; missing when fetching the remote file failed
+}
+
+export type GenerationState = 'submitting' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface GenerationJob {
+  id: string;
+  prompt: string;
+  resolution: string;
+  aspectRatio: string;
+  state: GenerationState;
+  operationName?: string; // Veo long-running operation, kept so a reload can resume polling
+  createdAt: number;
+  finishedAt?: number;
+  videoUri?: string;
+  error?: ErrorInfo;
+}
+
+export interface ProcessingRequest {
+  format: FormatSelection; // Output container, codec, height and bitrate
+  startSeconds?: number; // Trim range; an unset end means "to the end"
+  endSeconds?: number;
+}
+
+export type ProcessingState = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// An ffmpeg.wasm job on a downloaded file or a generated video (see services/processing.ts)
+export interface ProcessingJob {
+  id: string;
+  sourceId: string; // Queue item or library video it works on
+  label: string; // Short description of the output, e.g. "MP3 • 0:30–1:10"
+  outputName: string;
+  request: ProcessingRequest;
+  state: ProcessingState;
+  progress: number; // 0-100
+  createdAt: number;
+  finishedAt?: number;
+  output?: Blob;
+  error?: ErrorInfo;
+}
+
+export type NotificationEvent = 'itemCompleted' | 'batchCompleted' | 'error' | 'generationCompleted';
+
+// Entry of the notification center (services/notifications.ts)
+export interface AppNotification {
+  id: string;
+  event: NotificationEvent;
+  // Catalog keys, so past notifications follow the current locale
+  title: string;
+  body: string;
+  params?: Record<string, string | number>;
+  mode?: AppMode;
+  timestamp: number;
+  read: boolean;
 }
 
 export interface PlatformConfig {
@@ -32,4 +136,31 @@ export interface HistoryItem {
   platform: string;
   timestamp: number;
   summary: string;
-}
\ No newline at end of file
+  type: 'video' | 'audio';
+  format?: FormatSelection;
+  clip?: ClipRange;
+  contentType?: AnalysisResult['contentType'];
+  thumbnailUrl?: string;
+  // The saved file, as the companion named it
+  fileName?: string;
+  fileSize?: number; // Bytes
+}
+
+export interface HistoryFilter {
+  text?: string;
+  platform?: string;
+  type?: 'video' | 'audio';
+  from?: number; // Epoch ms, inclusive
+  to?: number; // Epoch ms, inclusive
+}
+// Colors are hex strings; services/themes.ts turns them into CSS custom properties
+export interface ThemeConfig {
+  id: string;
+  name: string;
+  primary: string;
+  secondary: string;
+  gradientFrom: string;
+  gradientTo: string;
+  glow: string; // Box-shadow and text glow
+  builtIn?: boolean;
+}
@@ -1,18 +1,48 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { startCompanionServer, COMPANION_PORT } from './server';
 
-export default defineConfig(({ mode }) => {
+// Starts the local download companion together with the dev server
+const companion = (port: number): Plugin => ({
+  name: 'vortex-companion',
+  apply: 'serve',
+  async configureServer(server) {
+    try {
+      const companionServer = await startCompanionServer({ port });
+      server.httpServer?.once('close', () => companionServer.close());
+    } catch (error) {
+      // Most likely another instance is already running on that port
+      server.config.logger.warn(`[companion] not started: ${(error as Error).message}`);
+    }
+  }
+});
+
+export default defineConfig(({ mode, command }) => {
     const env = loadEnv(mode, '.', '');
+    const companionPort = Number(env.VORTEX_COMPANION_PORT) || COMPANION_PORT;
     return {
       server: {
         port: 3000,
-        host: '0.0.0.0',
+        // The proxied companion writes files on this machine: the LAN only gets it on request
+        // (VORTEX_DEV_HOST=0.0.0.0, plus that address in VORTEX_ALLOWED_ORIGINS)
+        host: env.VORTEX_DEV_HOST || 'localhost',
+        proxy: {
+          '/api': `http://127.0.0.1:${companionPort}`
+        }
+      },
+      plugins: [react(), companion(companionPort)],
+      // ffmpeg.wasm starts its worker from a URL relative to its own module, which pre-bundling breaks
+      optimizeDeps: {
+        exclude: ['@ffmpeg/ffmpeg', '@ffmpeg/util']
       },
-      plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.COMPANION_URL': JSON.stringify(env.VORTEX_COMPANION_URL || ''),
+        'process.env.GEMINI_BASE_URL': JSON.stringify(env.VORTEX_GEMINI_BASE_URL || ''),
+        // The offline service worker is only registered in builds (see services/pwa.ts)
+        'process.env.SERVICE_WORKER': JSON.stringify(command === 'build')
       },
       resolve: {
         alias: {